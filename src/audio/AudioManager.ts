@@ -18,7 +18,7 @@ interface Sound {
   category: SoundCategory;
 }
 
-type SoundCategory = 'sfx' | 'music' | 'voice' | 'ambient';
+export type SoundCategory = 'sfx' | 'music' | 'voice' | 'ambient';
 
 /**
  * Manages audio playback and sound effects for the application.
@@ -82,6 +82,29 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Adds an already loaded audio element to the sound library, e.g. from the asset loader
+   * @param {string} id Unique identifier for the sound
+   * @param {HTMLAudioElement} audio Loaded audio element
+   * @param {SoundCategory} category Category of the sound
+   * @throws {Error} If the ID already exists
+   */
+  public registerSound(
+    id: string,
+    audio: HTMLAudioElement,
+    category: SoundCategory
+  ): void {
+    if (this.sounds.has(id)) {
+      throw new Error(`Sound with ID '${id}' already exists`);
+    }
+
+    this.sounds.set(id, {
+      id,
+      audio,
+      category
+    });
+  }
+
   /**
    * Plays a sound by its ID
    * @param {string} id The sound identifier
@@ -138,6 +161,18 @@ export class AudioManager {
     });
   }
 
+  /**
+   * Sets the maximum number of sounds that may play at once,
+   * stopping the oldest sounds if more are already playing
+   * @param {number} max Maximum concurrent sounds (at least 1)
+   */
+  public setMaxConcurrentSounds(max: number): void {
+    this.config.maxConcurrentSounds = Math.max(1, Math.floor(max));
+    while (this.activeAudio.size > this.config.maxConcurrentSounds) {
+      this.stopOldestSound();
+    }
+  }
+
   /**
    * Toggles mute state
    * @param {boolean} muted Mute state to set
@@ -161,6 +196,15 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Checks if a sound is in the library
+   * @param {string} id Sound identifier
+   * @returns {boolean}
+   */
+  public hasSound(id: string): boolean {
+    return this.sounds.has(id);
+  }
+
   /**
    * Checks if a sound is currently playing
    * @param {string} id Sound identifier
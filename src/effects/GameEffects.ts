@@ -5,6 +5,10 @@
  * and other visual feedback in the game.
  */
 
+import { TimerManager } from '../engine/TimerManager';
+import { Camera } from '../engine/Camera';
+import { getPalette, Palette, pickColor } from '../engine/Palette';
+
 // Type definitions
 interface EffectConfig {
   duration: number;
@@ -28,31 +32,38 @@ type EffectType =
   | 'fadeIn'
   | 'fadeOut';
 
-// Effect preset configurations
+// Camera trauma added per unit of explosion intensity
+const EXPLOSION_TRAUMA = 0.4;
+
+// Effect preset configurations; colors are taken from the active palette
 const EFFECT_PRESETS: Record<string, EffectConfig> = {
   smallExplosion: {
     duration: 500,
     intensity: 0.5,
     particleCount: 10,
-    scale: 1,
-    color: '#FF4400'
+    scale: 1
   },
   largeExplosion: {
     duration: 1000,
     intensity: 1,
     particleCount: 30,
-    scale: 2,
-    color: '#FF6600'
+    scale: 2
   },
   sparkle: {
     duration: 300,
     intensity: 0.3,
     particleCount: 5,
-    scale: 0.5,
-    color: '#FFFF00'
+    scale: 0.5
   }
 };
 
+// Palette color for each preset
+const PRESET_COLORS: Record<string, (palette: Palette) => string> = {
+  smallExplosion: palette => pickColor(palette.explosion, 0),
+  largeExplosion: palette => pickColor(palette.explosion, 1),
+  sparkle: palette => palette.accent
+};
+
 /**
  * Class responsible for managing and triggering game visual effects
  */
@@ -60,22 +71,50 @@ export class GameEffects {
   private static instance: GameEffects;
   private activeEffects: Map<string, any>;
   private effectSystem: any; // Replace with actual effect system type
+  private timers: TimerManager;
+  private camera: Camera | null;
 
-  private constructor() {
+  private constructor(timers: TimerManager) {
     this.activeEffects = new Map();
     this.effectSystem = {}; // Initialize your effect system here
+    this.timers = timers;
+    this.camera = null;
   }
 
   /**
    * Gets the singleton instance of GameEffects
+   * @param timers - Loop-driven timers for effect durations; required on the first call
+   * @throws Error if the instance is created without timers
    */
-  public static getInstance(): GameEffects {
+  public static getInstance(timers?: TimerManager): GameEffects {
     if (!GameEffects.instance) {
-      GameEffects.instance = new GameEffects();
+      if (!timers) {
+        throw new Error('GameEffects must be created with a TimerManager');
+      }
+      GameEffects.instance = new GameEffects(timers);
+    } else if (timers) {
+      GameEffects.instance.setTimerManager(timers);
     }
     return GameEffects.instance;
   }
 
+  /**
+   * Sets the loop-driven timers used to time effect durations,
+   * so effects pause and slow down along with the game
+   * @param timers - Timer manager driven by the game loop
+   */
+  public setTimerManager(timers: TimerManager): void {
+    this.timers = timers;
+  }
+
+  /**
+   * Sets the camera that explosions shake
+   * @param camera - Camera to add trauma to, or null to disable shake
+   */
+  public setCamera(camera: Camera | null): void {
+    this.camera = camera;
+  }
+
   /**
    * Triggers a visual effect at the specified position
    * @param effectType - Type of effect to trigger
@@ -97,12 +136,18 @@ export class GameEffects {
       const effect = await this.createEffect(effectId, effectType, position, effectConfig);
       this.activeEffects.set(effectId, effect);
 
+      if (effectType === 'explosion') {
+        this.camera?.addTrauma(effectConfig.intensity * EXPLOSION_TRAUMA);
+      }
+
       // Set up effect completion handling
       return new Promise((resolve) => {
-        setTimeout(() => {
+        const complete = () => {
           this.cleanupEffect(effectId);
           resolve();
-        }, effectConfig.duration);
+        };
+
+        this.timers.after(effectConfig.duration, complete);
       });
     } catch (error) {
       console.error(`Failed to trigger effect ${effectType}:`, error);
@@ -138,7 +183,8 @@ export class GameEffects {
       throw new Error(`Preset effect "${presetName}" not found`);
     }
 
-    return this.triggerEffect('explosion', position, preset);
+    const color = PRESET_COLORS[presetName]?.(getPalette());
+    return this.triggerEffect('explosion', position, { ...preset, color });
   }
 
   // Private helper methods
@@ -187,7 +233,7 @@ export class GameEffects {
       type: effectType,
       position,
       config,
-      startTime: Date.now()
+      startTime: this.timers.getElapsed()
     };
   }
 
@@ -200,5 +246,4 @@ export class GameEffects {
   }
 }
 
-// Export a default instance
-export default GameEffects.getInstance();
\ No newline at end of file
+export default GameEffects;
\ No newline at end of file
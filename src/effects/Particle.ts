@@ -8,6 +8,8 @@
  * @version 1.0.0
  */
 
+import { TransformHistory } from '../engine/Interpolation';
+
 // Types and interfaces
 interface ParticleOptions {
   x: number;
@@ -45,6 +47,7 @@ export class Particle {
   private color: string;
   private size: number;
   private isActive: boolean;
+  private transform: TransformHistory;
 
   /**
    * Creates a new particle instance
@@ -64,6 +67,7 @@ export class Particle {
     this.color = options.color || DEFAULT_PARTICLE_CONFIG.color;
     this.size = options.size || DEFAULT_PARTICLE_CONFIG.size;
     this.isActive = true;
+    this.transform = new TransformHistory(this.position);
   }
 
   /**
@@ -81,6 +85,8 @@ export class Particle {
       return false;
     }
 
+    this.transform.snapshot(this.position);
+
     // Update velocity with acceleration
     this.velocity.x += this.acceleration.x * deltaTime;
     this.velocity.y += this.acceleration.y * deltaTime;
@@ -101,6 +107,23 @@ export class Particle {
     this.acceleration.y += force.y;
   }
 
+  /**
+   * Gets the position to render, blended between the last two fixed updates
+   * @param alpha - Interpolation alpha from the game loop (0-1)
+   * @returns Interpolated position
+   */
+  public getRenderPosition(alpha: number): Vector2D {
+    return this.transform.getPosition(this.position, alpha);
+  }
+
+  /**
+   * Enables or disables render interpolation for this particle
+   * @param enabled - When false, the latest position is always rendered
+   */
+  public setInterpolationEnabled(enabled: boolean): void {
+    this.transform.setEnabled(enabled);
+  }
+
   /**
    * Gets the current opacity based on remaining lifespan
    * @returns number between 0 and 1
@@ -165,6 +188,8 @@ export class Particle {
     this.acceleration = { x: 0, y: 0 };
     this.currentLifespan = options.lifespan || this.initialLifespan;
     this.isActive = true;
+    // A recycled particle must not interpolate from where it last died
+    this.transform.teleport(this.position);
   }
 }
 
@@ -8,6 +8,9 @@
  * @version 1.0.0
  */
 
+import { TransformHistory } from '../engine/Interpolation';
+import { getPalette, pickColor } from '../engine/Palette';
+
 // Types and interfaces
 interface Vector2D {
     x: number;
@@ -44,9 +47,11 @@ class Particle {
     private life: number;
     private maxLife: number;
     private opacity: number;
+    private transform: TransformHistory;
 
     constructor(config: ParticleConfig) {
         this.position = { ...config.position };
+        this.transform = new TransformHistory(this.position);
         this.velocity = config.velocity || { x: 0, y: 0 };
         this.acceleration = config.acceleration || { x: 0, y: 0 };
         this.color = config.color || '#ffffff';
@@ -65,6 +70,8 @@ class Particle {
         this.life -= deltaTime;
         if (this.life <= 0) return false;
 
+        this.transform.snapshot(this.position);
+
         // Update position based on velocity
         this.position.x += this.velocity.x * deltaTime / 1000;
         this.position.y += this.velocity.y * deltaTime / 1000;
@@ -80,14 +87,16 @@ class Particle {
     }
 
     /**
-     * Renders the particle to a canvas context
+     * Renders the particle to a canvas context at its interpolated position
      */
-    render(ctx: CanvasRenderingContext2D): void {
+    render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+        const position = this.transform.getPosition(this.position, alpha);
+
         ctx.save();
         ctx.globalAlpha = this.opacity;
         ctx.fillStyle = this.color;
         ctx.beginPath();
-        ctx.arc(this.position.x, this.position.y, this.size, 0, Math.PI * 2);
+        ctx.arc(position.x, position.y, this.size, 0, Math.PI * 2);
         ctx.fill();
         ctx.restore();
     }
@@ -99,7 +108,8 @@ class Particle {
 export class ParticleSystem {
     private particles: Particle[] = [];
     private emitterConfig: ParticleEmitterConfig;
-    private lastEmitTime: number = 0;
+    private pendingEmission: number = 0;
+    private particleCap: number = Infinity;
     private active: boolean = false;
 
     constructor(config: ParticleEmitterConfig) {
@@ -111,7 +121,7 @@ export class ParticleSystem {
      */
     start(): void {
         this.active = true;
-        this.lastEmitTime = performance.now();
+        this.pendingEmission = 0;
     }
 
     /**
@@ -126,15 +136,12 @@ export class ParticleSystem {
      * @param deltaTime Time elapsed since last update in milliseconds
      */
     update(deltaTime: number): void {
-        const currentTime = performance.now();
-
         // Emit new particles if active
         if (this.active) {
-            const emissionCount = this.calculateEmissionCount(currentTime);
+            const emissionCount = this.calculateEmissionCount(deltaTime);
             for (let i = 0; i < emissionCount; i++) {
                 this.emitParticle();
             }
-            this.lastEmitTime = currentTime;
         }
 
         // Update existing particles
@@ -144,25 +151,30 @@ export class ParticleSystem {
 
     /**
      * Renders all particles to the provided canvas context
+     * @param alpha Interpolation alpha from the game loop (0-1)
      */
-    render(ctx: CanvasRenderingContext2D): void {
-        this.particles.forEach(particle => particle.render(ctx));
+    render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+        this.particles.forEach(particle => particle.render(ctx, alpha));
     }
 
     /**
-     * Calculates how many particles should be emitted based on elapsed time
+     * Calculates how many particles should be emitted based on elapsed simulation time,
+     * carrying fractional particles over to the next update
      */
-    private calculateEmissionCount(currentTime: number): number {
-        const elapsed = currentTime - this.lastEmitTime;
-        const count = (this.emitterConfig.rate * elapsed) / 1000;
+    private calculateEmissionCount(deltaTime: number): number {
+        this.pendingEmission += (this.emitterConfig.rate * deltaTime) / 1000;
+        const count = Math.floor(this.pendingEmission);
+        this.pendingEmission -= count;
+
+        const maxParticles = this.getMaxParticles();
         
-        if (this.particles.length >= this.emitterConfig.maxParticles) {
+        if (this.particles.length >= maxParticles) {
             return 0;
         }
 
         return Math.floor(Math.min(
             count,
-            this.emitterConfig.maxParticles - this.particles.length
+            maxParticles - this.particles.length
         ));
     }
 
@@ -190,11 +202,32 @@ export class ParticleSystem {
     }
 
     /**
-     * Generates a random color for particles
+     * Picks a random particle color from the active palette
      */
     private getRandomColor(): string {
-        const hue = Math.random() * 360;
-        return `hsl(${hue}, 70%, 50%)`;
+        const colors = getPalette().particles;
+        return pickColor(colors, Math.random() * colors.length);
+    }
+
+    /**
+     * Limits live particles below the emitter's configured maximum,
+     * dropping the oldest particles if the system is already over the cap
+     * @param cap Maximum number of live particles
+     */
+    setParticleCap(cap: number): void {
+        this.particleCap = Math.max(0, cap);
+
+        const excess = this.particles.length - this.getMaxParticles();
+        if (excess > 0) {
+            this.particles.splice(0, excess);
+        }
+    }
+
+    /**
+     * Gets the effective particle limit
+     */
+    private getMaxParticles(): number {
+        return Math.min(this.emitterConfig.maxParticles, this.particleCap);
     }
 
     /**
@@ -0,0 +1,423 @@
+/**
+ * @file AssetLoader.ts
+ * @description Manifest-driven preloader for images, atlases, sounds and JSON data.
+ * Loads assets with a concurrency limit and per-asset timeout, reports progress,
+ * and hands the results to Sprite and AudioManager once the game is ready.
+ * @module engine/AssetLoader
+ */
+
+import { AUDIO_CONSTRAINTS, AUDIO_ERROR_CODES } from '../audio/AudioTypes';
+import { AudioManager, SoundCategory } from '../audio/AudioManager';
+import { addImage } from './ImageCache';
+import { AtlasData, SpriteAtlas } from './SpriteAtlas';
+import { Unsubscribe } from './GameLoop';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+export type AssetType = 'image' | 'atlas' | 'sound' | 'json';
+
+/**
+ * Assets to load, keyed by the name used to retrieve them
+ */
+export interface AssetManifest {
+  /** Image URLs */
+  images?: Record<string, string>;
+  /** Atlas image URL plus TexturePacker JSON URL */
+  atlases?: Record<string, { image: string; data: string }>;
+  /** Sound URLs; registered with the AudioManager under the same key */
+  sounds?: Record<string, string | { url: string; category?: SoundCategory }>;
+  /** JSON files such as level definitions */
+  json?: Record<string, string>;
+}
+
+/**
+ * Configuration options for the asset loader
+ */
+export interface AssetLoaderOptions {
+  /** Maximum assets loading at once (defaults to 4) */
+  concurrency?: number;
+  /** Per-asset timeout in milliseconds (defaults to AUDIO_CONSTRAINTS.DEFAULT_LOAD_TIMEOUT) */
+  timeout?: number;
+  /** Audio manager that loaded sounds are registered with (defaults to the singleton) */
+  audio?: AudioManager;
+}
+
+/**
+ * Progress reported after each asset settles
+ */
+export interface LoadProgress {
+  /** Assets settled so far, including failures */
+  loaded: number;
+  total: number;
+  failed: number;
+  /** Fraction settled (0-1) */
+  ratio: number;
+  /** Asset that just settled */
+  key: string;
+  type: AssetType;
+}
+
+export type ProgressListener = (progress: LoadProgress) => void;
+
+type AssetErrorCode = typeof AUDIO_ERROR_CODES.LOAD_TIMEOUT | typeof AUDIO_ERROR_CODES.LOAD_FAILED;
+
+/**
+ * Error for an asset that failed or timed out
+ */
+export class AssetLoadError extends Error {
+  constructor(
+    message: string,
+    public readonly key: string,
+    public readonly type: AssetType,
+    public readonly code: AssetErrorCode
+  ) {
+    super(message);
+    this.name = 'AssetLoadError';
+  }
+}
+
+/**
+ * Error thrown by `load` when one or more assets could not be loaded
+ */
+export class ManifestLoadError extends Error {
+  constructor(public readonly failures: AssetLoadError[]) {
+    super(`Failed to load ${failures.length} asset(s): ${failures.map(f => f.key).join(', ')}`);
+    this.name = 'ManifestLoadError';
+  }
+}
+
+/**
+ * Internal unit of work
+ */
+interface LoadTask {
+  key: string;
+  type: AssetType;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+const DEFAULT_CONCURRENCY = 4;
+
+// =========================================================
+// Main AssetLoader Class
+// =========================================================
+
+export class AssetLoader {
+  private concurrency: number;
+  private timeout: number;
+  private audio?: AudioManager;
+  private images: Map<string, HTMLImageElement>;
+  private atlases: Map<string, SpriteAtlas>;
+  private sounds: Map<string, HTMLAudioElement>;
+  private json: Map<string, unknown>;
+  private listeners: ProgressListener[];
+
+  /**
+   * Creates a new AssetLoader
+   * @param options - Concurrency, timeout and audio target
+   * @throws Error if concurrency or timeout is invalid
+   */
+  constructor(options: AssetLoaderOptions = {}) {
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.timeout = options.timeout ?? AUDIO_CONSTRAINTS.DEFAULT_LOAD_TIMEOUT;
+    this.audio = options.audio;
+
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error('Concurrency must be a positive integer');
+    }
+    if (!Number.isFinite(this.timeout) || this.timeout <= 0) {
+      throw new Error('Timeout must be a positive number');
+    }
+
+    this.images = new Map();
+    this.atlases = new Map();
+    this.sounds = new Map();
+    this.json = new Map();
+    this.listeners = [];
+  }
+
+  /**
+   * Loads every asset in a manifest; keys that are already loaded are skipped
+   * @param manifest - Assets to load
+   * @throws {ManifestLoadError} After all assets settle, if any failed
+   */
+  public async load(manifest: AssetManifest): Promise<void> {
+    const tasks = this.createTasks(manifest);
+    const failures: AssetLoadError[] = [];
+    let settled = 0;
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < tasks.length) {
+        const task = tasks[next++];
+
+        try {
+          await this.runWithTimeout(task);
+        } catch (error) {
+          failures.push(error instanceof AssetLoadError
+            ? error
+            : new AssetLoadError(
+              `Failed to load ${task.type} '${task.key}': ${(error as Error).message}`,
+              task.key,
+              task.type,
+              AUDIO_ERROR_CODES.LOAD_FAILED
+            ));
+        }
+
+        settled++;
+        this.emitProgress({
+          loaded: settled,
+          total: tasks.length,
+          failed: failures.length,
+          ratio: settled / tasks.length,
+          key: task.key,
+          type: task.type
+        });
+      }
+    };
+
+    const workers = Math.min(this.concurrency, tasks.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    if (failures.length > 0) {
+      throw new ManifestLoadError(failures);
+    }
+  }
+
+  /**
+   * Registers a progress listener
+   * @param listener - Function called after each asset settles
+   * @returns Function that removes the listener
+   */
+  public onProgress(listener: ProgressListener): Unsubscribe {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Gets a loaded image, e.g. for `new Sprite({ image, ... })`
+   * @param key - Manifest key
+   * @throws Error if the image has not been loaded
+   */
+  public getImage(key: string): HTMLImageElement {
+    return this.require(this.images, key, 'image');
+  }
+
+  /**
+   * Gets a loaded atlas, e.g. for `new Sprite({ atlas, ... })`
+   * @param key - Manifest key
+   * @throws Error if the atlas has not been loaded
+   */
+  public getAtlas(key: string): SpriteAtlas {
+    return this.require(this.atlases, key, 'atlas');
+  }
+
+  /**
+   * Gets a loaded sound element
+   * @param key - Manifest key
+   * @throws Error if the sound has not been loaded
+   */
+  public getSound(key: string): HTMLAudioElement {
+    return this.require(this.sounds, key, 'sound');
+  }
+
+  /**
+   * Gets loaded JSON data
+   * @param key - Manifest key
+   * @throws Error if the file has not been loaded
+   */
+  public getJSON<T = unknown>(key: string): T {
+    return this.require(this.json, key, 'json') as T;
+  }
+
+  /**
+   * Checks whether an asset of any type has been loaded under a key
+   * @param key - Manifest key
+   */
+  public has(key: string): boolean {
+    return this.images.has(key) || this.atlases.has(key) ||
+      this.sounds.has(key) || this.json.has(key);
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private createTasks(manifest: AssetManifest): LoadTask[] {
+    const tasks: LoadTask[] = [];
+
+    Object.entries(manifest.images ?? {}).forEach(([key, url]) => {
+      tasks.push({
+        key,
+        type: 'image',
+        run: async (signal) => {
+          const loaded = await this.loadImage(url, signal);
+          if (!signal.aborted) {
+            this.images.set(key, loaded);
+          }
+        }
+      });
+    });
+
+    Object.entries(manifest.atlases ?? {}).forEach(([key, { image, data }]) => {
+      tasks.push({
+        key,
+        type: 'atlas',
+        run: async (signal) => {
+          const [atlasImage, atlasData] = await Promise.all([
+            this.loadImage(image, signal),
+            this.fetchJSON<AtlasData>(data, signal)
+          ]);
+          if (!signal.aborted) {
+            this.atlases.set(key, new SpriteAtlas(atlasImage, atlasData));
+          }
+        }
+      });
+    });
+
+    Object.entries(manifest.sounds ?? {}).forEach(([key, entry]) => {
+      const { url, category = 'sfx' } = typeof entry === 'string' ? { url: entry } : entry;
+      tasks.push({
+        key,
+        type: 'sound',
+        run: async (signal) => {
+          const audio = await this.loadAudio(url);
+          // A timed-out sound may still finish; registering it late would block a retry
+          if (signal.aborted) {
+            return;
+          }
+          this.sounds.set(key, audio);
+
+          const manager = this.audio ?? AudioManager.getInstance();
+          if (!manager.hasSound(key)) {
+            manager.registerSound(key, audio, category);
+          }
+        }
+      });
+    });
+
+    Object.entries(manifest.json ?? {}).forEach(([key, url]) => {
+      tasks.push({
+        key,
+        type: 'json',
+        run: async (signal) => {
+          this.json.set(key, await this.fetchJSON(url, signal));
+        }
+      });
+    });
+
+    return tasks.filter(task => !this.isLoaded(task));
+  }
+
+  private isLoaded(task: LoadTask): boolean {
+    const stores: Record<AssetType, Map<string, unknown>> = {
+      image: this.images,
+      atlas: this.atlases,
+      sound: this.sounds,
+      json: this.json
+    };
+    return stores[task.type].has(task.key);
+  }
+
+  private runWithTimeout(task: LoadTask): Promise<void> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new AssetLoadError(
+          `Timed out loading ${task.type} '${task.key}' after ${this.timeout}ms`,
+          task.key,
+          task.type,
+          AUDIO_ERROR_CODES.LOAD_TIMEOUT
+        ));
+      }, this.timeout);
+    });
+
+    return Promise.race([task.run(controller.signal), timeout])
+      .finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Loads an image, sharing it through the image cache once loaded.
+   * Aborting cancels the download and keeps the image out of the cache,
+   * so a timed-out image cannot be handed to later sprites
+   */
+  private loadImage(url: string, signal: AbortSignal): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+
+      const abort = () => {
+        image.onload = null;
+        image.onerror = null;
+        image.src = '';
+        reject(new Error(`Image request aborted: ${url}`));
+      };
+      if (signal.aborted) {
+        abort();
+        return;
+      }
+      signal.addEventListener('abort', abort, { once: true });
+
+      image.onload = () => {
+        signal.removeEventListener('abort', abort);
+        if (!signal.aborted) {
+          addImage(url, image);
+        }
+        resolve(image);
+      };
+      image.onerror = () => {
+        signal.removeEventListener('abort', abort);
+        reject(new Error(`Image request failed: ${url}`));
+      };
+      image.src = url;
+    });
+  }
+
+  private loadAudio(url: string): Promise<HTMLAudioElement> {
+    return new Promise((resolve, reject) => {
+      const audio = new Audio();
+      audio.preload = 'auto';
+      audio.addEventListener('canplaythrough', () => resolve(audio), { once: true });
+      audio.addEventListener('error', () => reject(new Error(`Audio request failed: ${url}`)), { once: true });
+      audio.src = url;
+      audio.load();
+    });
+  }
+
+  private async fetchJSON<T = unknown>(url: string, signal: AbortSignal): Promise<T> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private require<T>(store: Map<string, T>, key: string, type: AssetType): T {
+    const asset = store.get(key);
+    if (asset === undefined) {
+      throw new Error(`No ${type} loaded for key '${key}'`);
+    }
+    return asset;
+  }
+
+  private emitProgress(progress: LoadProgress): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('Error in asset progress listener:', error);
+      }
+    }
+  }
+}
+
+export default AssetLoader;
@@ -0,0 +1,376 @@
+/**
+ * @file BitmapFont.ts
+ * @description Bitmap-font text rendering for canvas HUDs.
+ * Draws glyphs from an atlas with per-glyph metrics, so text scales with the
+ * canvas and shows up in screenshots and recordings. Includes a built-in 5x7
+ * arcade font generated from bitmasks.
+ * @module engine/BitmapFont
+ */
+
+import { SpriteImage } from './ImageCache';
+import { renderBitmap } from './SpriteGenerator';
+import { CanvasError, Dimensions } from './types';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Location and spacing of one glyph in the font atlas
+ */
+export interface GlyphMetrics {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Offset from the pen position to the glyph's top-left corner */
+  xOffset: number;
+  yOffset: number;
+  /** Distance the pen moves after drawing the glyph */
+  advance: number;
+}
+
+/**
+ * Font description accompanying the atlas image
+ */
+export interface BitmapFontData {
+  /** Distance between baselines of consecutive lines */
+  lineHeight: number;
+  glyphs: Record<string, GlyphMetrics>;
+  /** Glyph drawn for characters the font lacks (defaults to '?') */
+  fallback?: string;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+export type TextBaseline = 'top' | 'middle' | 'bottom';
+
+/**
+ * Options for drawing text
+ */
+export interface TextStyle {
+  /** Horizontal alignment relative to x (defaults to left) */
+  align?: TextAlign;
+  /** Vertical alignment relative to y (defaults to top) */
+  baseline?: TextBaseline;
+  /** Extra space between glyphs in font pixels */
+  letterSpacing?: number;
+  /** Extra space between lines in font pixels */
+  lineSpacing?: number;
+  /** Fill color; glyphs keep their atlas colors if omitted */
+  color?: string;
+  /** Size multiplier (defaults to 1) */
+  scale?: number;
+}
+
+/**
+ * Options for drawing numbers
+ */
+export interface NumberStyle extends TextStyle {
+  /** Formatter to use, e.g. the one owned by ScoreDisplay */
+  formatter?: Intl.NumberFormat;
+  /** Format options used when no formatter is given */
+  formatOptions?: Intl.NumberFormatOptions;
+  /** Locale used when no formatter is given (defaults to the browser language) */
+  locale?: string;
+}
+
+// =========================================================
+// Built-in Arcade Font
+// =========================================================
+
+const ARCADE_GLYPH_WIDTH = 5;
+const ARCADE_GLYPH_HEIGHT = 7;
+
+// 5x7 glyphs, one bitmask per row with the leftmost pixel in bit 4
+const ARCADE_GLYPHS: Record<string, number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  'A': [0x0e, 0x11, 0x11, 0x11, 0x1f, 0x11, 0x11],
+  'B': [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  'C': [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  'D': [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  'E': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  'F': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  'G': [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  'H': [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  'I': [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  'J': [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  'K': [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  'L': [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  'M': [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  'N': [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  'O': [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'P': [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  'Q': [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  'R': [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  'S': [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  'T': [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  'U': [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'V': [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  'W': [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  'X': [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  'Y': [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  'Z': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  ' ': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+  '!': [0x04, 0x04, 0x04, 0x04, 0x04, 0x00, 0x04],
+  '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x00, 0x04],
+  '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  '+': [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+  '=': [0x00, 0x00, 0x1f, 0x00, 0x1f, 0x00, 0x00],
+  '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  ',': [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  '\'': [0x0c, 0x04, 0x08, 0x00, 0x00, 0x00, 0x00],
+  '/': [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+  '<': [0x02, 0x04, 0x08, 0x10, 0x08, 0x04, 0x02],
+  '>': [0x08, 0x04, 0x02, 0x01, 0x02, 0x04, 0x08],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '*': [0x00, 0x04, 0x15, 0x0e, 0x15, 0x04, 0x00],
+  '#': [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+  '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03]
+};
+
+// Separators Intl.NumberFormat may emit that the font draws as a plain space
+const SPACE_CHARACTERS = /[\u00a0\u202f\u2009]/g;
+
+let arcadeFont: BitmapFont | null = null;
+
+// =========================================================
+// Main BitmapFont Class
+// =========================================================
+
+export class BitmapFont {
+  private image: SpriteImage;
+  private lineHeight: number;
+  private glyphs: Map<string, GlyphMetrics>;
+  private fallback: string;
+  private tinted: Map<string, HTMLCanvasElement>;
+  private hasLowercase: boolean;
+
+  /**
+   * Creates a new BitmapFont
+   * @param image - Glyph atlas image or canvas
+   * @param data - Line height and glyph metrics
+   * @throws Error if the font has no glyphs
+   */
+  constructor(image: SpriteImage, data: BitmapFontData) {
+    const entries = Object.entries(data.glyphs ?? {});
+    if (entries.length === 0) {
+      throw new Error('Bitmap font must define at least one glyph');
+    }
+
+    this.image = image;
+    this.lineHeight = data.lineHeight;
+    this.glyphs = new Map(entries);
+    this.fallback = data.fallback ?? '?';
+    this.tinted = new Map();
+    this.hasLowercase = entries.some(([char]) => char !== char.toUpperCase());
+  }
+
+  /**
+   * Gets the shared built-in 5x7 arcade font (uppercase, digits and punctuation)
+   */
+  public static arcade(): BitmapFont {
+    if (!arcadeFont) {
+      const characters = Object.keys(ARCADE_GLYPHS);
+      const atlas = renderBitmap({
+        width: ARCADE_GLYPH_WIDTH,
+        frames: characters.map(char => ARCADE_GLYPHS[char])
+      });
+
+      const glyphs: Record<string, GlyphMetrics> = {};
+      characters.forEach((char, index) => {
+        glyphs[char] = {
+          x: index * ARCADE_GLYPH_WIDTH,
+          y: 0,
+          width: ARCADE_GLYPH_WIDTH,
+          height: ARCADE_GLYPH_HEIGHT,
+          xOffset: 0,
+          yOffset: 0,
+          advance: ARCADE_GLYPH_WIDTH + 1
+        };
+      });
+
+      arcadeFont = new BitmapFont(atlas, { lineHeight: ARCADE_GLYPH_HEIGHT + 1, glyphs });
+    }
+    return arcadeFont;
+  }
+
+  /**
+   * Checks whether the font can draw a character, after case folding
+   * @param char - Single character
+   */
+  public hasGlyph(char: string): boolean {
+    return this.glyphs.has(this.normalize(char));
+  }
+
+  /**
+   * Measures text as it would be drawn
+   * @param text - Text, possibly spanning several lines
+   * @param style - Spacing and scale
+   * @returns Size in drawing coordinates
+   */
+  public measure(text: string, style: TextStyle = {}): Dimensions {
+    const scale = style.scale ?? 1;
+    const lines = text.split('\n');
+    const width = Math.max(...lines.map(line => this.measureLine(line, style.letterSpacing ?? 0)));
+    const height = lines.length * this.lineHeight + (lines.length - 1) * (style.lineSpacing ?? 0);
+
+    return { width: width * scale, height: height * scale };
+  }
+
+  /**
+   * Draws text
+   * @param context - Target context
+   * @param text - Text, possibly spanning several lines
+   * @param x - X position the text is aligned to
+   * @param y - Y position the text is aligned to
+   * @param style - Alignment, spacing, color and scale
+   */
+  public draw(context: CanvasRenderingContext2D, text: string, x: number, y: number, style: TextStyle = {}): void {
+    const scale = style.scale ?? 1;
+    const letterSpacing = style.letterSpacing ?? 0;
+    const lineAdvance = (this.lineHeight + (style.lineSpacing ?? 0)) * scale;
+    const lines = text.split('\n');
+    const source = style.color ? this.getTinted(style.color) : this.image;
+
+    let top = y;
+    const totalHeight = this.measure(text, style).height;
+    if (style.baseline === 'middle') {
+      top -= totalHeight / 2;
+    } else if (style.baseline === 'bottom') {
+      top -= totalHeight;
+    }
+
+    context.save();
+    context.imageSmoothingEnabled = false;
+
+    lines.forEach((line, lineIndex) => {
+      const lineWidth = this.measureLine(line, letterSpacing) * scale;
+      let penX = x;
+      if (style.align === 'center') {
+        penX -= lineWidth / 2;
+      } else if (style.align === 'right') {
+        penX -= lineWidth;
+      }
+      const penY = top + lineIndex * lineAdvance;
+
+      for (const char of line) {
+        const glyph = this.getGlyph(char);
+        if (!glyph) {
+          continue;
+        }
+
+        if (glyph.width > 0 && glyph.height > 0) {
+          context.drawImage(
+            source,
+            glyph.x,
+            glyph.y,
+            glyph.width,
+            glyph.height,
+            Math.round(penX + glyph.xOffset * scale),
+            Math.round(penY + glyph.yOffset * scale),
+            glyph.width * scale,
+            glyph.height * scale
+          );
+        }
+        penX += (glyph.advance + letterSpacing) * scale;
+      }
+    });
+
+    context.restore();
+  }
+
+  /**
+   * Formats and draws a number
+   * @param context - Target context
+   * @param value - Number to draw
+   * @param x - X position the text is aligned to
+   * @param y - Y position the text is aligned to
+   * @param style - Text style plus formatter or format options
+   */
+  public drawNumber(context: CanvasRenderingContext2D, value: number, x: number, y: number, style: NumberStyle = {}): void {
+    this.draw(context, BitmapFont.formatNumber(value, style), x, y, style);
+  }
+
+  /**
+   * Formats a number the way ScoreDisplay does
+   * @param value - Number to format
+   * @param style - Formatter, or format options and locale
+   */
+  public static formatNumber(value: number, style: Pick<NumberStyle, 'formatter' | 'formatOptions' | 'locale'> = {}): string {
+    const formatter = style.formatter ??
+      new Intl.NumberFormat(style.locale ?? navigator.language, style.formatOptions);
+    return formatter.format(value);
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private normalize(char: string): string {
+    const spaced = char.replace(SPACE_CHARACTERS, ' ');
+    if (this.glyphs.has(spaced) || this.hasLowercase) {
+      return spaced;
+    }
+    return spaced.toUpperCase();
+  }
+
+  private getGlyph(char: string): GlyphMetrics | undefined {
+    return this.glyphs.get(this.normalize(char)) ?? this.glyphs.get(this.fallback);
+  }
+
+  private measureLine(line: string, letterSpacing: number): number {
+    let penX = 0;
+    let last: GlyphMetrics | undefined;
+    for (const char of line) {
+      const glyph = this.getGlyph(char);
+      if (glyph) {
+        if (last) {
+          penX += last.advance + letterSpacing;
+        }
+        last = glyph;
+      }
+    }
+    // The text ends at the last glyph's right edge, not where the pen moves after it
+    return last ? penX + last.xOffset + last.width : 0;
+  }
+
+  /**
+   * Gets a copy of the atlas filled with a color, keeping glyph alpha
+   */
+  private getTinted(color: string): HTMLCanvasElement {
+    let tinted = this.tinted.get(color);
+    if (tinted) {
+      return tinted;
+    }
+
+    tinted = document.createElement('canvas');
+    tinted.width = this.image.width;
+    tinted.height = this.image.height;
+
+    const context = tinted.getContext('2d');
+    if (!context) {
+      throw new CanvasError('Failed to create font tint context');
+    }
+
+    context.drawImage(this.image, 0, 0);
+    context.globalCompositeOperation = 'source-in';
+    context.fillStyle = color;
+    context.fillRect(0, 0, tinted.width, tinted.height);
+
+    this.tinted.set(color, tinted);
+    return tinted;
+  }
+}
+
+export default BitmapFont;
@@ -0,0 +1,322 @@
+/**
+ * @file Camera.ts
+ * @description 2D camera with position, zoom, trauma-based screen shake and
+ * viewport culling bounds.
+ * Shake follows the trauma model: events add trauma (0-1), which decays over
+ * time, and the shake amount is trauma squared so small hits stay subtle.
+ * @module engine/Camera
+ */
+
+import { GameLoop, Unsubscribe } from './GameLoop';
+import { Dimensions, Point2D, Rect } from './types';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Configuration options for the camera
+ */
+export interface CameraOptions {
+  /** World point at the center of the view (defaults to the viewport center) */
+  position?: Point2D;
+  /** Initial zoom (defaults to 1) */
+  zoom?: number;
+  /** Largest shake translation in screen pixels at full trauma (defaults to 8) */
+  maxShakeOffset?: number;
+  /** Largest shake rotation in radians at full trauma (defaults to 0.03) */
+  maxShakeAngle?: number;
+  /** Trauma removed per second (defaults to 1.5) */
+  traumaDecay?: number;
+  /** World area the view is kept inside, if any */
+  bounds?: Rect;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+const DEFAULT_OPTIONS = {
+  zoom: 1,
+  maxShakeOffset: 8,
+  maxShakeAngle: 0.03,
+  traumaDecay: 1.5
+} as const;
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+
+// Frequencies of the summed sines used as smooth shake noise, in radians per second
+const SHAKE_FREQUENCIES = [23, 37, 51] as const;
+
+// =========================================================
+// Main Camera Class
+// =========================================================
+
+export class Camera {
+  private viewport: Dimensions;
+  private position: Point2D;
+  private zoom: number;
+  private trauma: number;
+  private time: number;
+  private shakeOffset: Point2D;
+  private shakeAngle: number;
+  private maxShakeOffset: number;
+  private maxShakeAngle: number;
+  private traumaDecay: number;
+  private bounds: Rect | null;
+
+  /**
+   * Creates a new Camera
+   * @param viewport - Logical size of the view, e.g. `canvas.getDimensions()`
+   * @param options - Position, zoom, shake and bounds settings
+   * @throws Error if the viewport is not positive
+   */
+  constructor(viewport: Dimensions, options: CameraOptions = {}) {
+    if (viewport.width <= 0 || viewport.height <= 0) {
+      throw new Error('Camera viewport must have positive dimensions');
+    }
+
+    this.viewport = { ...viewport };
+    this.position = options.position
+      ? { ...options.position }
+      : { x: viewport.width / 2, y: viewport.height / 2 };
+    this.zoom = this.clampZoom(options.zoom ?? DEFAULT_OPTIONS.zoom);
+    this.maxShakeOffset = options.maxShakeOffset ?? DEFAULT_OPTIONS.maxShakeOffset;
+    this.maxShakeAngle = options.maxShakeAngle ?? DEFAULT_OPTIONS.maxShakeAngle;
+    this.traumaDecay = options.traumaDecay ?? DEFAULT_OPTIONS.traumaDecay;
+    this.bounds = options.bounds ? { ...options.bounds } : null;
+    this.trauma = 0;
+    this.time = 0;
+    this.shakeOffset = { x: 0, y: 0 };
+    this.shakeAngle = 0;
+
+    this.clampToBounds();
+  }
+
+  /**
+   * Updates shake from the game loop's fixed step, so it pauses and slows with the game
+   * @param loop - Game loop
+   * @returns Function that detaches the camera from the loop
+   */
+  public attach(loop: GameLoop): Unsubscribe {
+    return loop.onFixedUpdate((deltaTime) => this.update(deltaTime));
+  }
+
+  /**
+   * Decays trauma and recomputes the shake offset
+   * @param deltaTime - Elapsed simulation time in milliseconds
+   */
+  public update(deltaTime: number): void {
+    if (deltaTime <= 0) {
+      return;
+    }
+
+    this.time += deltaTime / 1000;
+    this.trauma = Math.max(0, this.trauma - this.traumaDecay * deltaTime / 1000);
+
+    const shake = this.trauma * this.trauma;
+    if (shake === 0) {
+      this.shakeOffset = { x: 0, y: 0 };
+      this.shakeAngle = 0;
+      return;
+    }
+
+    this.shakeOffset = {
+      x: this.maxShakeOffset * shake * this.noise(0),
+      y: this.maxShakeOffset * shake * this.noise(1)
+    };
+    this.shakeAngle = this.maxShakeAngle * shake * this.noise(2);
+  }
+
+  /**
+   * Adds screen shake trauma
+   * @param amount - Trauma to add; the total is clamped to 0-1
+   */
+  public addTrauma(amount: number): void {
+    this.trauma = Math.max(0, Math.min(1, this.trauma + amount));
+  }
+
+  /**
+   * Gets the current trauma (0-1)
+   */
+  public getTrauma(): number {
+    return this.trauma;
+  }
+
+  /**
+   * Centers the view on a world point
+   * @param x - World X coordinate
+   * @param y - World Y coordinate
+   */
+  public lookAt(x: number, y: number): void {
+    this.position = { x, y };
+    this.clampToBounds();
+  }
+
+  /**
+   * Gets the world point at the center of the view
+   */
+  public getPosition(): Point2D {
+    return { ...this.position };
+  }
+
+  /**
+   * Sets the zoom; values above 1 magnify the world
+   * @param zoom - Zoom factor, clamped to 0.1-10
+   */
+  public setZoom(zoom: number): void {
+    this.zoom = this.clampZoom(zoom);
+    this.clampToBounds();
+  }
+
+  /**
+   * Gets the zoom factor
+   */
+  public getZoom(): number {
+    return this.zoom;
+  }
+
+  /**
+   * Sets the world area the view is kept inside
+   * @param bounds - World rectangle, or null to remove the limit
+   */
+  public setBounds(bounds: Rect | null): void {
+    this.bounds = bounds ? { ...bounds } : null;
+    this.clampToBounds();
+  }
+
+  /**
+   * Updates the logical viewport size, e.g. after `Canvas.resize`
+   * @param viewport - Logical size of the view
+   */
+  public setViewport(viewport: Dimensions): void {
+    this.viewport = { ...viewport };
+    this.clampToBounds();
+  }
+
+  /**
+   * Gets the visible world area, ignoring shake
+   * @param margin - Extra world units added on every side, e.g. for culling
+   */
+  public getViewBounds(margin: number = 0): Rect {
+    const width = this.viewport.width / this.zoom;
+    const height = this.viewport.height / this.zoom;
+
+    return {
+      x: this.position.x - width / 2 - margin,
+      y: this.position.y - height / 2 - margin,
+      width: width + margin * 2,
+      height: height + margin * 2
+    };
+  }
+
+  /**
+   * Gets the area to cull against: the view plus room for the largest shake
+   */
+  public getCullingBounds(): Rect {
+    const { width, height } = this.viewport;
+    // Rotation swings the corners out by up to half the diagonal times the angle
+    const rotationMargin = Math.hypot(width, height) / 2 * Math.sin(this.maxShakeAngle);
+    return this.getViewBounds((this.maxShakeOffset + rotationMargin) / this.zoom);
+  }
+
+  /**
+   * Checks whether a world rectangle overlaps the culling bounds
+   * @param rect - World rectangle
+   */
+  public isVisible(rect: Rect): boolean {
+    const view = this.getCullingBounds();
+    return rect.x < view.x + view.width && view.x < rect.x + rect.width &&
+      rect.y < view.y + view.height && view.y < rect.y + rect.height;
+  }
+
+  /**
+   * Applies the view transform; call between `save` and `restore`
+   * @param context - Context whose current transform maps logical screen coordinates
+   */
+  public applyTransform(context: CanvasRenderingContext2D): void {
+    context.translate(
+      this.viewport.width / 2 + this.shakeOffset.x,
+      this.viewport.height / 2 + this.shakeOffset.y
+    );
+    context.rotate(this.shakeAngle);
+    context.scale(this.zoom, this.zoom);
+    context.translate(-this.position.x, -this.position.y);
+  }
+
+  /**
+   * Converts logical screen coordinates (e.g. from `Canvas.toLogical`) to world coordinates
+   * @param point - Screen point
+   */
+  public screenToWorld(point: Point2D): Point2D {
+    const x = point.x - this.viewport.width / 2 - this.shakeOffset.x;
+    const y = point.y - this.viewport.height / 2 - this.shakeOffset.y;
+    const cos = Math.cos(-this.shakeAngle);
+    const sin = Math.sin(-this.shakeAngle);
+
+    return {
+      x: (x * cos - y * sin) / this.zoom + this.position.x,
+      y: (x * sin + y * cos) / this.zoom + this.position.y
+    };
+  }
+
+  /**
+   * Converts world coordinates to logical screen coordinates
+   * @param point - World point
+   */
+  public worldToScreen(point: Point2D): Point2D {
+    const x = (point.x - this.position.x) * this.zoom;
+    const y = (point.y - this.position.y) * this.zoom;
+    const cos = Math.cos(this.shakeAngle);
+    const sin = Math.sin(this.shakeAngle);
+
+    return {
+      x: x * cos - y * sin + this.viewport.width / 2 + this.shakeOffset.x,
+      y: x * sin + y * cos + this.viewport.height / 2 + this.shakeOffset.y
+    };
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private clampZoom(zoom: number): number {
+    if (!Number.isFinite(zoom) || zoom <= 0) {
+      throw new Error('Zoom must be a positive number');
+    }
+    return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+  }
+
+  private clampToBounds(): void {
+    if (!this.bounds) {
+      return;
+    }
+
+    const halfWidth = this.viewport.width / this.zoom / 2;
+    const halfHeight = this.viewport.height / this.zoom / 2;
+    const { x, y, width, height } = this.bounds;
+
+    // Center on an axis when the bounds are smaller than the view
+    this.position.x = width <= halfWidth * 2
+      ? x + width / 2
+      : Math.max(x + halfWidth, Math.min(x + width - halfWidth, this.position.x));
+    this.position.y = height <= halfHeight * 2
+      ? y + height / 2
+      : Math.max(y + halfHeight, Math.min(y + height - halfHeight, this.position.y));
+  }
+
+  /**
+   * Smooth noise in [-1, 1] for one shake channel
+   */
+  private noise(channel: number): number {
+    const phase = channel * 1.7;
+    const sum = SHAKE_FREQUENCIES.reduce(
+      (total, frequency) => total + Math.sin(this.time * frequency + phase * frequency),
+      0
+    );
+    return sum / SHAKE_FREQUENCIES.length;
+  }
+}
+
+export default Camera;
@@ -5,18 +5,88 @@
  * @module engine/Canvas
  */
 
+import { BitmapFont, TextAlign, TextBaseline } from './BitmapFont';
+import { toCssColor } from './Color';
+import { SpriteImage } from './ImageCache';
+import { Sprite } from './Sprite';
+import { identity, multiply, rotation, scaling, translation } from './Transform';
+import { Color, Point2D, Rect, Transform2D } from './types';
+
 // Types and interfaces
+
+/**
+ * How the logical resolution is scaled to fill its container:
+ * - `integer`: largest whole-number multiple that fits, for crisp pixel art
+ * - `fit`: largest uniform scale that fits, letterboxing the remainder
+ * - `fill`: smallest uniform scale that covers the container, cropping the overflow
+ */
+export type ScaleMode = 'integer' | 'fit' | 'fill';
+
 interface CanvasConfig {
+  /** Logical width in game coordinates */
   width: number;
+  /** Logical height in game coordinates */
   height: number;
   backgroundColor?: string;
   id?: string;
+  /** Scaling applied when attached to a container (defaults to fit) */
+  scaleMode?: ScaleMode;
+  /** Color of the bars around a letterboxed canvas */
+  letterboxColor?: string;
+  /** Fixed device pixel ratio; tracks window.devicePixelRatio if omitted */
+  pixelRatio?: number;
+}
+
+/**
+ * Area the canvas occupies inside its container, in CSS pixels
+ */
+export interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** CSS pixels per logical pixel */
+  scale: number;
+}
+
+export interface DrawOptions {
+  fillStyle?: string | Color;
+  strokeStyle?: string | Color;
+  lineWidth?: number;
+  lineCap?: CanvasLineCap;
+  lineJoin?: CanvasLineJoin;
+  /** Dash and gap lengths; solid if omitted */
+  lineDash?: number[];
+  /** Opacity multiplier (0-1) */
+  alpha?: number;
+}
+
+export interface ImageOptions {
+  /** Region of the image to draw; the whole image if omitted */
+  source?: Rect;
+  /** Opacity multiplier (0-1) */
+  alpha?: number;
+  /** Mirror horizontally about the destination center */
+  flipX?: boolean;
+  /** Mirror vertically about the destination center */
+  flipY?: boolean;
 }
 
-interface DrawOptions {
-  fillStyle?: string;
-  strokeStyle?: string;
+export interface TextOptions {
+  /** CSS font string or bitmap font (defaults to the context font) */
+  font?: string | BitmapFont;
+  fillStyle?: string | Color;
+  /** Outline color; ignored for bitmap fonts */
+  strokeStyle?: string | Color;
   lineWidth?: number;
+  align?: TextAlign;
+  baseline?: TextBaseline;
+  /** Extra space between bitmap glyphs */
+  letterSpacing?: number;
+  /** Bitmap font size multiplier */
+  scale?: number;
+  /** Opacity multiplier (0-1) */
+  alpha?: number;
 }
 
 /**
@@ -37,6 +107,16 @@ export class Canvas {
   private context: CanvasRenderingContext2D | null;
   private width: number;
   private height: number;
+  private resolutionScale: number;
+  private scaleMode: ScaleMode;
+  private letterboxColor?: string;
+  private fixedPixelRatio?: number;
+  private viewport: Viewport;
+  private container: HTMLElement | null;
+  private readonly handleResize: () => void;
+  private transform: Transform2D;
+  private transformStack: Transform2D[];
+  private resolutionPending: boolean;
   
   /**
    * Creates a new Canvas instance
@@ -46,6 +126,16 @@ export class Canvas {
   constructor(config: CanvasConfig) {
     this.width = config.width;
     this.height = config.height;
+    this.resolutionScale = 1;
+    this.scaleMode = config.scaleMode ?? 'fit';
+    this.letterboxColor = config.letterboxColor;
+    this.fixedPixelRatio = config.pixelRatio;
+    this.viewport = { x: 0, y: 0, width: this.width, height: this.height, scale: 1 };
+    this.container = null;
+    this.handleResize = () => this.fitToContainer();
+    this.transform = identity();
+    this.transformStack = [];
+    this.resolutionPending = false;
     
     try {
       this.canvas = document.createElement('canvas');
@@ -62,6 +152,8 @@ export class Canvas {
         throw new CanvasError('Failed to get 2D context');
       }
       
+      this.applyResolution();
+      
       // Set initial background color if provided
       if (config.backgroundColor) {
         this.clear(config.backgroundColor);
@@ -72,18 +164,22 @@ export class Canvas {
   }
   
   /**
-   * Clears the canvas with optional background color
+   * Clears the whole canvas with optional background color, regardless of
+   * the current transform
    * @param color - Background color to fill the canvas with
    */
   public clear(color?: string): void {
     if (!this.context) return;
     
+    this.context.save();
+    this.setBaseTransform();
     if (color) {
       this.context.fillStyle = color;
       this.context.fillRect(0, 0, this.width, this.height);
     } else {
       this.context.clearRect(0, 0, this.width, this.height);
     }
+    this.context.restore();
   }
   
   /**
@@ -103,20 +199,9 @@ export class Canvas {
   ): void {
     if (!this.context) return;
     
-    this.context.save();
-    
-    if (options.fillStyle) {
-      this.context.fillStyle = options.fillStyle;
-      this.context.fillRect(x, y, width, height);
-    }
-    
-    if (options.strokeStyle) {
-      this.context.strokeStyle = options.strokeStyle;
-      this.context.lineWidth = options.lineWidth || 1;
-      this.context.strokeRect(x, y, width, height);
-    }
-    
-    this.context.restore();
+    this.context.beginPath();
+    this.context.rect(x, y, width, height);
+    this.paint(options);
   }
   
   /**
@@ -134,24 +219,314 @@ export class Canvas {
   ): void {
     if (!this.context) return;
     
-    this.context.save();
     this.context.beginPath();
     this.context.arc(x, y, radius, 0, Math.PI * 2);
+    this.paint(options);
+  }
+  
+  /**
+   * Draws a line segment
+   * @param x1 - Start X coordinate
+   * @param y1 - Start Y coordinate
+   * @param x2 - End X coordinate
+   * @param y2 - End Y coordinate
+   * @param options - Drawing options; only the stroke applies
+   */
+  public drawLine(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options: DrawOptions = {}
+  ): void {
+    this.drawPolyline([{ x: x1, y: y1 }, { x: x2, y: y2 }], options);
+  }
+  
+  /**
+   * Draws connected line segments through a list of points
+   * @param points - Vertices in drawing order
+   * @param options - Drawing options; only the stroke applies
+   */
+  public drawPolyline(points: Point2D[], options: DrawOptions = {}): void {
+    if (!this.context || points.length < 2) return;
     
-    if (options.fillStyle) {
-      this.context.fillStyle = options.fillStyle;
-      this.context.fill();
-    }
+    this.tracePath(points, false);
+    this.paint({ ...options, fillStyle: undefined });
+  }
+  
+  /**
+   * Draws a closed polygon
+   * @param points - Vertices in drawing order
+   * @param options - Drawing options
+   */
+  public drawPolygon(points: Point2D[], options: DrawOptions = {}): void {
+    if (!this.context || points.length < 3) return;
     
-    if (options.strokeStyle) {
-      this.context.strokeStyle = options.strokeStyle;
-      this.context.lineWidth = options.lineWidth || 1;
-      this.context.stroke();
+    this.tracePath(points, true);
+    this.paint(options);
+  }
+  
+  /**
+   * Draws a rectangle with rounded corners
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param width - Rectangle width
+   * @param height - Rectangle height
+   * @param radius - Corner radius, or radii for [top-left, top-right, bottom-right, bottom-left]
+   * @param options - Drawing options
+   */
+  public drawRoundedRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number | [number, number, number, number],
+    options: DrawOptions = {}
+  ): void {
+    if (!this.context) return;
+    
+    // Radii larger than half a side would make the corners overlap
+    const limit = Math.min(Math.abs(width), Math.abs(height)) / 2;
+    const [topLeft, topRight, bottomRight, bottomLeft] = (
+      typeof radius === 'number' ? [radius, radius, radius, radius] : radius
+    ).map(r => Math.max(0, Math.min(r, limit)));
+    
+    const ctx = this.context;
+    ctx.beginPath();
+    ctx.moveTo(x + topLeft, y);
+    ctx.arcTo(x + width, y, x + width, y + height, topRight);
+    ctx.arcTo(x + width, y + height, x, y + height, bottomRight);
+    ctx.arcTo(x, y + height, x, y, bottomLeft);
+    ctx.arcTo(x, y, x + width, y, topLeft);
+    ctx.closePath();
+    this.paint(options);
+  }
+  
+  /**
+   * Draws an image or generated canvas
+   * @param image - Image to draw
+   * @param x - Destination X coordinate
+   * @param y - Destination Y coordinate
+   * @param width - Destination width (defaults to the source width)
+   * @param height - Destination height (defaults to the source height)
+   * @param options - Source region, opacity and mirroring
+   */
+  public drawImage(
+    image: SpriteImage,
+    x: number,
+    y: number,
+    width?: number,
+    height?: number,
+    options: ImageOptions = {}
+  ): void {
+    if (!this.context) return;
+    
+    const source = options.source ?? { x: 0, y: 0, width: image.width, height: image.height };
+    const destWidth = width ?? source.width;
+    const destHeight = height ?? source.height;
+    const ctx = this.context;
+    
+    ctx.save();
+    if (options.alpha !== undefined) {
+      ctx.globalAlpha *= options.alpha;
     }
+    if (options.flipX || options.flipY) {
+      ctx.translate(x + destWidth / 2, y + destHeight / 2);
+      ctx.scale(options.flipX ? -1 : 1, options.flipY ? -1 : 1);
+      ctx.translate(-(x + destWidth / 2), -(y + destHeight / 2));
+    }
+    ctx.drawImage(
+      image,
+      source.x, source.y, source.width, source.height,
+      x, y, destWidth, destHeight
+    );
+    ctx.restore();
+  }
+  
+  /**
+   * Draws the current frame of a sprite
+   * @param sprite - Sprite to draw
+   * @param x - X coordinate of the sprite's top-left corner
+   * @param y - Y coordinate of the sprite's top-left corner
+   * @param alpha - Opacity multiplier (0-1)
+   */
+  public drawSprite(sprite: Sprite, x: number, y: number, alpha: number = 1): void {
+    if (!this.context) return;
     
+    this.context.save();
+    this.context.globalAlpha *= alpha;
+    sprite.render(this.context, x, y);
     this.context.restore();
   }
   
+  /**
+   * Draws text with a CSS font or a bitmap font
+   * @param text - Text to draw
+   * @param x - X position the text is aligned to
+   * @param y - Y position the text is aligned to
+   * @param options - Font, colors and alignment
+   */
+  public drawText(text: string, x: number, y: number, options: TextOptions = {}): void {
+    if (!this.context) return;
+    
+    const ctx = this.context;
+    ctx.save();
+    if (options.alpha !== undefined) {
+      ctx.globalAlpha *= options.alpha;
+    }
+    
+    if (options.font instanceof BitmapFont) {
+      options.font.draw(ctx, text, x, y, {
+        align: options.align,
+        baseline: options.baseline,
+        letterSpacing: options.letterSpacing,
+        scale: options.scale,
+        color: options.fillStyle !== undefined ? toCssColor(options.fillStyle) : undefined
+      });
+    } else {
+      if (options.font) {
+        ctx.font = options.font;
+      }
+      ctx.textAlign = options.align ?? 'left';
+      ctx.textBaseline = options.baseline ?? 'top';
+      // Fill with the context's current style unless only an outline was asked for
+      if (options.fillStyle || !options.strokeStyle) {
+        if (options.fillStyle) {
+          ctx.fillStyle = toCssColor(options.fillStyle);
+        }
+        ctx.fillText(text, x, y);
+      }
+      if (options.strokeStyle) {
+        ctx.strokeStyle = toCssColor(options.strokeStyle);
+        ctx.lineWidth = options.lineWidth || 1;
+        ctx.strokeText(text, x, y);
+      }
+    }
+    
+    ctx.restore();
+  }
+  
+  /**
+   * Restricts drawing to a rectangle until the enclosing `pop`
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param width - Clip width
+   * @param height - Clip height
+   */
+  public clipRect(x: number, y: number, width: number, height: number): void {
+    if (!this.context) return;
+    
+    this.context.beginPath();
+    this.context.rect(x, y, width, height);
+    this.context.clip();
+  }
+  
+  /**
+   * Restricts drawing to a polygon until the enclosing `pop`
+   * @param points - Polygon vertices
+   */
+  public clipPolygon(points: Point2D[]): void {
+    if (!this.context || points.length < 3) return;
+    
+    this.tracePath(points, true);
+    this.context.clip();
+  }
+  
+  /**
+   * Saves the drawing state and optionally applies a transform on top of the current one
+   * @param transform - Transform to apply after saving
+   */
+  public push(transform?: Transform2D): void {
+    this.transformStack.push(this.transform);
+    this.context?.save();
+    
+    if (transform) {
+      this.applyTransform(transform);
+    }
+  }
+  
+  /**
+   * Restores the drawing state saved by the matching `push`, then applies any
+   * resize deferred while states were saved
+   * @throws {CanvasError} If there is no matching `push`
+   */
+  public pop(): void {
+    const previous = this.transformStack.pop();
+    if (!previous) {
+      throw new CanvasError('Cannot pop: transform stack is empty');
+    }
+    
+    this.transform = previous;
+    this.context?.restore();
+    
+    if (this.resolutionPending && this.transformStack.length === 0) {
+      this.applyResolution();
+    }
+  }
+  
+  /**
+   * Runs drawing code inside a `push`/`pop` pair, popping even if it throws
+   * @param transform - Transform to apply, or undefined to only save state
+   * @param draw - Drawing code
+   */
+  public withTransform(transform: Transform2D | undefined, draw: () => void): void {
+    this.push(transform);
+    try {
+      draw();
+    } finally {
+      this.pop();
+    }
+  }
+  
+  /**
+   * Multiplies a transform onto the current one
+   * @param transform - Transform to apply
+   */
+  public applyTransform(transform: Transform2D): void {
+    this.transform = multiply(this.transform, transform);
+    this.context?.transform(...transform);
+  }
+  
+  /**
+   * Moves the origin
+   * @param x - Horizontal offset
+   * @param y - Vertical offset
+   */
+  public translate(x: number, y: number): void {
+    this.applyTransform(translation(x, y));
+  }
+  
+  /**
+   * Rotates about the origin
+   * @param angle - Angle in radians
+   */
+  public rotate(angle: number): void {
+    this.applyTransform(rotation(angle));
+  }
+  
+  /**
+   * Scales about the origin
+   * @param x - Horizontal factor
+   * @param y - Vertical factor (defaults to x)
+   */
+  public scale(x: number, y: number = x): void {
+    this.applyTransform(scaling(x, y));
+  }
+  
+  /**
+   * Gets the current transform in logical coordinates, excluding display scaling
+   */
+  public getTransform(): Transform2D {
+    return [...this.transform] as Transform2D;
+  }
+  
+  /**
+   * Gets the number of unmatched `push` calls
+   */
+  public getStackDepth(): number {
+    return this.transformStack.length;
+  }
+  
   /**
    * Returns the canvas element
    * @returns HTMLCanvasElement
@@ -169,15 +544,248 @@ export class Canvas {
   }
   
   /**
-   * Resizes the canvas
-   * @param width - New width
-   * @param height - New height
+   * Changes the logical resolution; the backing store follows once every `push` is popped
+   * @param width - New logical width
+   * @param height - New logical height
    */
   public resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
-    this.canvas.width = width;
-    this.canvas.height = height;
+    this.fitToContainer();
+  }
+  
+  /**
+   * Places the canvas in a container and keeps it scaled to the container's size
+   * @param container - Element to fill; it should have a definite size
+   */
+  public attachTo(container: HTMLElement): void {
+    this.detach();
+    
+    this.container = container;
+    if (getComputedStyle(container).position === 'static') {
+      container.style.position = 'relative';
+    }
+    container.style.overflow = 'hidden';
+    if (this.letterboxColor) {
+      container.style.backgroundColor = this.letterboxColor;
+    }
+    
+    this.canvas.style.position = 'absolute';
+    container.appendChild(this.canvas);
+    window.addEventListener('resize', this.handleResize);
+    this.fitToContainer();
+  }
+  
+  /**
+   * Removes the canvas from its container and stops tracking resizes
+   */
+  public detach(): void {
+    if (!this.container) return;
+    
+    window.removeEventListener('resize', this.handleResize);
+    this.canvas.remove();
+    this.container = null;
+    this.viewport = { x: 0, y: 0, width: this.width, height: this.height, scale: 1 };
+    this.applyResolution();
+  }
+  
+  /**
+   * Sets how the logical resolution is scaled to its container
+   * @param mode - Scaling mode
+   */
+  public setScaleMode(mode: ScaleMode): void {
+    this.scaleMode = mode;
+    this.fitToContainer();
+  }
+  
+  /**
+   * Returns the current scaling mode
+   * @returns Scaling mode
+   */
+  public getScaleMode(): ScaleMode {
+    return this.scaleMode;
+  }
+  
+  /**
+   * Returns where the canvas is displayed inside its container
+   * @returns Viewport in CSS pixels
+   */
+  public getViewport(): Viewport {
+    return { ...this.viewport };
+  }
+  
+  /**
+   * Converts viewport coordinates (e.g. from a mouse or touch event) to logical game coordinates
+   * @param clientX - X coordinate relative to the browser viewport
+   * @param clientY - Y coordinate relative to the browser viewport
+   * @returns Position in logical coordinates; may lie outside the canvas
+   */
+  public toLogical(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return { x: clientX, y: clientY };
+    }
+    
+    return {
+      x: (clientX - rect.left) * (this.width / rect.width),
+      y: (clientY - rect.top) * (this.height / rect.height)
+    };
+  }
+  
+  /**
+   * Sets the backing store resolution relative to the displayed size.
+   * Drawing coordinates are unaffected; lower scales trade sharpness for fill rate.
+   * @param scale - Resolution multiplier between 0.25 and 1
+   */
+  public setResolutionScale(scale: number): void {
+    if (!Number.isFinite(scale) || scale <= 0) {
+      throw new CanvasError('Resolution scale must be a positive number');
+    }
+    this.resolutionScale = Math.max(0.25, Math.min(1, scale));
+    this.applyResolution();
+  }
+  
+  /**
+   * Returns the current resolution scale
+   * @returns Resolution multiplier
+   */
+  public getResolutionScale(): number {
+    return this.resolutionScale;
+  }
+  
+  /**
+   * Recomputes the viewport from the container size and scaling mode
+   */
+  private fitToContainer(): void {
+    if (this.container) {
+      const availableWidth = this.container.clientWidth;
+      const availableHeight = this.container.clientHeight;
+      const scaleX = availableWidth / this.width;
+      const scaleY = availableHeight / this.height;
+      
+      let scale: number;
+      switch (this.scaleMode) {
+        case 'integer':
+          scale = Math.max(1, Math.floor(Math.min(scaleX, scaleY)));
+          break;
+        case 'fill':
+          scale = Math.max(scaleX, scaleY);
+          break;
+        case 'fit':
+        default:
+          scale = Math.min(scaleX, scaleY);
+          break;
+      }
+      
+      if (!Number.isFinite(scale) || scale <= 0) {
+        scale = 1;
+      }
+      
+      const width = this.width * scale;
+      const height = this.height * scale;
+      this.viewport = {
+        x: Math.round((availableWidth - width) / 2),
+        y: Math.round((availableHeight - height) / 2),
+        width,
+        height,
+        scale
+      };
+    } else {
+      this.viewport = { x: 0, y: 0, width: this.width, height: this.height, scale: 1 };
+    }
+    
+    this.applyResolution();
+  }
+  
+  /**
+   * Sizes the backing store for the displayed size and device pixel ratio,
+   * keeping drawing coordinates in the logical resolution
+   */
+  private applyResolution(): void {
+    // Resizing the backing store resets the context, dropping states saved by push;
+    // wait for the last pop instead
+    if (this.transformStack.length > 0) {
+      this.resolutionPending = true;
+      return;
+    }
+    this.resolutionPending = false;
+    
+    const pixelRatio = this.fixedPixelRatio ?? (window.devicePixelRatio || 1);
+    const pixelScale = this.viewport.scale * pixelRatio * this.resolutionScale;
+    
+    this.canvas.width = Math.max(1, Math.round(this.width * pixelScale));
+    this.canvas.height = Math.max(1, Math.round(this.height * pixelScale));
+    this.canvas.style.width = `${this.viewport.width}px`;
+    this.canvas.style.height = `${this.viewport.height}px`;
+    this.canvas.style.left = `${this.viewport.x}px`;
+    this.canvas.style.top = `${this.viewport.y}px`;
+    this.canvas.style.imageRendering = this.scaleMode === 'integer' ? 'pixelated' : 'auto';
+    
+    if (this.context) {
+      this.setBaseTransform();
+      this.context.imageSmoothingEnabled = this.scaleMode !== 'integer';
+      // Resizing resets the context transform; reapply the one set outside push
+      this.context.transform(...this.transform);
+    }
+  }
+  
+  /**
+   * Replaces the context transform with the one mapping logical coordinates
+   * onto the backing store
+   */
+  private setBaseTransform(): void {
+    // Scale from the actual backing size so rounding never leaves a seam
+    this.context?.setTransform(
+      this.canvas.width / this.width, 0,
+      0, this.canvas.height / this.height,
+      0, 0
+    );
+  }
+  
+  /**
+   * Adds the points to a new path
+   */
+  private tracePath(points: Point2D[], close: boolean): void {
+    if (!this.context) return;
+    
+    this.context.beginPath();
+    this.context.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      this.context.lineTo(points[i].x, points[i].y);
+    }
+    if (close) {
+      this.context.closePath();
+    }
+  }
+  
+  /**
+   * Fills and strokes the current path with the given options
+   */
+  private paint(options: DrawOptions): void {
+    if (!this.context) return;
+    
+    const ctx = this.context;
+    ctx.save();
+    
+    if (options.alpha !== undefined) {
+      ctx.globalAlpha *= options.alpha;
+    }
+    
+    if (options.fillStyle) {
+      ctx.fillStyle = toCssColor(options.fillStyle);
+      ctx.fill();
+    }
+    
+    if (options.strokeStyle) {
+      ctx.strokeStyle = toCssColor(options.strokeStyle);
+      ctx.lineWidth = options.lineWidth || 1;
+      ctx.lineCap = options.lineCap ?? 'butt';
+      ctx.lineJoin = options.lineJoin ?? 'miter';
+      ctx.setLineDash(options.lineDash ?? []);
+      ctx.stroke();
+    }
+    
+    ctx.restore();
   }
   
   /**
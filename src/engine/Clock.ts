@@ -0,0 +1,156 @@
+/**
+ * @file Clock.ts
+ * @description Time and frame source abstractions used by the game loop.
+ * The browser implementations wrap `performance.now()` and `requestAnimationFrame`;
+ * the manual implementations let tests and tools drive the loop without a browser.
+ * @module engine/Clock
+ */
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Provides the current time in milliseconds
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Callback invoked by a frame source with the frame timestamp in milliseconds
+ */
+export type FrameCallback = (timestamp: number) => void;
+
+/**
+ * Schedules frame callbacks, in the manner of `requestAnimationFrame`
+ */
+export interface FrameSource {
+  /** Schedules a callback for the next frame and returns a cancellation handle */
+  request(callback: FrameCallback): number;
+  /** Cancels a previously scheduled callback */
+  cancel(handle: number): void;
+}
+
+// =========================================================
+// Browser Implementations
+// =========================================================
+
+/**
+ * Clock backed by the high resolution performance timer
+ */
+export const performanceClock: Clock = {
+  now: () => performance.now()
+};
+
+/**
+ * Frame source backed by the browser's animation frame scheduler
+ */
+export const animationFrameSource: FrameSource = {
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (handle) => cancelAnimationFrame(handle)
+};
+
+// =========================================================
+// Manual Implementations
+// =========================================================
+
+/**
+ * Clock whose time only moves when told to
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  /**
+   * Creates a new ManualClock
+   * @param startTime - Initial time in milliseconds
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  /**
+   * Gets the current time
+   * @returns Current time in milliseconds
+   */
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * Moves the clock forward
+   * @param ms - Milliseconds to advance
+   * @throws Error if ms is negative
+   */
+  public advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error('Cannot advance a clock backwards');
+    }
+    this.time += ms;
+  }
+}
+
+/**
+ * Frame source that queues callbacks until frames are explicitly run.
+ * When paired with a ManualClock, each frame advances the clock first.
+ */
+export class ManualFrameSource implements FrameSource {
+  private pending: Map<number, FrameCallback>;
+  private nextHandle: number;
+  private clock: ManualClock;
+
+  /**
+   * Creates a new ManualFrameSource
+   * @param clock - Clock advanced before each frame and used for timestamps
+   */
+  constructor(clock: ManualClock = new ManualClock()) {
+    this.pending = new Map();
+    this.nextHandle = 1;
+    this.clock = clock;
+  }
+
+  public request(callback: FrameCallback): number {
+    const handle = this.nextHandle++;
+    this.pending.set(handle, callback);
+    return handle;
+  }
+
+  public cancel(handle: number): void {
+    this.pending.delete(handle);
+  }
+
+  /**
+   * Runs the callbacks queued for the next frame
+   * @param frameTime - Milliseconds to advance the clock before the frame
+   * @returns Number of callbacks invoked
+   */
+  public runFrame(frameTime: number = 1000 / 60): number {
+    this.clock.advance(frameTime);
+
+    // Callbacks scheduled while running belong to the following frame
+    const callbacks = Array.from(this.pending.values());
+    this.pending.clear();
+
+    const timestamp = this.clock.now();
+    callbacks.forEach(callback => callback(timestamp));
+    return callbacks.length;
+  }
+
+  /**
+   * Runs several frames of equal length
+   * @param count - Number of frames to run
+   * @param frameTime - Milliseconds per frame
+   */
+  public runFrames(count: number, frameTime: number = 1000 / 60): void {
+    for (let i = 0; i < count; i++) {
+      this.runFrame(frameTime);
+    }
+  }
+
+  /**
+   * Gets the number of callbacks waiting for the next frame
+   */
+  public get pendingCount(): number {
+    return this.pending.size;
+  }
+}
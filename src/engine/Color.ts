@@ -0,0 +1,328 @@
+/**
+ * @file Color.ts
+ * @description Conversions between the engine's `Color` type and CSS color
+ * strings (hex, rgb(a), hsl(a)), plus color interpolation.
+ * Channels r, g and b range over 0-255 and alpha over 0-1.
+ * @module engine/Color
+ */
+
+import { Color, isColor } from './types';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Color in HSL space: hue in degrees (0-360), saturation and lightness 0-1
+ */
+export interface HslColor {
+  h: number;
+  s: number;
+  l: number;
+  a: number;
+}
+
+export type ColorInput = Color | string;
+
+// =========================================================
+// Constants
+// =========================================================
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_PATTERN = /^(rgba?|hsla?)\(([^)]*)\)$/i;
+
+export const TRANSPARENT: Color = { r: 0, g: 0, b: 0, a: 0 };
+
+// =========================================================
+// Parsing
+// =========================================================
+
+/**
+ * Parses a CSS color string
+ * @param input - Hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb(a), hsl(a) or `transparent`
+ * @returns Parsed color
+ * @throws Error if the string is not a supported color
+ */
+export function parseColor(input: string): Color {
+  const value = input.trim();
+
+  if (value.toLowerCase() === 'transparent') {
+    return { ...TRANSPARENT };
+  }
+
+  const hex = HEX_PATTERN.exec(value);
+  if (hex) {
+    return parseHex(hex[1]);
+  }
+
+  const fn = FUNCTION_PATTERN.exec(value);
+  if (fn) {
+    const name = fn[1].toLowerCase();
+    // Accept both comma and space separated arguments, with an optional "/ alpha"
+    const args = fn[2].split(/[\s,/]+/).filter(Boolean);
+    if (args.length === 3 || args.length === 4) {
+      const alpha = args.length === 4 ? parseAlpha(args[3]) : 1;
+      const color = name.startsWith('rgb')
+        ? {
+          r: parseChannel(args[0]),
+          g: parseChannel(args[1]),
+          b: parseChannel(args[2]),
+          a: alpha
+        }
+        : hslToRgb({
+          h: parseFloat(args[0]),
+          s: parsePercent(args[1]),
+          l: parsePercent(args[2]),
+          a: alpha
+        });
+
+      if ([color.r, color.g, color.b, color.a].every(Number.isFinite)) {
+        return color;
+      }
+    }
+  }
+
+  throw new Error(`Unsupported color: '${input}'`);
+}
+
+/**
+ * Converts a color or CSS string to a Color
+ * @param input - Color or CSS color string
+ */
+export function toColor(input: ColorInput): Color {
+  if (typeof input === 'string') {
+    return parseColor(input);
+  }
+  if (!isColor(input)) {
+    throw new Error('Invalid color object');
+  }
+  return { ...input };
+}
+
+// =========================================================
+// Formatting
+// =========================================================
+
+/**
+ * Formats a color as hex
+ * @param color - Color to format
+ * @param includeAlpha - Append the alpha byte (#rrggbbaa)
+ */
+export function toHex(color: Color, includeAlpha: boolean = false): string {
+  const channels = [color.r, color.g, color.b];
+  if (includeAlpha) {
+    channels.push(color.a * 255);
+  }
+  return '#' + channels.map(channel => clampByte(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Formats a color as `rgb()`, or `rgba()` when it is not opaque
+ * @param color - Color to format
+ */
+export function toRgbString(color: Color): string {
+  const r = clampByte(color.r);
+  const g = clampByte(color.g);
+  const b = clampByte(color.b);
+  const a = clamp01(color.a);
+  return a < 1 ? `rgba(${r}, ${g}, ${b}, ${round(a, 3)})` : `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Formats a color as `hsl()`, or `hsla()` when it is not opaque
+ * @param color - Color to format
+ */
+export function toHslString(color: Color): string {
+  const { h, s, l, a } = rgbToHsl(color);
+  const body = `${round(h, 1)}, ${round(s * 100, 1)}%, ${round(l * 100, 1)}%`;
+  return a < 1 ? `hsla(${body}, ${round(a, 3)})` : `hsl(${body})`;
+}
+
+/**
+ * Gets a string usable as a canvas fill or stroke style
+ * @param input - Color or CSS color string (strings are passed through)
+ */
+export function toCssColor(input: ColorInput): string {
+  return typeof input === 'string' ? input : toRgbString(input);
+}
+
+// =========================================================
+// Color Spaces
+// =========================================================
+
+/**
+ * Converts an RGB color to HSL
+ * @param color - RGB color
+ */
+export function rgbToHsl(color: Color): HslColor {
+  const r = clampByte(color.r) / 255;
+  const g = clampByte(color.g) / 255;
+  const b = clampByte(color.b) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { h: 0, s: 0, l, a: color.a };
+  }
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) {
+    h = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    h = (b - r) / delta + 2;
+  } else {
+    h = (r - g) / delta + 4;
+  }
+
+  return { h: wrapHue(h * 60), s, l, a: color.a };
+}
+
+/**
+ * Converts an HSL color to RGB
+ * @param hsl - HSL color
+ */
+export function hslToRgb(hsl: HslColor): Color {
+  const h = wrapHue(hsl.h);
+  const s = clamp01(hsl.s);
+  const l = clamp01(hsl.l);
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs((h / 60) % 2 - 1));
+  const m = l - chroma / 2;
+
+  const [r, g, b] =
+    h < 60 ? [chroma, x, 0] :
+    h < 120 ? [x, chroma, 0] :
+    h < 180 ? [0, chroma, x] :
+    h < 240 ? [0, x, chroma] :
+    h < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+
+  return {
+    r: Math.round((r + m) * 255),
+    g: Math.round((g + m) * 255),
+    b: Math.round((b + m) * 255),
+    a: hsl.a
+  };
+}
+
+/**
+ * Creates a color from HSL components
+ * @param h - Hue in degrees
+ * @param s - Saturation (0-1)
+ * @param l - Lightness (0-1)
+ * @param a - Alpha (0-1)
+ */
+export function fromHsl(h: number, s: number, l: number, a: number = 1): Color {
+  return hslToRgb({ h, s, l, a });
+}
+
+// =========================================================
+// Interpolation
+// =========================================================
+
+/**
+ * Interpolates between two colors channel by channel in RGB space
+ * @param from - Color at t = 0
+ * @param to - Color at t = 1
+ * @param t - Interpolation factor, clamped to 0-1
+ */
+export function lerpColor(from: ColorInput, to: ColorInput, t: number): Color {
+  const a = toColor(from);
+  const b = toColor(to);
+  const k = clamp01(t);
+
+  return {
+    r: Math.round(a.r + (b.r - a.r) * k),
+    g: Math.round(a.g + (b.g - a.g) * k),
+    b: Math.round(a.b + (b.b - a.b) * k),
+    a: a.a + (b.a - a.a) * k
+  };
+}
+
+/**
+ * Interpolates between two colors in HSL space along the shorter hue arc,
+ * which keeps saturation up where RGB blending would pass through grey
+ * @param from - Color at t = 0
+ * @param to - Color at t = 1
+ * @param t - Interpolation factor, clamped to 0-1
+ */
+export function lerpColorHsl(from: ColorInput, to: ColorInput, t: number): Color {
+  const a = rgbToHsl(toColor(from));
+  const b = rgbToHsl(toColor(to));
+  const k = clamp01(t);
+
+  let hueDelta = b.h - a.h;
+  if (hueDelta > 180) {
+    hueDelta -= 360;
+  } else if (hueDelta < -180) {
+    hueDelta += 360;
+  }
+
+  return hslToRgb({
+    h: a.h + hueDelta * k,
+    s: a.s + (b.s - a.s) * k,
+    l: a.l + (b.l - a.l) * k,
+    a: a.a + (b.a - a.a) * k
+  });
+}
+
+/**
+ * Returns a copy of a color with a different alpha
+ * @param input - Color or CSS color string
+ * @param alpha - New alpha (0-1)
+ */
+export function withAlpha(input: ColorInput, alpha: number): Color {
+  return { ...toColor(input), a: clamp01(alpha) };
+}
+
+// =========================================================
+// Private Helpers
+// =========================================================
+
+function parseHex(digits: string): Color {
+  const expanded = digits.length <= 4
+    ? digits.split('').map(digit => digit + digit).join('')
+    : digits;
+  const byte = (index: number) => parseInt(expanded.slice(index * 2, index * 2 + 2), 16);
+
+  return {
+    r: byte(0),
+    g: byte(1),
+    b: byte(2),
+    a: expanded.length === 8 ? byte(3) / 255 : 1
+  };
+}
+
+function parseChannel(value: string): number {
+  return value.endsWith('%')
+    ? clampByte((parseFloat(value) * 255) / 100)
+    : clampByte(parseFloat(value));
+}
+
+function parsePercent(value: string): number {
+  return clamp01(parseFloat(value) / 100);
+}
+
+function parseAlpha(value: string): number {
+  return clamp01(value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value));
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function wrapHue(hue: number): number {
+  return ((hue % 360) + 360) % 360;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
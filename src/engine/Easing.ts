@@ -0,0 +1,63 @@
+/**
+ * @file Easing.ts
+ * @description Easing curves for tweens and UI animations.
+ * Every curve maps progress in the range 0-1 to eased progress, with f(0) = 0 and f(1) = 1.
+ * @module engine/Easing
+ */
+
+/**
+ * Maps linear progress (0-1) to eased progress
+ */
+export type EasingFunction = (progress: number) => number;
+
+/**
+ * Standard easing curves
+ */
+export const Easing = {
+  linear: (t: number): number => t,
+
+  easeInQuad: (t: number): number => t * t,
+
+  easeOutQuad: (t: number): number => 1 - (1 - t) * (1 - t),
+
+  easeInOutQuad: (t: number): number => t < 0.5
+    ? 2 * t * t
+    : 1 - Math.pow(-2 * t + 2, 2) / 2,
+
+  easeInCubic: (t: number): number => t * t * t,
+
+  easeOutCubic: (t: number): number => 1 - Math.pow(1 - t, 3),
+
+  easeInOutCubic: (t: number): number => t < 0.5
+    ? 4 * t * t * t
+    : 1 - Math.pow(-2 * t + 2, 3) / 2,
+
+  easeOutBack: (t: number): number => {
+    const overshoot = 1.70158;
+    const c3 = overshoot + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + overshoot * Math.pow(t - 1, 2);
+  },
+
+  easeOutBounce: (t: number): number => {
+    const n1 = 7.5625;
+    const d1 = 2.75;
+
+    if (t < 1 / d1) {
+      return n1 * t * t;
+    }
+    if (t < 2 / d1) {
+      const u = t - 1.5 / d1;
+      return n1 * u * u + 0.75;
+    }
+    if (t < 2.5 / d1) {
+      const u = t - 2.25 / d1;
+      return n1 * u * u + 0.9375;
+    }
+    const u = t - 2.625 / d1;
+    return n1 * u * u + 0.984375;
+  }
+} as const;
+
+export type EasingName = keyof typeof Easing;
+
+export default Easing;
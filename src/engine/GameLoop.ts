@@ -1,25 +1,55 @@
 /**
  * @file GameLoop.ts
- * @description Implements a fixed timestep game loop with frame interpolation.
- * This game loop ensures consistent update timing while allowing for smooth rendering.
- * 
+ * @description Implements the game's single loop scheduler: a fixed timestep game loop
+ * with frame interpolation and ordered, prioritized subscribers for each loop phase.
+ *
  * Features:
  * - Fixed timestep updates for consistent game logic
+ * - Variable timestep updates for input and non-physics work
  * - Frame interpolation for smooth rendering
+ * - Prioritized subscribers that can be added and removed at runtime
  * - FPS monitoring and statistics
  * - Configurable update rate
  * - Panic mode for handling slow performance
+ * - Injectable clock and frame source with manual stepping for headless runs
+ * - Global and per-layer time scaling with loop-driven timers
  */
 
+import { Clock, FrameSource, performanceClock, animationFrameSource } from './Clock';
+import { TimerManager } from './TimerManager';
+
 // Constants for game loop configuration
 const DEFAULT_FPS = 60;
-const DEFAULT_FRAME_TIME = 1000 / DEFAULT_FPS;
 const MAX_UPDATES_PER_FRAME = 10;
+const DEFAULT_MAX_DELTA_TIME = 250;
+const DEFAULT_PRIORITY = 0;
+const DEFAULT_TIME_LAYER = 'default';
+const TIMER_PRIORITY = -1000;
+
+/**
+ * Phases of a single loop frame, in the order they are dispatched
+ * - update: once per frame with the variable frame delta
+ * - fixedUpdate: zero or more times per frame with the fixed timestep
+ * - render: once per frame with the interpolation alpha (0-1)
+ */
+export type LoopPhase = 'update' | 'fixedUpdate' | 'render';
+
+/**
+ * Callback invoked by the loop for a phase
+ * Receives delta time in milliseconds for update phases and the
+ * interpolation alpha for the render phase
+ */
+export type LoopCallback = (value: number) => void;
+
+/**
+ * Removes a previously registered subscriber
+ */
+export type Unsubscribe = () => void;
 
 /**
  * Statistics interface for monitoring game loop performance
  */
-interface GameLoopStats {
+export interface GameLoopStats {
     fps: number;
     frameTime: number;
     updates: number;
@@ -28,10 +58,12 @@ interface GameLoopStats {
 
 /**
  * Callback functions interface for game loop events
+ * `update` is registered as a fixed update subscriber and `render`
+ * as a render subscriber, both at the default priority
  */
-interface GameLoopCallbacks {
-    update: (deltaTime: number) => void;
-    render: (interpolation: number) => void;
+export interface GameLoopCallbacks {
+    update?: (deltaTime: number) => void;
+    render?: (interpolation: number) => void;
     onPanic?: () => void;
     onStats?: (stats: GameLoopStats) => void;
 }
@@ -39,10 +71,38 @@ interface GameLoopCallbacks {
 /**
  * Configuration options for the game loop
  */
-interface GameLoopOptions {
+export interface GameLoopOptions {
     fps?: number;
     enableStats?: boolean;
     statsSampleSize?: number;
+    /** Largest frame delta accepted before clamping, in milliseconds */
+    maxDeltaTime?: number;
+    /** Whether a throwing subscriber stops the loop (default true) */
+    haltOnError?: boolean;
+    /** Time source (defaults to performance.now) */
+    clock?: Clock;
+    /** Frame scheduler (defaults to requestAnimationFrame) */
+    frameSource?: FrameSource;
+}
+
+/**
+ * Options for registering a subscriber
+ */
+export interface SubscribeOptions {
+    /** Lower priorities run first; equal priorities run in registration order */
+    priority?: number;
+    /** Time layer whose scale is applied to the delta time this subscriber receives */
+    timeLayer?: string;
+}
+
+/**
+ * Internal record of a registered subscriber
+ */
+interface Subscriber {
+    callback: LoopCallback;
+    priority: number;
+    order: number;
+    timeLayer: string;
 }
 
 /**
@@ -51,7 +111,10 @@ interface GameLoopOptions {
 export class GameLoop {
     private fps: number;
     private frameTime: number;
+    private maxDeltaTime: number;
+    private haltOnError: boolean;
     private running: boolean;
+    private paused: boolean;
     private rafId: number;
     private lastTime: number;
     private accumulator: number;
@@ -59,23 +122,39 @@ export class GameLoop {
     private statsSampleSize: number;
     private frameTimeHistory: number[];
     private stats: GameLoopStats;
-    private callbacks: GameLoopCallbacks;
+    private statsListeners: Array<(stats: GameLoopStats) => void>;
+    private panicListeners: Array<() => void>;
+    private subscribers: Record<LoopPhase, Subscriber[]>;
+    private subscriberCount: number;
+    private clock: Clock;
+    private frameSource: FrameSource;
+    private timeScale: number;
+    private layerTimeScales: Map<string, number>;
+    private layerTimers: Map<string, TimerManager>;
 
     /**
      * Creates a new GameLoop instance
-     * @param callbacks - Object containing update and render callback functions
+     * @param callbacks - Object containing optional update, render and event callbacks
      * @param options - Configuration options for the game loop
      */
-    constructor(callbacks: GameLoopCallbacks, options: GameLoopOptions = {}) {
+    constructor(callbacks: GameLoopCallbacks = {}, options: GameLoopOptions = {}) {
         this.validateCallbacks(callbacks);
-        
+
         this.fps = options.fps || DEFAULT_FPS;
         this.frameTime = 1000 / this.fps;
+        this.maxDeltaTime = options.maxDeltaTime || DEFAULT_MAX_DELTA_TIME;
+        this.haltOnError = options.haltOnError ?? true;
+        this.clock = options.clock || performanceClock;
+        this.frameSource = options.frameSource || animationFrameSource;
+        this.timeScale = 1;
+        this.layerTimeScales = new Map();
+        this.layerTimers = new Map();
         this.running = false;
+        this.paused = false;
         this.rafId = 0;
         this.lastTime = 0;
         this.accumulator = 0;
-        
+
         this.statsEnabled = options.enableStats || false;
         this.statsSampleSize = options.statsSampleSize || 60;
         this.frameTimeHistory = [];
@@ -85,8 +164,22 @@ export class GameLoop {
             updates: 0,
             renders: 0
         };
-        
-        this.callbacks = callbacks;
+
+        this.statsListeners = callbacks.onStats ? [callbacks.onStats] : [];
+        this.panicListeners = callbacks.onPanic ? [callbacks.onPanic] : [];
+        this.subscribers = {
+            update: [],
+            fixedUpdate: [],
+            render: []
+        };
+        this.subscriberCount = 0;
+
+        if (callbacks.update) {
+            this.subscribe('fixedUpdate', callbacks.update);
+        }
+        if (callbacks.render) {
+            this.subscribe('render', callbacks.render);
+        }
     }
 
     /**
@@ -98,8 +191,10 @@ export class GameLoop {
         }
 
         this.running = true;
-        this.lastTime = performance.now();
-        this.rafId = requestAnimationFrame((timestamp) => this.loop(timestamp));
+        this.paused = false;
+        this.accumulator = 0;
+        this.lastTime = this.clock.now();
+        this.rafId = this.frameSource.request((timestamp) => this.loop(timestamp));
     }
 
     /**
@@ -111,7 +206,233 @@ export class GameLoop {
         }
 
         this.running = false;
-        cancelAnimationFrame(this.rafId);
+        this.frameSource.cancel(this.rafId);
+    }
+
+    /**
+     * Pauses simulation; render subscribers keep running with a frozen interpolation
+     */
+    public pause(): void {
+        this.paused = true;
+    }
+
+    /**
+     * Resumes simulation without catching up on the time spent paused
+     */
+    public resume(): void {
+        if (!this.paused) {
+            return;
+        }
+
+        this.paused = false;
+        this.lastTime = this.clock.now();
+    }
+
+    /**
+     * Registers a subscriber for a loop phase
+     * @param phase - Phase to subscribe to
+     * @param callback - Function called each time the phase runs
+     * @param options - Subscriber options such as priority
+     * @returns Function that removes the subscriber
+     */
+    public subscribe(
+        phase: LoopPhase,
+        callback: LoopCallback,
+        options: SubscribeOptions = {}
+    ): Unsubscribe {
+        if (!(phase in this.subscribers)) {
+            throw new Error(`Unknown loop phase: ${phase}`);
+        }
+        if (typeof callback !== 'function') {
+            throw new Error('Subscriber callback must be a function');
+        }
+
+        const subscriber: Subscriber = {
+            callback,
+            priority: options.priority ?? DEFAULT_PRIORITY,
+            order: this.subscriberCount++,
+            timeLayer: options.timeLayer ?? DEFAULT_TIME_LAYER
+        };
+
+        // Copy on write so a dispatch in progress is never affected
+        this.subscribers[phase] = [...this.subscribers[phase], subscriber]
+            .sort((a, b) => a.priority - b.priority || a.order - b.order);
+
+        return () => {
+            this.subscribers[phase] = this.subscribers[phase]
+                .filter(existing => existing !== subscriber);
+        };
+    }
+
+    /**
+     * Registers a variable time step subscriber
+     * @param callback - Function called every frame with delta time
+     * @param options - Subscriber options
+     * @returns Function that removes the subscriber
+     */
+    public onUpdate(callback: (deltaTime: number) => void, options?: SubscribeOptions): Unsubscribe {
+        return this.subscribe('update', callback, options);
+    }
+
+    /**
+     * Registers a fixed time step subscriber
+     * @param callback - Function called at fixed intervals with the fixed delta time
+     * @param options - Subscriber options
+     * @returns Function that removes the subscriber
+     */
+    public onFixedUpdate(callback: (fixedDeltaTime: number) => void, options?: SubscribeOptions): Unsubscribe {
+        return this.subscribe('fixedUpdate', callback, options);
+    }
+
+    /**
+     * Registers a render subscriber
+     * @param callback - Function called every frame with the interpolation alpha
+     * @param options - Subscriber options
+     * @returns Function that removes the subscriber
+     */
+    public onRender(callback: (alpha: number) => void, options?: SubscribeOptions): Unsubscribe {
+        return this.subscribe('render', callback, options);
+    }
+
+    /**
+     * Registers a listener for statistics updates, in addition to `callbacks.onStats`.
+     * Statistics are only gathered when the loop was created with `enableStats`.
+     * @param listener - Function called with the latest statistics every frame
+     * @returns Function that removes the listener
+     */
+    public addStatsListener(listener: (stats: GameLoopStats) => void): Unsubscribe {
+        this.statsListeners = [...this.statsListeners, listener];
+        return () => {
+            this.statsListeners = this.statsListeners.filter(existing => existing !== listener);
+        };
+    }
+
+    /**
+     * Registers a listener for panic events, in addition to `callbacks.onPanic`
+     * @param listener - Function called whenever the loop drops simulation time
+     * @returns Function that removes the listener
+     */
+    public addPanicListener(listener: () => void): Unsubscribe {
+        this.panicListeners = [...this.panicListeners, listener];
+        return () => {
+            this.panicListeners = this.panicListeners.filter(existing => existing !== listener);
+        };
+    }
+
+    /**
+     * Sets the global time scale applied to all simulation time
+     * (e.g. 0.25 for bullet-time, 0 to freeze the simulation)
+     * @param scale - Non-negative time multiplier
+     * @throws Error if scale is invalid
+     */
+    public setTimeScale(scale: number): void {
+        this.validateTimeScale(scale);
+        this.timeScale = scale;
+    }
+
+    /**
+     * Gets the global time scale
+     * @returns Current global time multiplier
+     */
+    public getTimeScale(): number {
+        return this.timeScale;
+    }
+
+    /**
+     * Sets the time scale of a layer, applied on top of the global scale
+     * to the delta time received by that layer's subscribers and timers
+     * @param layer - Time layer name
+     * @param scale - Non-negative time multiplier
+     * @throws Error if scale is invalid
+     */
+    public setLayerTimeScale(layer: string, scale: number): void {
+        this.validateTimeScale(scale);
+        this.layerTimeScales.set(layer, scale);
+    }
+
+    /**
+     * Gets the time scale of a layer
+     * @param layer - Time layer name
+     * @returns The layer's time multiplier (1 if never set)
+     */
+    public getLayerTimeScale(layer: string = DEFAULT_TIME_LAYER): number {
+        return this.layerTimeScales.get(layer) ?? 1;
+    }
+
+    /**
+     * Gets the timers driven by this loop for a time layer, creating them on first use.
+     * Timers advance during the fixed update phase, before other subscribers, so they
+     * stop while paused and follow both the global and layer time scales.
+     * @param layer - Time layer name
+     * @returns Timer manager for the layer
+     */
+    public getTimers(layer: string = DEFAULT_TIME_LAYER): TimerManager {
+        let timers = this.layerTimers.get(layer);
+
+        if (!timers) {
+            const created = new TimerManager();
+            this.subscribe('fixedUpdate', (deltaTime) => created.update(deltaTime), {
+                priority: TIMER_PRIORITY,
+                timeLayer: layer
+            });
+            this.layerTimers.set(layer, created);
+            timers = created;
+        }
+
+        return timers;
+    }
+
+    /**
+     * Runs exactly `count` fixed updates, each preceded by a variable update of one
+     * fixed timestep and followed by a render. The accumulator is left untouched, so
+     * the result does not depend on wall-clock time. The global time scale does not
+     * change the number of updates run; layer time scales still apply.
+     * @param count - Number of fixed updates to run
+     * @returns Number of fixed updates actually run (fewer if a subscriber halted the loop)
+     */
+    public step(count: number = 1): number {
+        if (!Number.isInteger(count) || count < 0) {
+            throw new Error('Step count must be a non-negative integer');
+        }
+
+        for (let i = 0; i < count; i++) {
+            if (!this.dispatch('update', this.frameTime) ||
+                !this.dispatch('fixedUpdate', this.frameTime)) {
+                return i;
+            }
+
+            if (this.statsEnabled) {
+                this.updateStats(this.frameTime, 1);
+            }
+
+            if (!this.dispatch('render', this.accumulator / this.frameTime)) {
+                return i + 1;
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * Simulates the passage of time as if frames had been delivered by the frame source.
+     * Long spans are split into frames small enough to avoid triggering panic mode.
+     * @param ms - Milliseconds of time to simulate
+     */
+    public advance(ms: number): void {
+        if (!(ms >= 0)) {
+            throw new Error('Advance time must be a non-negative number');
+        }
+
+        const maxFrame = Math.min(this.maxDeltaTime, this.frameTime * (MAX_UPDATES_PER_FRAME - 1));
+        let remaining = ms;
+
+        while (remaining > 0) {
+            const frame = Math.min(remaining, maxFrame);
+            if (!this.runFrame(frame)) {
+                return;
+            }
+            remaining -= frame;
+        }
     }
 
     /**
@@ -123,74 +444,119 @@ export class GameLoop {
             return;
         }
 
-        let deltaTime = currentTime - this.lastTime;
+        const deltaTime = currentTime - this.lastTime;
         this.lastTime = currentTime;
 
-        if (this.statsEnabled) {
-            this.updateStats(deltaTime);
+        if (!this.runFrame(deltaTime)) {
+            return;
+        }
+
+        // Schedule next frame
+        if (this.running) {
+            this.rafId = this.frameSource.request((timestamp) => this.loop(timestamp));
         }
+    }
 
-        // Add the delta time to the accumulator
-        this.accumulator += deltaTime;
+    /**
+     * Runs the update, fixed update and render phases for one frame
+     * @param frameDelta - Time since the previous frame in milliseconds
+     * @returns False if a subscriber failed and the loop was halted
+     */
+    private runFrame(frameDelta: number): boolean {
+        // Clamp delta time to prevent spiral of death after long stalls
+        const deltaTime = Math.min(Math.max(frameDelta, 0), this.maxDeltaTime);
 
-        // Update game logic at fixed intervals
         let updates = 0;
-        while (this.accumulator >= this.frameTime && updates < MAX_UPDATES_PER_FRAME) {
-            try {
-                this.callbacks.update(this.frameTime);
+
+        if (!this.paused) {
+            const scaledDelta = deltaTime * this.timeScale;
+
+            if (!this.dispatch('update', scaledDelta)) {
+                return false;
+            }
+
+            // Add the scaled delta time to the accumulator
+            this.accumulator += scaledDelta;
+
+            // Update game logic at fixed intervals
+            while (this.accumulator >= this.frameTime && updates < MAX_UPDATES_PER_FRAME) {
+                if (!this.dispatch('fixedUpdate', this.frameTime)) {
+                    return false;
+                }
                 this.accumulator -= this.frameTime;
                 updates++;
-            } catch (error) {
-                console.error('Error in update callback:', error);
-                this.stop();
-                return;
+            }
+
+            // Handle case where game is running too slowly
+            if (updates >= MAX_UPDATES_PER_FRAME) {
+                this.handlePanic();
+                this.accumulator = 0;
             }
         }
 
-        // Handle case where game is running too slowly
-        if (updates >= MAX_UPDATES_PER_FRAME) {
-            this.handlePanic();
-            this.accumulator = 0;
+        if (this.statsEnabled) {
+            this.updateStats(deltaTime, updates);
         }
 
         // Calculate interpolation for smooth rendering
         const interpolation = this.accumulator / this.frameTime;
 
         // Render the frame
-        try {
-            this.callbacks.render(interpolation);
-        } catch (error) {
-            console.error('Error in render callback:', error);
-            this.stop();
-            return;
+        return this.dispatch('render', interpolation);
+    }
+
+    /**
+     * Invokes every subscriber of a phase in priority order
+     * @param phase - Phase to dispatch
+     * @param value - Delta time or interpolation passed to subscribers
+     * @returns False if a subscriber failed and the loop was halted
+     */
+    private dispatch(phase: LoopPhase, value: number): boolean {
+        const subscribers = this.subscribers[phase];
+
+        for (const subscriber of subscribers) {
+            // Render subscribers receive the interpolation alpha, which is never scaled
+            const layerValue = phase === 'render'
+                ? value
+                : value * this.getLayerTimeScale(subscriber.timeLayer);
+
+            try {
+                subscriber.callback(layerValue);
+            } catch (error) {
+                console.error(`Error in ${phase} subscriber:`, error);
+                if (this.haltOnError) {
+                    this.stop();
+                    return false;
+                }
+            }
         }
 
-        // Schedule next frame
-        this.rafId = requestAnimationFrame((timestamp) => this.loop(timestamp));
+        return true;
     }
 
     /**
      * Updates performance statistics
      * @param deltaTime - Time since last frame
+     * @param updates - Fixed updates run during this frame
      */
-    private updateStats(deltaTime: number): void {
+    private updateStats(deltaTime: number, updates: number): void {
         this.frameTimeHistory.push(deltaTime);
         if (this.frameTimeHistory.length > this.statsSampleSize) {
             this.frameTimeHistory.shift();
         }
 
-        const averageFrameTime = this.frameTimeHistory.reduce((a, b) => a + b, 0) / 
+        const averageFrameTime = this.frameTimeHistory.reduce((a, b) => a + b, 0) /
                                this.frameTimeHistory.length;
 
         this.stats = {
-            fps: 1000 / averageFrameTime,
+            fps: averageFrameTime > 0 ? 1000 / averageFrameTime : 0,
             frameTime: averageFrameTime,
-            updates: this.stats.updates + 1,
+            updates: this.stats.updates + updates,
             renders: this.stats.renders + 1
         };
 
-        if (this.callbacks.onStats) {
-            this.callbacks.onStats(this.stats);
+        for (const listener of this.statsListeners) {
+            listener(this.stats);
         }
     }
 
@@ -198,21 +564,31 @@ export class GameLoop {
      * Handles cases where the game loop is running too slowly
      */
     private handlePanic(): void {
-        if (this.callbacks.onPanic) {
-            this.callbacks.onPanic();
+        for (const listener of this.panicListeners) {
+            listener();
         }
         console.warn('Game loop running slowly, skipping frames');
     }
 
     /**
-     * Validates the required callback functions
+     * Validates a time scale value
+     * @param scale - Time multiplier to validate
+     */
+    private validateTimeScale(scale: number): void {
+        if (typeof scale !== 'number' || !Number.isFinite(scale) || scale < 0) {
+            throw new Error('Time scale must be a non-negative finite number');
+        }
+    }
+
+    /**
+     * Validates the provided callback functions
      * @param callbacks - Object containing callback functions
      */
     private validateCallbacks(callbacks: GameLoopCallbacks): void {
-        if (typeof callbacks.update !== 'function') {
+        if (callbacks.update !== undefined && typeof callbacks.update !== 'function') {
             throw new Error('Update callback must be a function');
         }
-        if (typeof callbacks.render !== 'function') {
+        if (callbacks.render !== undefined && typeof callbacks.render !== 'function') {
             throw new Error('Render callback must be a function');
         }
     }
@@ -232,4 +608,50 @@ export class GameLoop {
     public getFPS(): number {
         return this.fps;
     }
-}
\ No newline at end of file
+
+    /**
+     * Sets the fixed update rate
+     * @param fps - Fixed updates per second
+     * @throws Error if fps is invalid
+     */
+    public setFPS(fps: number): void {
+        if (!(fps > 0)) {
+            throw new Error('FPS must be greater than 0');
+        }
+        this.fps = fps;
+        this.frameTime = 1000 / fps;
+    }
+
+    /**
+     * Gets the fixed timestep
+     * @returns The fixed timestep in milliseconds
+     */
+    public getFixedTimestep(): number {
+        return this.frameTime;
+    }
+
+    /**
+     * Checks if the loop is running and not paused
+     * @returns True if the simulation is advancing
+     */
+    public isRunning(): boolean {
+        return this.running && !this.paused;
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * const gameLoop = new GameLoop({ onPanic: () => console.warn('slow frame') }, { enableStats: true });
+ *
+ * gameLoop.onUpdate((deltaTime) => input.update(deltaTime), { priority: -10 });
+ * const removePhysics = gameLoop.onFixedUpdate((fixedDeltaTime) => physics.step(fixedDeltaTime));
+ * gameLoop.onRender((alpha) => renderer.render(alpha));
+ *
+ * gameLoop.getTimers().after(2000, () => waves.startNextWave());
+ * gameLoop.setTimeScale(0.25); // bullet-time after a boss kill
+ * gameLoop.setLayerTimeScale('enemies', 0); // freeze one layer only
+ *
+ * gameLoop.start();
+ * removePhysics();
+ */
@@ -0,0 +1,93 @@
+/**
+ * @file ImageCache.ts
+ * @description Shared image instances keyed by source URL.
+ * Sprites and atlases that reference the same file draw from one HTMLImageElement
+ * instead of each triggering its own download and decode.
+ * @module engine/ImageCache
+ */
+
+/**
+ * Drawable source for sprites: a loaded image or a generated canvas
+ */
+export type SpriteImage = HTMLImageElement | HTMLCanvasElement;
+
+const images = new Map<string, HTMLImageElement>();
+
+/**
+ * Gets the shared image for a source, starting its download on first use
+ * @param src - Image URL
+ * @returns Shared image element, which may still be loading
+ */
+export function getImage(src: string): HTMLImageElement {
+  let image = images.get(src);
+  if (!image) {
+    image = new Image();
+    image.src = src;
+    images.set(src, image);
+  }
+  return image;
+}
+
+/**
+ * Registers an already created image so later lookups share it
+ * @param src - Image URL the image was loaded from
+ * @param image - Image element
+ */
+export function addImage(src: string, image: HTMLImageElement): void {
+  images.set(src, image);
+}
+
+/**
+ * Checks whether a shared image exists for a source
+ * @param src - Image URL
+ */
+export function hasImage(src: string): boolean {
+  return images.has(src);
+}
+
+/**
+ * Checks whether an image is a DOM image element rather than a generated canvas;
+ * false outside a browser
+ * @param image - Image element or canvas
+ */
+export function isImageElement(image: SpriteImage): image is HTMLImageElement {
+  return typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement;
+}
+
+/**
+ * Checks whether an image has finished loading successfully
+ * @param image - Image element or canvas
+ */
+export function isImageReady(image: SpriteImage): boolean {
+  if (!isImageElement(image)) {
+    return image.width > 0 && image.height > 0;
+  }
+  return image.complete && image.naturalWidth > 0;
+}
+
+/**
+ * Checks whether an image finished loading without usable data
+ * @param image - Image element or canvas
+ */
+export function isImageBroken(image: SpriteImage): boolean {
+  if (!isImageElement(image)) {
+    return false;
+  }
+  return image.complete && image.naturalWidth === 0 && image.src !== '';
+}
+
+/**
+ * Drops a shared image; sprites already holding it keep their reference
+ * @param src - Image URL
+ * @returns True if the image was cached
+ */
+export function releaseImage(src: string): boolean {
+  return images.delete(src);
+}
+
+/**
+ * Drops every shared image
+ */
+export function clearImageCache(): void {
+  images.clear();
+}
@@ -0,0 +1,111 @@
+/**
+ * @file Interpolation.ts
+ * @description Render-state interpolation between fixed updates.
+ * Entities snapshot their transform at the start of each fixed step; the render
+ * path blends the previous and current transforms using the loop's interpolation alpha.
+ * @module engine/Interpolation
+ */
+
+import { Point2D } from './types';
+
+/**
+ * Linearly interpolates between two numbers
+ * @param from - Value at alpha 0
+ * @param to - Value at alpha 1
+ * @param alpha - Blend factor
+ */
+export function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha;
+}
+
+/**
+ * Interpolates between two angles along the shortest arc
+ * @param from - Angle at alpha 0, in radians
+ * @param to - Angle at alpha 1, in radians
+ * @param alpha - Blend factor
+ */
+export function lerpAngle(from: number, to: number, alpha: number): number {
+  const fullTurn = Math.PI * 2;
+  const difference = ((to - from) % fullTurn + fullTurn * 1.5) % fullTurn - Math.PI;
+  return from + difference * alpha;
+}
+
+/**
+ * Stores the transform an entity had at the start of the current fixed step
+ */
+export class TransformHistory {
+  private previous: Point2D;
+  private previousRotation: number;
+  private enabled: boolean;
+
+  /**
+   * Creates a new TransformHistory
+   * @param position - Initial position
+   * @param rotation - Initial rotation in radians
+   */
+  constructor(position: Point2D, rotation: number = 0) {
+    this.previous = { x: position.x, y: position.y };
+    this.previousRotation = rotation;
+    this.enabled = true;
+  }
+
+  /**
+   * Records the current transform; call before moving in each fixed update
+   * @param position - Position before this step's movement
+   * @param rotation - Rotation before this step's movement
+   */
+  public snapshot(position: Point2D, rotation: number = 0): void {
+    this.previous.x = position.x;
+    this.previous.y = position.y;
+    this.previousRotation = rotation;
+  }
+
+  /**
+   * Discards the previous transform so an instant move is not smeared across a frame
+   * @param position - Position the entity jumped to
+   * @param rotation - Rotation the entity jumped to
+   */
+  public teleport(position: Point2D, rotation: number = 0): void {
+    this.snapshot(position, rotation);
+  }
+
+  /**
+   * Enables or disables interpolation for this entity
+   * @param enabled - When false, the current transform is always rendered
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Checks whether interpolation is enabled
+   */
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Gets the position to render
+   * @param current - Position after the latest fixed update
+   * @param alpha - Interpolation alpha from the game loop (0-1)
+   */
+  public getPosition(current: Point2D, alpha: number): Point2D {
+    if (!this.enabled) {
+      return { x: current.x, y: current.y };
+    }
+
+    return {
+      x: lerp(this.previous.x, current.x, alpha),
+      y: lerp(this.previous.y, current.y, alpha)
+    };
+  }
+
+  /**
+   * Gets the rotation to render
+   * @param current - Rotation after the latest fixed update
+   * @param alpha - Interpolation alpha from the game loop (0-1)
+   */
+  public getRotation(current: number, alpha: number): number {
+    return this.enabled ? lerpAngle(this.previousRotation, current, alpha) : current;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * @file Palette.ts
+ * @description Named color palettes shared by renderers, sprites, particles
+ * and UI. One palette is active at a time; modules read it when they create
+ * or draw something and can subscribe to switches.
+ * @module engine/Palette
+ */
+
+import { EnemyType } from '../types/EnemyTypes';
+import { Unsubscribe } from './GameLoop';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Colors for every themed element of the game, as CSS color strings
+ */
+export interface Palette {
+  /** Playfield and letterbox background */
+  background: string;
+  /** HUD and menu text */
+  foreground: string;
+  /** Highlights such as sparkles and warnings */
+  accent: string;
+  player: string;
+  playerProjectile: string;
+  enemyProjectile: string;
+  shield: string;
+  enemies: Record<EnemyType, string>;
+  /** Explosion colors from smallest to largest blast */
+  explosion: string[];
+  /** Colors particle emitters pick from */
+  particles: string[];
+}
+
+export type PaletteListener = (palette: Palette, name: string) => void;
+
+// =========================================================
+// Built-in Palettes
+// =========================================================
+
+export const BUILT_IN_PALETTES = {
+  /** Default full-color look */
+  arcade: {
+    background: '#000000',
+    foreground: '#ffffff',
+    accent: '#ffff00',
+    player: '#33ff33',
+    playerProjectile: '#ffffff',
+    enemyProjectile: '#ffffff',
+    shield: '#33ff33',
+    enemies: {
+      [EnemyType.BASIC]: '#ffffff',
+      [EnemyType.FAST]: '#ff55ff',
+      [EnemyType.TANK]: '#55ddff',
+      [EnemyType.BOSS]: '#ff3333'
+    },
+    explosion: ['#ff4400', '#ff6600', '#ffff00'],
+    particles: ['#ff4400', '#ff6600', '#ffff00', '#ff55ff', '#55ddff']
+  },
+  /** Monochrome green phosphor on black */
+  classic: {
+    background: '#000000',
+    foreground: '#33ff33',
+    accent: '#ccffcc',
+    player: '#33ff33',
+    playerProjectile: '#ccffcc',
+    enemyProjectile: '#ccffcc',
+    shield: '#33ff33',
+    enemies: {
+      [EnemyType.BASIC]: '#33ff33',
+      [EnemyType.FAST]: '#33ff33',
+      [EnemyType.TANK]: '#33ff33',
+      [EnemyType.BOSS]: '#99ff99'
+    },
+    explosion: ['#ccffcc', '#33ff33', '#1a8c1a'],
+    particles: ['#ccffcc', '#33ff33', '#1a8c1a']
+  },
+  /** Okabe-Ito colors, distinguishable with common color vision deficiencies */
+  colorblind: {
+    background: '#000000',
+    foreground: '#ffffff',
+    accent: '#f0e442',
+    player: '#009e73',
+    playerProjectile: '#56b4e9',
+    enemyProjectile: '#e69f00',
+    shield: '#009e73',
+    enemies: {
+      [EnemyType.BASIC]: '#ffffff',
+      [EnemyType.FAST]: '#cc79a7',
+      [EnemyType.TANK]: '#56b4e9',
+      [EnemyType.BOSS]: '#d55e00'
+    },
+    explosion: ['#d55e00', '#e69f00', '#f0e442'],
+    particles: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#cc79a7']
+  },
+  /** Maximum contrast against black for low vision */
+  highContrast: {
+    background: '#000000',
+    foreground: '#ffffff',
+    accent: '#ffff00',
+    player: '#00ffff',
+    playerProjectile: '#ffffff',
+    enemyProjectile: '#ffff00',
+    shield: '#00ff00',
+    enemies: {
+      [EnemyType.BASIC]: '#ffffff',
+      [EnemyType.FAST]: '#ffffff',
+      [EnemyType.TANK]: '#ffffff',
+      [EnemyType.BOSS]: '#ff00ff'
+    },
+    explosion: ['#ffffff', '#ffff00', '#ff00ff'],
+    particles: ['#ffffff', '#ffff00']
+  }
+} satisfies Record<string, Palette>;
+
+export type PaletteName = keyof typeof BUILT_IN_PALETTES;
+
+const DEFAULT_PALETTE: PaletteName = 'arcade';
+
+// =========================================================
+// Palette Registry
+// =========================================================
+
+const palettes = new Map<string, Palette>(Object.entries(BUILT_IN_PALETTES));
+const listeners = new Set<PaletteListener>();
+let activeName: string = DEFAULT_PALETTE;
+
+/**
+ * Gets the active palette
+ */
+export function getPalette(): Palette {
+  return palettes.get(activeName) as Palette;
+}
+
+/**
+ * Gets the name of the active palette
+ */
+export function getPaletteName(): string {
+  return activeName;
+}
+
+/**
+ * Gets the names of all registered palettes
+ */
+export function getPaletteNames(): string[] {
+  return Array.from(palettes.keys());
+}
+
+/**
+ * Adds or replaces a palette
+ * @param name - Palette name
+ * @param palette - Palette colors
+ * @throws Error if a color list is empty
+ */
+export function registerPalette(name: string, palette: Palette): void {
+  if (palette.explosion.length === 0 || palette.particles.length === 0) {
+    throw new Error(`Palette '${name}' must define explosion and particle colors`);
+  }
+
+  palettes.set(name, palette);
+  if (name === activeName) {
+    notifyListeners();
+  }
+}
+
+/**
+ * Switches the active palette and notifies listeners
+ * @param name - Name of a registered palette
+ * @throws Error if the palette is not registered
+ */
+export function setPalette(name: string): void {
+  if (!palettes.has(name)) {
+    throw new Error(`Unknown palette: ${name}`);
+  }
+  if (name === activeName) {
+    return;
+  }
+
+  activeName = name;
+  notifyListeners();
+}
+
+/**
+ * Registers a callback for palette switches
+ * @param listener - Called with the new palette and its name
+ * @returns Function that removes the listener
+ */
+export function onPaletteChange(listener: PaletteListener): Unsubscribe {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Picks a color from a palette list, repeating the list if the index runs past its end
+ * @param colors - Palette color list
+ * @param index - Position in the list
+ */
+export function pickColor(colors: string[], index: number): string {
+  return colors[Math.abs(Math.floor(index)) % colors.length];
+}
+
+// =========================================================
+// Private Helpers
+// =========================================================
+
+function notifyListeners(): void {
+  const palette = getPalette();
+  listeners.forEach(listener => {
+    try {
+      listener(palette, activeName);
+    } catch (error) {
+      console.error('Error in palette listener:', error);
+    }
+  });
+}
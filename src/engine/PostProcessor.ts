@@ -0,0 +1,517 @@
+/**
+ * @file PostProcessor.ts
+ * @description Optional post-processing stage applied after the scene is rendered.
+ * Provides arcade-style effects built from 2D canvas compositing: phosphor
+ * persistence, glow, chromatic fringing, scanlines and vignette. Effects are
+ * configured individually, toggled at runtime and switched off automatically
+ * when frame times degrade.
+ * @module engine/PostProcessor
+ */
+
+import { Canvas } from './Canvas';
+import { GameLoop, GameLoopStats, Unsubscribe } from './GameLoop';
+import { SceneRenderer } from './Renderer';
+import { CanvasError } from './types';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+export interface ScanlineSettings {
+  enabled: boolean;
+  /** Darkness of each scanline (0-1) */
+  intensity: number;
+  /** Distance between scanlines in backing-store pixels */
+  spacing: number;
+}
+
+export interface VignetteSettings {
+  enabled: boolean;
+  /** Darkness at the corners (0-1) */
+  intensity: number;
+  /** Fraction of the half-diagonal that stays unshaded (0-1) */
+  radius: number;
+}
+
+export interface ChromaticSettings {
+  enabled: boolean;
+  /** Horizontal red/blue separation in backing-store pixels */
+  offset: number;
+  /** Strength of the fringes (0-1) */
+  intensity: number;
+}
+
+export interface PersistenceSettings {
+  enabled: boolean;
+  /** Fraction of the previous frame that survives each frame (0-1) */
+  decay: number;
+}
+
+export interface GlowSettings {
+  enabled: boolean;
+  /** Strength of each glow pass (0-1) */
+  intensity: number;
+  /** Factor the frame is shrunk by before being blended back (larger is softer and cheaper) */
+  downscale: number;
+  /** Number of additive passes */
+  passes: number;
+}
+
+/**
+ * Settings for every effect
+ */
+export interface PostProcessSettings {
+  scanlines: ScanlineSettings;
+  vignette: VignetteSettings;
+  chromatic: ChromaticSettings;
+  persistence: PersistenceSettings;
+  glow: GlowSettings;
+}
+
+export type PostEffectName = keyof PostProcessSettings;
+
+/**
+ * Configuration options for the post-processor
+ */
+export interface PostProcessorOptions {
+  /** Per-effect overrides of DEFAULT_POST_PROCESS_SETTINGS */
+  effects?: { [K in PostEffectName]?: Partial<PostProcessSettings[K]> };
+  /** Frame time budget in milliseconds */
+  targetFrameTime?: number;
+  /** Frame time ratio above which a sample counts as slow */
+  disableRatio?: number;
+  /** Consecutive slow samples before effects are switched off */
+  disableSamples?: number;
+  /**
+   * Scene renderer drawing to the canvas. Effects are drawn over the frame in
+   * place, so it is told to redraw fully after each processed frame instead of
+   * repainting dirty rects on top of them.
+   */
+  renderer?: SceneRenderer;
+}
+
+/**
+ * Called when the post-processor switches itself off
+ */
+export type AutoDisableListener = (stats: GameLoopStats) => void;
+
+// =========================================================
+// Constants
+// =========================================================
+
+export const DEFAULT_POST_PROCESS_SETTINGS: PostProcessSettings = {
+  scanlines: { enabled: true, intensity: 0.25, spacing: 3 },
+  vignette: { enabled: true, intensity: 0.45, radius: 0.65 },
+  chromatic: { enabled: false, offset: 2, intensity: 0.35 },
+  persistence: { enabled: false, decay: 0.6 },
+  glow: { enabled: true, intensity: 0.35, downscale: 4, passes: 2 }
+};
+
+const DEFAULT_OPTIONS = {
+  targetFrameTime: 1000 / 60,
+  disableRatio: 1.3,
+  disableSamples: 30
+} as const;
+
+// Order effects are applied in; overlays come last so they are not glowed or fringed
+const EFFECT_ORDER: PostEffectName[] = ['persistence', 'glow', 'chromatic', 'scanlines', 'vignette'];
+
+// =========================================================
+// Main PostProcessor Class
+// =========================================================
+
+export class PostProcessor {
+  private canvas: Canvas;
+  private renderer: SceneRenderer | null;
+  private settings: PostProcessSettings;
+  private enabled: boolean;
+  private autoDisabled: boolean;
+  private targetFrameTime: number;
+  private disableRatio: number;
+  private disableSamples: number;
+  private slowStreak: number;
+  private listeners: AutoDisableListener[];
+  private buffers: Map<string, HTMLCanvasElement>;
+  private scanlinePattern: CanvasPattern | null;
+  private vignetteGradient: CanvasGradient | null;
+  private vignetteSize: { width: number; height: number } | null;
+
+  /**
+   * Creates a new PostProcessor
+   * @param canvas - Canvas the scene is rendered to
+   * @param options - Effect settings and auto-disable thresholds
+   */
+  constructor(canvas: Canvas, options: PostProcessorOptions = {}) {
+    this.canvas = canvas;
+    this.renderer = options.renderer ?? null;
+    this.settings = this.cloneSettings(DEFAULT_POST_PROCESS_SETTINGS);
+    this.enabled = true;
+    this.autoDisabled = false;
+    this.targetFrameTime = options.targetFrameTime ?? DEFAULT_OPTIONS.targetFrameTime;
+    this.disableRatio = options.disableRatio ?? DEFAULT_OPTIONS.disableRatio;
+    this.disableSamples = options.disableSamples ?? DEFAULT_OPTIONS.disableSamples;
+    this.slowStreak = 0;
+    this.listeners = [];
+    this.buffers = new Map();
+    this.scanlinePattern = null;
+    this.vignetteGradient = null;
+    this.vignetteSize = null;
+
+    Object.entries(options.effects ?? {}).forEach(([name, overrides]) => {
+      this.configure(name as PostEffectName, overrides ?? {});
+    });
+  }
+
+  /**
+   * Watches a game loop's statistics to switch effects off when frames run long
+   * @param loop - Game loop created with `enableStats`
+   * @returns Function that detaches the post-processor from the loop
+   */
+  public attach(loop: GameLoop): Unsubscribe {
+    return loop.addStatsListener((stats) => this.handleStats(stats));
+  }
+
+  /**
+   * Processes one statistics sample
+   * @param stats - Latest game loop statistics
+   */
+  public handleStats(stats: GameLoopStats): void {
+    if (!this.isActive()) {
+      this.slowStreak = 0;
+      return;
+    }
+
+    if (stats.frameTime / this.targetFrameTime > this.disableRatio) {
+      this.slowStreak++;
+    } else {
+      this.slowStreak = 0;
+    }
+
+    if (this.slowStreak >= this.disableSamples) {
+      this.autoDisabled = true;
+      this.slowStreak = 0;
+      this.releaseBuffers();
+
+      for (const listener of this.listeners) {
+        try {
+          listener(stats);
+        } catch (error) {
+          console.error('Error in post-process auto-disable listener:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Registers a listener for automatic disabling, e.g. to update a settings menu
+   * @param listener - Function called with the sample that triggered it
+   * @returns Function that removes the listener
+   */
+  public onAutoDisable(listener: AutoDisableListener): Unsubscribe {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Turns the whole stage on or off; enabling also clears an automatic disable
+   * @param enabled - Whether effects are applied
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.autoDisabled = false;
+    this.slowStreak = 0;
+    if (!enabled) {
+      this.releaseBuffers();
+    }
+  }
+
+  /**
+   * Checks whether effects are currently applied
+   */
+  public isActive(): boolean {
+    return this.enabled && !this.autoDisabled;
+  }
+
+  /**
+   * Checks whether the stage switched itself off because of slow frames
+   */
+  public isAutoDisabled(): boolean {
+    return this.autoDisabled;
+  }
+
+  /**
+   * Turns a single effect on or off
+   * @param name - Effect name
+   * @param enabled - Whether the effect is applied
+   */
+  public setEffectEnabled(name: PostEffectName, enabled: boolean): void {
+    this.configure(name, { enabled });
+  }
+
+  /**
+   * Updates an effect's settings
+   * @param name - Effect name
+   * @param settings - Settings to change
+   * @throws Error if the effect name is unknown
+   */
+  public configure<K extends PostEffectName>(name: K, settings: Partial<PostProcessSettings[K]>): void {
+    if (!(name in this.settings)) {
+      throw new Error(`Unknown post-process effect: ${name}`);
+    }
+
+    this.settings[name] = { ...this.settings[name], ...settings };
+
+    // Cached resources depend on these settings
+    if (name === 'scanlines') {
+      this.scanlinePattern = null;
+    } else if (name === 'vignette') {
+      this.vignetteGradient = null;
+    } else if (name === 'persistence' && !this.settings.persistence.enabled) {
+      this.buffers.delete('persistence');
+    }
+  }
+
+  /**
+   * Gets a copy of all effect settings
+   */
+  public getSettings(): PostProcessSettings {
+    return this.cloneSettings(this.settings);
+  }
+
+  /**
+   * Applies enabled effects to the rendered frame; call after the scene renderer
+   */
+  public apply(): void {
+    const context = this.canvas.getContext();
+    if (!context || !this.isActive()) {
+      return;
+    }
+
+    const effects = EFFECT_ORDER.filter(name => this.settings[name].enabled);
+    if (effects.length === 0) {
+      return;
+    }
+
+    // The effects below become part of the frame; a dirty-rect pass would paint over them
+    this.renderer?.invalidateAll();
+
+    const element = this.canvas.getElement();
+    const { width, height } = element;
+
+    context.save();
+    // Effects work on backing-store pixels, independent of the logical resolution
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.globalAlpha = 1;
+    context.globalCompositeOperation = 'source-over';
+
+    try {
+      for (const name of effects) {
+        this.applyEffect(name, context, element, width, height);
+      }
+    } catch (error) {
+      console.error('Error applying post-processing:', error);
+    } finally {
+      context.restore();
+    }
+  }
+
+  // =========================================================
+  // Effects
+  // =========================================================
+
+  private applyEffect(
+    name: PostEffectName,
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement,
+    width: number,
+    height: number
+  ): void {
+    switch (name) {
+      case 'persistence':
+        this.applyPersistence(context, source, width, height);
+        break;
+      case 'glow':
+        this.applyGlow(context, source, width, height);
+        break;
+      case 'chromatic':
+        this.applyChromatic(context, source, width, height);
+        break;
+      case 'scanlines':
+        this.applyScanlines(context, width, height);
+        break;
+      case 'vignette':
+        this.applyVignette(context, width, height);
+        break;
+    }
+  }
+
+  /**
+   * Blends in the previous output so bright pixels fade out instead of vanishing
+   */
+  private applyPersistence(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement,
+    width: number,
+    height: number
+  ): void {
+    const isNew = !this.buffers.has('persistence');
+    const history = this.getBuffer('persistence', width, height);
+    const historyContext = this.getBufferContext(history);
+
+    if (!isNew) {
+      context.globalAlpha = this.settings.persistence.decay;
+      context.globalCompositeOperation = 'lighten';
+      context.drawImage(history, 0, 0);
+      context.globalAlpha = 1;
+      context.globalCompositeOperation = 'source-over';
+    }
+
+    historyContext.clearRect(0, 0, width, height);
+    historyContext.drawImage(source, 0, 0);
+  }
+
+  /**
+   * Cheap bloom: shrink the frame so smoothing blurs it, then add it back scaled up
+   */
+  private applyGlow(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement,
+    width: number,
+    height: number
+  ): void {
+    const { intensity, downscale, passes } = this.settings.glow;
+    const smallWidth = Math.max(1, Math.round(width / Math.max(1, downscale)));
+    const smallHeight = Math.max(1, Math.round(height / Math.max(1, downscale)));
+
+    const small = this.getBuffer('glow', smallWidth, smallHeight);
+    const smallContext = this.getBufferContext(small);
+    smallContext.imageSmoothingEnabled = true;
+    smallContext.clearRect(0, 0, smallWidth, smallHeight);
+    smallContext.drawImage(source, 0, 0, smallWidth, smallHeight);
+
+    context.imageSmoothingEnabled = true;
+    context.globalCompositeOperation = 'lighter';
+    context.globalAlpha = intensity;
+    for (let pass = 0; pass < passes; pass++) {
+      // Each pass spreads the glow a little further
+      const spread = pass * downscale;
+      context.drawImage(small, -spread, -spread, width + spread * 2, height + spread * 2);
+    }
+  }
+
+  /**
+   * Adds offset red and blue copies of the frame for a misconverged-CRT fringe
+   */
+  private applyChromatic(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement,
+    width: number,
+    height: number
+  ): void {
+    const { offset, intensity } = this.settings.chromatic;
+    const channel = this.getBuffer('chromatic', width, height);
+    const channelContext = this.getBufferContext(channel);
+
+    const drawChannel = (color: string, dx: number) => {
+      channelContext.globalCompositeOperation = 'copy';
+      channelContext.drawImage(source, 0, 0);
+      channelContext.globalCompositeOperation = 'multiply';
+      channelContext.fillStyle = color;
+      channelContext.fillRect(0, 0, width, height);
+      // Multiply fills transparent pixels too; restore the source alpha
+      channelContext.globalCompositeOperation = 'destination-in';
+      channelContext.drawImage(source, 0, 0);
+
+      context.drawImage(channel, dx, 0);
+    };
+
+    context.globalCompositeOperation = 'lighter';
+    context.globalAlpha = intensity;
+    drawChannel('#ff0000', offset);
+    drawChannel('#0000ff', -offset);
+  }
+
+  private applyScanlines(context: CanvasRenderingContext2D, width: number, height: number): void {
+    if (!this.scanlinePattern) {
+      const { intensity, spacing } = this.settings.scanlines;
+      const period = Math.max(2, Math.round(spacing));
+      const tile = document.createElement('canvas');
+      tile.width = 1;
+      tile.height = period;
+
+      const tileContext = this.getBufferContext(tile);
+      tileContext.fillStyle = `rgba(0, 0, 0, ${Math.max(0, Math.min(1, intensity))})`;
+      tileContext.fillRect(0, period - 1, 1, 1);
+      this.scanlinePattern = context.createPattern(tile, 'repeat');
+    }
+
+    if (this.scanlinePattern) {
+      context.fillStyle = this.scanlinePattern;
+      context.fillRect(0, 0, width, height);
+    }
+  }
+
+  private applyVignette(context: CanvasRenderingContext2D, width: number, height: number): void {
+    const size = this.vignetteSize;
+    if (!this.vignetteGradient || !size || size.width !== width || size.height !== height) {
+      this.vignetteSize = { width, height };
+
+      const { intensity, radius } = this.settings.vignette;
+      const outer = Math.hypot(width, height) / 2;
+      const gradient = context.createRadialGradient(
+        width / 2, height / 2, outer * Math.max(0, Math.min(1, radius)),
+        width / 2, height / 2, outer
+      );
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      gradient.addColorStop(1, `rgba(0, 0, 0, ${Math.max(0, Math.min(1, intensity))})`);
+      this.vignetteGradient = gradient;
+    }
+
+    context.fillStyle = this.vignetteGradient;
+    context.fillRect(0, 0, width, height);
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private getBuffer(name: string, width: number, height: number): HTMLCanvasElement {
+    let buffer = this.buffers.get(name);
+    if (!buffer) {
+      buffer = document.createElement('canvas');
+      this.buffers.set(name, buffer);
+    }
+    if (buffer.width !== width || buffer.height !== height) {
+      buffer.width = width;
+      buffer.height = height;
+    }
+    return buffer;
+  }
+
+  private getBufferContext(buffer: HTMLCanvasElement): CanvasRenderingContext2D {
+    const context = buffer.getContext('2d');
+    if (!context) {
+      throw new CanvasError('Failed to create post-process buffer context');
+    }
+    return context;
+  }
+
+  private releaseBuffers(): void {
+    this.buffers.clear();
+    this.vignetteGradient = null;
+  }
+
+  private cloneSettings(settings: PostProcessSettings): PostProcessSettings {
+    return {
+      scanlines: { ...settings.scanlines },
+      vignette: { ...settings.vignette },
+      chromatic: { ...settings.chromatic },
+      persistence: { ...settings.persistence },
+      glow: { ...settings.glow }
+    };
+  }
+}
+
+export default PostProcessor;
@@ -0,0 +1,316 @@
+/**
+ * @file QualityGovernor.ts
+ * @description Adaptive quality control driven by game loop statistics.
+ * Steps through quality tiers with hysteresis: quality drops quickly when frames
+ * run long and only recovers after a sustained period of headroom.
+ * @module engine/QualityGovernor
+ */
+
+import { GameLoop, GameLoopStats, Unsubscribe } from './GameLoop';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Settings applied to subsystems at a quality tier
+ */
+export interface QualityTier {
+  name: string;
+  /** Upper bound on live particles per particle system */
+  particleCap: number;
+  /** Maximum number of sounds playing at once */
+  maxConcurrentSounds: number;
+  /** Canvas backing store resolution relative to its logical size */
+  resolutionScale: number;
+  /** Whether entities always use their simplified update path */
+  simplifiedEntityUpdates: boolean;
+}
+
+/**
+ * Configuration options for the quality governor
+ */
+export interface QualityGovernorOptions {
+  /** Tiers ordered from lowest to highest quality */
+  tiers?: QualityTier[];
+  /** Index of the tier to start at (defaults to the highest) */
+  initialTier?: number;
+  /** Frame time budget in milliseconds */
+  targetFrameTime?: number;
+  /** Frame time ratio above which a sample counts as slow */
+  degradeRatio?: number;
+  /** Frame time ratio below which a sample counts as fast */
+  upgradeRatio?: number;
+  /** Consecutive slow samples before stepping down */
+  degradeSamples?: number;
+  /** Consecutive fast samples before stepping up */
+  upgradeSamples?: number;
+  /** Samples ignored after any tier change while stats settle */
+  cooldownSamples?: number;
+  /** Panics within the panic window before stepping down */
+  panicCount?: number;
+  /** Samples a panic counts towards stepping down for */
+  panicWindow?: number;
+}
+
+/**
+ * Called whenever the active tier changes
+ */
+export type QualityChangeListener = (tier: QualityTier, tierIndex: number) => void;
+
+/**
+ * Subsystems the governor can drive directly
+ */
+export interface QualityTargets {
+  particleSystems?: Array<{ setParticleCap(cap: number): void }>;
+  audio?: { setMaxConcurrentSounds(max: number): void };
+  canvas?: { setResolutionScale(scale: number): void };
+  entities?: { setSimplifiedUpdates(enabled: boolean): void };
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+export const DEFAULT_QUALITY_TIERS: QualityTier[] = [
+  {
+    name: 'low',
+    particleCap: 50,
+    maxConcurrentSounds: 4,
+    resolutionScale: 0.5,
+    simplifiedEntityUpdates: true
+  },
+  {
+    name: 'medium',
+    particleCap: 200,
+    maxConcurrentSounds: 6,
+    resolutionScale: 0.75,
+    simplifiedEntityUpdates: false
+  },
+  {
+    name: 'high',
+    particleCap: 1000,
+    maxConcurrentSounds: 10,
+    resolutionScale: 1,
+    simplifiedEntityUpdates: false
+  }
+];
+
+const DEFAULT_OPTIONS = {
+  targetFrameTime: 1000 / 60,
+  degradeRatio: 1.2,
+  upgradeRatio: 0.9,
+  degradeSamples: 30,
+  upgradeSamples: 180,
+  cooldownSamples: 60,
+  panicCount: 3,
+  panicWindow: 120
+} as const;
+
+// =========================================================
+// Main QualityGovernor Class
+// =========================================================
+
+/**
+ * Chooses a quality tier from observed frame times and notifies listeners
+ */
+export class QualityGovernor {
+  private tiers: QualityTier[];
+  private tierIndex: number;
+  private targetFrameTime: number;
+  private degradeRatio: number;
+  private upgradeRatio: number;
+  private degradeSamples: number;
+  private upgradeSamples: number;
+  private cooldownSamples: number;
+  private panicCount: number;
+  private panicWindow: number;
+  private recentPanics: number[];
+  private sampleCount: number;
+  private slowStreak: number;
+  private fastStreak: number;
+  private cooldown: number;
+  private listeners: QualityChangeListener[];
+
+  /**
+   * Creates a new QualityGovernor
+   * @param options - Tier definitions and hysteresis settings
+   * @throws Error if no tiers are provided or thresholds overlap
+   */
+  constructor(options: QualityGovernorOptions = {}) {
+    this.tiers = options.tiers ? [...options.tiers] : [...DEFAULT_QUALITY_TIERS];
+    if (this.tiers.length === 0) {
+      throw new Error('QualityGovernor requires at least one tier');
+    }
+
+    this.targetFrameTime = options.targetFrameTime ?? DEFAULT_OPTIONS.targetFrameTime;
+    this.degradeRatio = options.degradeRatio ?? DEFAULT_OPTIONS.degradeRatio;
+    this.upgradeRatio = options.upgradeRatio ?? DEFAULT_OPTIONS.upgradeRatio;
+    this.degradeSamples = options.degradeSamples ?? DEFAULT_OPTIONS.degradeSamples;
+    this.upgradeSamples = options.upgradeSamples ?? DEFAULT_OPTIONS.upgradeSamples;
+    this.cooldownSamples = options.cooldownSamples ?? DEFAULT_OPTIONS.cooldownSamples;
+    this.panicCount = Math.max(1, options.panicCount ?? DEFAULT_OPTIONS.panicCount);
+    this.panicWindow = options.panicWindow ?? DEFAULT_OPTIONS.panicWindow;
+
+    if (this.upgradeRatio >= this.degradeRatio) {
+      throw new Error('Upgrade ratio must be lower than degrade ratio');
+    }
+
+    this.tierIndex = this.clampTier(options.initialTier ?? this.tiers.length - 1);
+    this.slowStreak = 0;
+    this.fastStreak = 0;
+    this.cooldown = 0;
+    this.recentPanics = [];
+    this.sampleCount = 0;
+    this.listeners = [];
+  }
+
+  /**
+   * Feeds the governor from a game loop's statistics and panic events
+   * @param loop - Game loop created with `enableStats`
+   * @returns Function that detaches the governor from the loop
+   */
+  public attach(loop: GameLoop): Unsubscribe {
+    const removeStats = loop.addStatsListener((stats) => this.handleStats(stats));
+    const removePanic = loop.addPanicListener(() => this.handlePanic());
+
+    return () => {
+      removeStats();
+      removePanic();
+    };
+  }
+
+  /**
+   * Applies the current tier to subsystems now and whenever it changes
+   * @param targets - Subsystems to drive
+   * @returns Function that stops driving the targets
+   */
+  public connect(targets: QualityTargets): Unsubscribe {
+    const apply = (tier: QualityTier) => {
+      targets.particleSystems?.forEach(system => system.setParticleCap(tier.particleCap));
+      targets.audio?.setMaxConcurrentSounds(tier.maxConcurrentSounds);
+      targets.canvas?.setResolutionScale(tier.resolutionScale);
+      targets.entities?.setSimplifiedUpdates(tier.simplifiedEntityUpdates);
+    };
+
+    apply(this.getCurrentTier());
+    return this.onTierChange(apply);
+  }
+
+  /**
+   * Processes one statistics sample
+   * @param stats - Latest game loop statistics
+   */
+  public handleStats(stats: GameLoopStats): void {
+    this.sampleCount++;
+
+    if (this.cooldown > 0) {
+      this.cooldown--;
+      return;
+    }
+
+    const ratio = stats.frameTime / this.targetFrameTime;
+
+    if (ratio > this.degradeRatio) {
+      this.slowStreak++;
+      this.fastStreak = 0;
+    } else if (ratio < this.upgradeRatio) {
+      this.fastStreak++;
+      this.slowStreak = 0;
+    } else {
+      // Inside the hysteresis band: hold the current tier
+      this.slowStreak = 0;
+      this.fastStreak = 0;
+    }
+
+    if (this.slowStreak >= this.degradeSamples) {
+      this.setTier(this.tierIndex - 1);
+    } else if (this.fastStreak >= this.upgradeSamples) {
+      this.setTier(this.tierIndex + 1);
+    }
+  }
+
+  /**
+   * Steps down when the loop repeatedly reports it is dropping simulation time.
+   * A single panic is usually a GC pause or a return to the tab, so panics only
+   * count outside the cooldown and must recur within the panic window.
+   */
+  public handlePanic(): void {
+    if (this.cooldown > 0) {
+      return;
+    }
+
+    this.recentPanics = this.recentPanics.filter(sample => this.sampleCount - sample < this.panicWindow);
+    this.recentPanics.push(this.sampleCount);
+
+    if (this.recentPanics.length >= this.panicCount) {
+      this.setTier(this.tierIndex - 1);
+    }
+  }
+
+  /**
+   * Forces a tier, e.g. from a settings menu
+   * @param index - Tier index, clamped to the available tiers
+   */
+  public setTier(index: number): void {
+    const next = this.clampTier(index);
+    this.slowStreak = 0;
+    this.fastStreak = 0;
+    this.recentPanics = [];
+
+    if (next === this.tierIndex) {
+      return;
+    }
+
+    this.tierIndex = next;
+    this.cooldown = this.cooldownSamples;
+
+    const tier = this.getCurrentTier();
+    for (const listener of this.listeners) {
+      try {
+        listener(tier, next);
+      } catch (error) {
+        console.error('Error in quality change listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Registers a listener for tier changes, e.g. to show the tier in the UI
+   * @param listener - Function called with the new tier
+   * @returns Function that removes the listener
+   */
+  public onTierChange(listener: QualityChangeListener): Unsubscribe {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Gets the active tier
+   */
+  public getCurrentTier(): QualityTier {
+    return { ...this.tiers[this.tierIndex] };
+  }
+
+  /**
+   * Gets the index of the active tier (0 is the lowest quality)
+   */
+  public getTierIndex(): number {
+    return this.tierIndex;
+  }
+
+  /**
+   * Gets all tiers from lowest to highest quality
+   */
+  public getTiers(): QualityTier[] {
+    return this.tiers.map(tier => ({ ...tier }));
+  }
+
+  private clampTier(index: number): number {
+    return Math.max(0, Math.min(this.tiers.length - 1, Math.round(index)));
+  }
+}
+
+export default QualityGovernor;
@@ -0,0 +1,758 @@
+/**
+ * @file RecordingRenderer.ts
+ * @description Headless rendering backend for tests.
+ * `RecordingContext` stands in for a 2D canvas context and records draw
+ * commands (shape, canvas-space bounds, color, layer) instead of rasterizing.
+ * `RecordingRenderer` is a `SceneRenderer` drawing into it, keeping a per-frame
+ * history that tests can query or diff against golden files, with no DOM or
+ * canvas support required.
+ * @module engine/RecordingRenderer
+ */
+
+import { RenderSurface, SceneRenderer, SceneRendererConfig } from './Renderer';
+import { identity, multiply, rotation, scaling, transformPoint, translation } from './Transform';
+import {
+  Dimensions,
+  DrawingContext,
+  IRenderableObject,
+  ISceneObject,
+  Point2D,
+  Rect,
+  RenderLayer,
+  Transform2D
+} from './types';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+export type DrawShape = 'rect' | 'circle' | 'path' | 'image' | 'text';
+
+/**
+ * How a command touched the canvas
+ */
+export type DrawMode = 'fill' | 'stroke' | 'clear' | 'image' | 'text';
+
+/**
+ * A single recorded draw call
+ */
+export interface DrawCommand {
+  shape: DrawShape;
+  mode: DrawMode;
+  /** Canvas-space bounding box after the current transform */
+  bounds: Rect;
+  /** Fill or stroke style when it is a plain color */
+  color: string | null;
+  /** Effective global alpha */
+  alpha: number;
+  /** Layer being rendered, or null for draws outside the layer pass */
+  layer: string | null;
+  /** Tag of the object being drawn, or null */
+  tag: string | null;
+  /** Text of fillText/strokeText commands */
+  text?: string;
+}
+
+/**
+ * Everything drawn between one beginFrame/endFrame pair
+ */
+export interface RecordedFrame {
+  /** Zero-based frame number */
+  index: number;
+  commands: DrawCommand[];
+  /** Objects drawn by the layer pass, in drawing order */
+  objects: Array<{ tag: string | null; layer: string }>;
+}
+
+/**
+ * Predicate or field match used to select commands
+ */
+export type CommandFilter = ((command: DrawCommand) => boolean) | Partial<Pick<DrawCommand, 'shape' | 'mode' | 'color' | 'layer' | 'tag'>>;
+
+/**
+ * Configuration options for the recording renderer; layers default to a single 'default' layer
+ */
+export interface RecordingRendererConfig extends SceneRendererConfig {
+  /** Logical canvas size (defaults to 800x600) */
+  dimensions?: Dimensions;
+  /** Frames kept in the history; older frames are dropped (defaults to all) */
+  maxFrames?: number;
+}
+
+/**
+ * Drawing state saved and restored by save()/restore()
+ */
+interface ContextState {
+  transform: Transform2D;
+  fillStyle: CanvasStyle;
+  strokeStyle: CanvasStyle;
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  lineDash: number[];
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  imageSmoothingEnabled: boolean;
+}
+
+type PathKind = 'empty' | 'rect' | 'circle' | 'path';
+
+type CanvasStyle = string | CanvasGradient | CanvasPattern;
+
+// =========================================================
+// Constants
+// =========================================================
+
+const DEFAULT_DIMENSIONS: Dimensions = { width: 800, height: 600 };
+const DEFAULT_LAYER = 'default';
+
+// Approximate glyph width as a fraction of the font size, for measureText
+const GLYPH_WIDTH_RATIO = 0.6;
+const DEFAULT_FONT_SIZE = 10;
+
+// =========================================================
+// Recording Context
+// =========================================================
+
+/**
+ * Records the DrawingContext subset of the canvas API, plus measureText
+ */
+export class RecordingContext implements DrawingContext {
+  public readonly canvas: Dimensions;
+  public fillStyle: CanvasStyle;
+  public strokeStyle: CanvasStyle;
+  public globalAlpha: number;
+  public globalCompositeOperation: GlobalCompositeOperation;
+  public lineWidth: number;
+  public lineCap: CanvasLineCap;
+  public lineJoin: CanvasLineJoin;
+  public font: string;
+  public textAlign: CanvasTextAlign;
+  public textBaseline: CanvasTextBaseline;
+  public imageSmoothingEnabled: boolean;
+
+  /** Layer attributed to new commands */
+  public layer: string | null;
+  /** Tag attributed to new commands */
+  public tag: string | null;
+
+  private transformMatrix: Transform2D;
+  private lineDash: number[];
+  private stack: ContextState[];
+  private pathPoints: Point2D[];
+  private pathKind: PathKind;
+  private commands: DrawCommand[];
+
+  /**
+   * Creates a new RecordingContext
+   * @param canvas - Size reported as `context.canvas`
+   */
+  constructor(canvas: Dimensions) {
+    this.canvas = { ...canvas };
+    this.fillStyle = '#000000';
+    this.strokeStyle = '#000000';
+    this.globalAlpha = 1;
+    this.globalCompositeOperation = 'source-over';
+    this.lineWidth = 1;
+    this.lineCap = 'butt';
+    this.lineJoin = 'miter';
+    this.font = `${DEFAULT_FONT_SIZE}px sans-serif`;
+    this.textAlign = 'start';
+    this.textBaseline = 'alphabetic';
+    this.imageSmoothingEnabled = true;
+    this.layer = null;
+    this.tag = null;
+    this.transformMatrix = identity();
+    this.lineDash = [];
+    this.stack = [];
+    this.pathPoints = [];
+    this.pathKind = 'empty';
+    this.commands = [];
+  }
+
+  /**
+   * Removes and returns the commands recorded so far
+   */
+  public takeCommands(): DrawCommand[] {
+    const commands = this.commands;
+    this.commands = [];
+    return commands;
+  }
+
+  /**
+   * Gets the number of unmatched save() calls
+   */
+  public getStackDepth(): number {
+    return this.stack.length;
+  }
+
+  // ---- State ----
+
+  public save(): void {
+    this.stack.push({
+      transform: this.transformMatrix,
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
+      lineWidth: this.lineWidth,
+      lineCap: this.lineCap,
+      lineJoin: this.lineJoin,
+      lineDash: this.lineDash,
+      font: this.font,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+      imageSmoothingEnabled: this.imageSmoothingEnabled
+    });
+  }
+
+  public restore(): void {
+    const state = this.stack.pop();
+    if (!state) {
+      return;
+    }
+
+    this.transformMatrix = state.transform;
+    this.fillStyle = state.fillStyle;
+    this.strokeStyle = state.strokeStyle;
+    this.globalAlpha = state.globalAlpha;
+    this.globalCompositeOperation = state.globalCompositeOperation;
+    this.lineWidth = state.lineWidth;
+    this.lineCap = state.lineCap;
+    this.lineJoin = state.lineJoin;
+    this.lineDash = state.lineDash;
+    this.font = state.font;
+    this.textAlign = state.textAlign;
+    this.textBaseline = state.textBaseline;
+    this.imageSmoothingEnabled = state.imageSmoothingEnabled;
+  }
+
+  public setLineDash(segments: number[]): void {
+    this.lineDash = [...segments];
+  }
+
+  public getLineDash(): number[] {
+    return [...this.lineDash];
+  }
+
+  // ---- Transforms ----
+
+  public translate(x: number, y: number): void {
+    this.transform(...translation(x, y));
+  }
+
+  public rotate(angle: number): void {
+    this.transform(...rotation(angle));
+  }
+
+  public scale(x: number, y: number): void {
+    this.transform(...scaling(x, y));
+  }
+
+  public transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.transformMatrix = multiply(this.transformMatrix, [a, b, c, d, e, f]);
+  }
+
+  public setTransform(a?: number | DOMMatrix2DInit, b = 0, c = 0, d = 1, e = 0, f = 0): void {
+    if (typeof a === 'number') {
+      this.transformMatrix = [a, b, c, d, e, f];
+      return;
+    }
+
+    const matrix = a ?? {};
+    this.transformMatrix = [
+      matrix.a ?? 1,
+      matrix.b ?? 0,
+      matrix.c ?? 0,
+      matrix.d ?? 1,
+      matrix.e ?? 0,
+      matrix.f ?? 0
+    ];
+  }
+
+  public resetTransform(): void {
+    this.transformMatrix = identity();
+  }
+
+  public getTransform(): { a: number; b: number; c: number; d: number; e: number; f: number } {
+    const [a, b, c, d, e, f] = this.transformMatrix;
+    return { a, b, c, d, e, f };
+  }
+
+  // ---- Paths ----
+
+  public beginPath(): void {
+    this.pathPoints = [];
+    this.pathKind = 'empty';
+  }
+
+  public closePath(): void {
+    // Closing adds no new extent
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.addPathPoints('path', [{ x, y }]);
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.addPathPoints('path', [{ x, y }]);
+  }
+
+  public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.addPathPoints('path', [{ x: cpx, y: cpy }, { x, y }]);
+  }
+
+  public bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.addPathPoints('path', [{ x: cp1x, y: cp1y }, { x: cp2x, y: cp2y }, { x, y }]);
+  }
+
+  public arcTo(x1: number, y1: number, x2: number, y2: number): void {
+    this.addPathPoints('path', [{ x: x1, y: y1 }, { x: x2, y: y2 }]);
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.addPathPoints('rect', this.rectCorners(x, y, width, height));
+  }
+
+  public arc(x: number, y: number, radius: number): void {
+    // The bounding square of the full circle; partial arcs are recorded by their circle
+    this.addPathPoints('circle', this.rectCorners(x - radius, y - radius, radius * 2, radius * 2));
+  }
+
+  public ellipse(x: number, y: number, radiusX: number, radiusY: number): void {
+    this.addPathPoints('circle', this.rectCorners(x - radiusX, y - radiusY, radiusX * 2, radiusY * 2));
+  }
+
+  public fill(): void {
+    this.recordPath('fill', this.fillStyle);
+  }
+
+  public stroke(): void {
+    this.recordPath('stroke', this.strokeStyle);
+  }
+
+  public clip(): void {
+    // Clipping is not recorded; it does not draw anything itself
+  }
+
+  // ---- Rectangles ----
+
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    this.record('rect', 'fill', this.rectCorners(x, y, width, height), this.fillStyle);
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number): void {
+    this.record('rect', 'stroke', this.rectCorners(x, y, width, height), this.strokeStyle);
+  }
+
+  public clearRect(x: number, y: number, width: number, height: number): void {
+    this.record('rect', 'clear', this.rectCorners(x, y, width, height), null);
+  }
+
+  // ---- Images and Text ----
+
+  public drawImage(image: CanvasImageSource, ...args: number[]): void {
+    let x: number;
+    let y: number;
+    let width = 'width' in image && typeof image.width === 'number' ? image.width : 0;
+    let height = 'height' in image && typeof image.height === 'number' ? image.height : 0;
+
+    if (args.length >= 8) {
+      [, , , , x, y, width, height] = args;
+    } else if (args.length >= 4) {
+      [x, y, width, height] = args;
+    } else {
+      [x, y] = args;
+    }
+
+    this.record('image', 'image', this.rectCorners(x, y, width, height), null);
+  }
+
+  public fillText(text: string, x: number, y: number): void {
+    this.recordText(text, x, y, this.fillStyle);
+  }
+
+  public strokeText(text: string, x: number, y: number): void {
+    this.recordText(text, x, y, this.strokeStyle);
+  }
+
+  public measureText(text: string): { width: number } {
+    return { width: text.length * this.getFontSize() * GLYPH_WIDTH_RATIO };
+  }
+
+  // ---- Styles ----
+
+  public createLinearGradient(): { addColorStop(offset: number, color: string): void } {
+    return { addColorStop: () => undefined };
+  }
+
+  public createRadialGradient(): { addColorStop(offset: number, color: string): void } {
+    return { addColorStop: () => undefined };
+  }
+
+  public createPattern(): null {
+    return null;
+  }
+
+  // ---- Private Methods ----
+
+  private rectCorners(x: number, y: number, width: number, height: number): Point2D[] {
+    return [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ];
+  }
+
+  private addPathPoints(kind: PathKind, points: Point2D[]): void {
+    // A path is only a plain rect or circle if that is all it contains
+    this.pathKind = this.pathKind === 'empty' ? kind : 'path';
+    for (const point of points) {
+      this.pathPoints.push(transformPoint(this.transformMatrix, point));
+    }
+  }
+
+  private recordPath(mode: DrawMode, style: CanvasStyle): void {
+    if (this.pathKind === 'empty') {
+      return;
+    }
+    this.commands.push(this.createCommand(this.pathKind as DrawShape, mode, this.pathPoints, style));
+  }
+
+  private record(shape: DrawShape, mode: DrawMode, localPoints: Point2D[], style: CanvasStyle | null): void {
+    const points = localPoints.map(point => transformPoint(this.transformMatrix, point));
+    this.commands.push(this.createCommand(shape, mode, points, style));
+  }
+
+  private recordText(text: string, x: number, y: number, style: CanvasStyle): void {
+    const width = this.measureText(text).width;
+    const height = this.getFontSize();
+    const left = this.textAlign === 'center' ? x - width / 2
+      : this.textAlign === 'right' || this.textAlign === 'end' ? x - width
+      : x;
+    const top = this.textBaseline === 'top' ? y
+      : this.textBaseline === 'middle' ? y - height / 2
+      : y - height;
+
+    const points = this.rectCorners(left, top, width, height).map(point => transformPoint(this.transformMatrix, point));
+    this.commands.push({ ...this.createCommand('text', 'text', points, style), text });
+  }
+
+  private createCommand(shape: DrawShape, mode: DrawMode, points: Point2D[], style: CanvasStyle | null): DrawCommand {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+
+    return {
+      shape,
+      mode,
+      bounds: { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y },
+      color: typeof style === 'string' ? style : null,
+      alpha: this.globalAlpha,
+      layer: this.layer,
+      tag: this.tag
+    };
+  }
+
+  private getFontSize(): number {
+    const match = /(\d+(?:\.\d+)?)px/.exec(this.font);
+    return match ? parseFloat(match[1]) : DEFAULT_FONT_SIZE;
+  }
+}
+
+// =========================================================
+// Recording Surface
+// =========================================================
+
+/**
+ * Render surface backed by a RecordingContext, with no DOM required
+ */
+export class RecordingSurface implements RenderSurface {
+  public readonly context: RecordingContext;
+  private readonly size: Dimensions;
+
+  /**
+   * Creates a new RecordingSurface
+   * @param dimensions - Size in drawing coordinates, also used as the backing size
+   */
+  constructor(dimensions: Dimensions) {
+    this.size = { ...dimensions };
+    this.context = new RecordingContext(this.size);
+  }
+
+  public getContext(): RecordingContext {
+    return this.context;
+  }
+
+  public getDimensions(): Dimensions {
+    return { ...this.size };
+  }
+
+  public getElement(): Dimensions {
+    return { ...this.size };
+  }
+
+  /**
+   * Records a full-canvas clear, or a fill with the given color
+   * @param color - Clear color; transparent if omitted
+   */
+  public clear(color?: string): void {
+    const { width, height } = this.size;
+    this.context.save();
+    this.context.resetTransform();
+    if (color) {
+      this.context.fillStyle = color;
+      this.context.fillRect(0, 0, width, height);
+    } else {
+      this.context.clearRect(0, 0, width, height);
+    }
+    this.context.restore();
+  }
+}
+
+// =========================================================
+// Main RecordingRenderer Class
+// =========================================================
+
+/**
+ * A SceneRenderer drawing into a RecordingContext, so tests run the
+ * production layer, ordering and interpolation code
+ */
+export class RecordingRenderer extends SceneRenderer {
+  public readonly recorder: RecordingContext;
+  private maxFrames: number;
+  private frames: RecordedFrame[];
+  private frameCount: number;
+  private frameObjects: RecordedFrame['objects'];
+
+  /**
+   * Creates a new RecordingRenderer
+   * @param config - Size, history and scene renderer settings
+   */
+  constructor(config: RecordingRendererConfig = {}) {
+    const { dimensions, maxFrames, ...sceneConfig } = config;
+    const surface = new RecordingSurface(dimensions ?? DEFAULT_DIMENSIONS);
+
+    super(surface, { ...sceneConfig, layers: sceneConfig.layers ?? [{ id: DEFAULT_LAYER }] });
+
+    this.recorder = surface.context;
+    this.maxFrames = maxFrames ?? Infinity;
+    this.frames = [];
+    this.frameCount = 0;
+    this.frameObjects = [];
+  }
+
+  /**
+   * Begins a new recorded frame; draws made since the last frame are dropped
+   * @throws {CanvasError} If a frame is already in progress
+   */
+  public beginFrame(): void {
+    this.startRecording();
+    super.beginFrame();
+  }
+
+  /**
+   * Ends the current frame and adds it to the history
+   * @throws {CanvasError} If no frame is in progress
+   */
+  public endFrame(): void {
+    super.endFrame();
+
+    this.frames.push({
+      index: this.frameCount++,
+      commands: this.recorder.takeCommands(),
+      objects: this.frameObjects
+    });
+    if (this.frames.length > this.maxFrames) {
+      this.frames.shift();
+    }
+  }
+
+  /**
+   * Records one frame of every visible layer
+   * @param interpolation - Blend factor between the last two fixed updates (0-1)
+   */
+  public render(interpolation: number = 1): void {
+    this.startRecording();
+    super.render(interpolation);
+  }
+
+  /**
+   * Attributes draws made inside a callback to a tag
+   * @param tag - Tag recorded on the commands
+   * @param draw - Drawing code
+   */
+  public withTag(tag: string, draw: () => void): void {
+    const previous = this.recorder.tag;
+    this.recorder.tag = tag;
+    try {
+      draw();
+    } finally {
+      this.recorder.tag = previous;
+    }
+  }
+
+  // =========================================================
+  // Queries
+  // =========================================================
+
+  /**
+   * Gets a recorded frame
+   * @param index - Zero-based frame number
+   * @returns The frame, or undefined if it was never recorded or was dropped from the history
+   */
+  public getFrame(index: number): RecordedFrame | undefined {
+    return this.frames.find(frame => frame.index === index);
+  }
+
+  /**
+   * Gets the most recently completed frame
+   */
+  public getLastFrame(): RecordedFrame | undefined {
+    return this.frames[this.frames.length - 1];
+  }
+
+  /**
+   * Gets the frames kept in the history, oldest first
+   */
+  public getFrames(): RecordedFrame[] {
+    return [...this.frames];
+  }
+
+  /**
+   * Gets the number of frames recorded so far, including dropped ones
+   */
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * Counts commands in a frame that match a filter
+   * @param filter - Predicate or fields to match
+   * @param frame - Frame to search (defaults to the last frame)
+   */
+  public countCommands(filter: CommandFilter, frame: RecordedFrame | undefined = this.getLastFrame()): number {
+    return frame ? frame.commands.filter(command => matchesFilter(command, filter)).length : 0;
+  }
+
+  /**
+   * Counts the objects drawn in a frame with a given tag
+   * @param tag - Object tag, by default its class name
+   * @param frame - Frame to search (defaults to the last frame)
+   */
+  public countObjects(tag: string, frame: RecordedFrame | undefined = this.getLastFrame()): number {
+    return frame ? frame.objects.filter(object => object.tag === tag).length : 0;
+  }
+
+  /**
+   * Drops the recorded history
+   */
+  public reset(): void {
+    this.frames = [];
+    this.frameCount = 0;
+    this.recorder.takeCommands();
+  }
+
+  // =========================================================
+  // Protected Methods
+  // =========================================================
+
+  /**
+   * Attributes the object's draws to its layer and tag
+   */
+  protected drawObject(layer: RenderLayer, object: ISceneObject): void {
+    const previousLayer = this.recorder.layer;
+    const previousTag = this.recorder.tag;
+    const tag = getObjectTag(object);
+
+    this.recorder.layer = layer.id;
+    this.recorder.tag = tag;
+    try {
+      super.drawObject(layer, object);
+      this.frameObjects.push({ tag, layer: layer.id });
+    } finally {
+      this.recorder.layer = previousLayer;
+      this.recorder.tag = previousTag;
+    }
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private startRecording(): void {
+    this.frameObjects = [];
+    this.recorder.takeCommands();
+  }
+}
+
+// =========================================================
+// Serialization
+// =========================================================
+
+/**
+ * Formats a command as one stable line, e.g. for golden-file diffs
+ * @param command - Command to format
+ * @param precision - Decimal places kept for coordinates (defaults to 2)
+ */
+export function formatCommand(command: DrawCommand, precision: number = 2): string {
+  const num = (value: number) => String(Number(value.toFixed(precision)));
+  const { x, y, width, height } = command.bounds;
+  const parts = [
+    `[${command.layer ?? '-'}]`,
+    command.tag ?? '-',
+    `${command.mode} ${command.shape}`,
+    `${num(x)},${num(y)} ${num(width)}x${num(height)}`
+  ];
+
+  if (command.color) {
+    parts.push(command.color);
+  }
+  if (command.alpha !== 1) {
+    parts.push(`alpha=${num(command.alpha)}`);
+  }
+  if (command.text !== undefined) {
+    parts.push(JSON.stringify(command.text));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Formats commands one per line
+ * @param commands - Commands to format
+ * @param precision - Decimal places kept for coordinates (defaults to 2)
+ */
+export function serializeCommands(commands: DrawCommand[], precision: number = 2): string {
+  return commands.map(command => formatCommand(command, precision)).join('\n');
+}
+
+// =========================================================
+// Private Helpers
+// =========================================================
+
+function matchesFilter(command: DrawCommand, filter: CommandFilter): boolean {
+  if (typeof filter === 'function') {
+    return filter(command);
+  }
+  return (Object.keys(filter) as Array<keyof typeof filter>)
+    .every(key => command[key] === filter[key]);
+}
+
+/**
+ * Gets an object's `tag` property if it has one, otherwise its class name
+ */
+function getObjectTag(object: IRenderableObject): string | null {
+  const tag = (object as { tag?: unknown }).tag;
+  if (typeof tag === 'string') {
+    return tag;
+  }
+  const name = object.constructor?.name;
+  return name && name !== 'Object' ? name : null;
+}
+
+export default RecordingRenderer;
@@ -0,0 +1,873 @@
+/**
+ * @file Renderer.ts
+ * @description Layered scene renderer implementing IRenderingContext on top of a
+ * render surface: a Canvas in the browser, or a recording surface in headless tests.
+ * Owns an ordered stack of render layers and draws their objects with per-layer
+ * blend mode and opacity, and per-object z-order, rotation and opacity.
+ * Static layers can be cached offscreen, and the playfield can be redrawn
+ * region by region instead of clearing the whole canvas every frame.
+ * @module engine/Renderer
+ */
+
+import { toCssColor } from './Color';
+import {
+  CanvasError,
+  Color,
+  Dimensions,
+  DrawingContext,
+  IRenderableObject,
+  IRenderingContext,
+  ISceneObject,
+  Rect,
+  RenderLayer,
+  isInterpolatable,
+  isSceneObject
+} from './types';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Options for creating a layer; omitted properties use layer defaults
+ */
+export type RenderLayerConfig = Pick<RenderLayer, 'id'> & Partial<Omit<RenderLayer, 'id'>>;
+
+/**
+ * What the scene renderer draws on; `Canvas` satisfies it
+ */
+export interface RenderSurface {
+  /** Context to draw with, or null if none is available */
+  getContext(): DrawingContext | null;
+  /** Size in drawing coordinates */
+  getDimensions(): Dimensions;
+  /** Backing store; a change in its size invalidates caches and the previous frame */
+  getElement(): Dimensions;
+  /** Clears the whole surface to a color, or to transparent */
+  clear(color?: string): void;
+}
+
+/**
+ * Configuration options for the scene renderer
+ */
+export interface SceneRendererConfig {
+  /** Layers from back to front (defaults to DEFAULT_RENDER_LAYERS) */
+  layers?: RenderLayerConfig[];
+  /** Color used to clear the canvas each frame, e.g. `getPalette().background`; transparent if omitted */
+  backgroundColor?: string | Color;
+  /** Redraw only the regions that changed since the previous frame */
+  dirtyRects?: boolean;
+  /** Fraction of the canvas above which a dirty-rect frame becomes a full redraw (defaults to 0.5) */
+  dirtyRectThreshold?: number;
+}
+
+/**
+ * Per-frame rendering statistics
+ */
+export interface RenderStats {
+  frameCount: number;
+  layersDrawn: number;
+  objectsDrawn: number;
+  /** Cached layers composited without re-rendering */
+  cacheHits: number;
+  /** Cached layers re-rendered because they were dirty */
+  cacheRedraws: number;
+  /** Regions redrawn in a dirty-rect frame; 0 on full redraws */
+  dirtyRects: number;
+  /** Whether the whole canvas was cleared and redrawn */
+  fullRedraw: boolean;
+}
+
+/**
+ * Offscreen canvas holding a cached layer
+ */
+interface LayerCache {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  dirty: boolean;
+}
+
+/**
+ * What an object looked like when it was last drawn
+ */
+interface ObjectSnapshot {
+  bounds: Rect;
+  opacity: number;
+  rotation: number;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+/**
+ * Standard layer stack from back to front
+ */
+export const DEFAULT_RENDER_LAYERS: RenderLayerConfig[] = [
+  { id: 'background', name: 'Background' },
+  { id: 'enemies', name: 'Enemies' },
+  { id: 'projectiles', name: 'Projectiles' },
+  { id: 'effects', name: 'Effects', blendMode: 'lighter' },
+  { id: 'hud', name: 'HUD' }
+];
+
+const DEFAULT_DIRTY_RECT_THRESHOLD = 0.5;
+
+// Padding around object bounds so anti-aliased edges are cleared too
+const BOUNDS_PADDING = 1;
+
+// =========================================================
+// Main SceneRenderer Class
+// =========================================================
+
+export class SceneRenderer implements IRenderingContext {
+  public interpolation: number;
+  private readonly mainContext: DrawingContext;
+  private activeContext: DrawingContext;
+  private surface: RenderSurface;
+  private layers: RenderLayer[];
+  private backgroundColor?: string;
+  private inFrame: boolean;
+  private stats: RenderStats;
+  private caches: Map<string, LayerCache>;
+  private dirtyRectsEnabled: boolean;
+  private dirtyRectThreshold: number;
+  private snapshots: Map<IRenderableObject, ObjectSnapshot>;
+  private invalidObjects: Set<IRenderableObject>;
+  private invalidRects: Rect[];
+  private fullRedrawPending: boolean;
+  private lastBackingSize: Dimensions;
+
+  /**
+   * Creates a new SceneRenderer
+   * @param surface - Canvas or other surface to draw on
+   * @param config - Layer stack, clear color and dirty-rect settings
+   * @throws {CanvasError} If the surface has no 2D context
+   */
+  constructor(surface: RenderSurface, config: SceneRendererConfig = {}) {
+    const context = surface.getContext();
+    if (!context) {
+      throw new CanvasError('SceneRenderer requires a surface with a 2D context');
+    }
+
+    this.surface = surface;
+    this.mainContext = context;
+    this.activeContext = context;
+    this.interpolation = 1;
+    this.layers = [];
+    this.backgroundColor = config.backgroundColor !== undefined
+      ? toCssColor(config.backgroundColor)
+      : undefined;
+    this.inFrame = false;
+    this.stats = this.createStats(0);
+    this.caches = new Map();
+    this.dirtyRectsEnabled = config.dirtyRects ?? false;
+    this.dirtyRectThreshold = config.dirtyRectThreshold ?? DEFAULT_DIRTY_RECT_THRESHOLD;
+    this.snapshots = new Map();
+    this.invalidObjects = new Set();
+    this.invalidRects = [];
+    this.fullRedrawPending = true;
+    this.lastBackingSize = { width: 0, height: 0 };
+
+    (config.layers ?? DEFAULT_RENDER_LAYERS).forEach(layer => this.addLayer(layer));
+  }
+
+  /**
+   * Context objects draw into; points at a layer cache while one is being rendered
+   */
+  public get context(): DrawingContext {
+    return this.activeContext;
+  }
+
+  /**
+   * Canvas dimensions in drawing coordinates
+   */
+  public get dimensions(): Dimensions {
+    return this.surface.getDimensions();
+  }
+
+  // =========================================================
+  // IRenderingContext
+  // =========================================================
+
+  /**
+   * Clears the entire canvas to the background color
+   */
+  public clear(): void {
+    this.surface.clear(this.backgroundColor);
+  }
+
+  /**
+   * Sets the clear color, e.g. after a palette switch
+   * @param color - Background color, or undefined for transparent
+   */
+  public setBackgroundColor(color: string | Color | undefined): void {
+    this.backgroundColor = color !== undefined ? toCssColor(color) : undefined;
+    this.fullRedrawPending = true;
+  }
+
+  /**
+   * Begins a new render frame
+   * @throws {CanvasError} If a frame is already in progress
+   */
+  public beginFrame(): void {
+    this.startFrame();
+    this.clear();
+    // Pixels drawn outside render() are unknown to dirty-rect tracking
+    this.fullRedrawPending = true;
+  }
+
+  /**
+   * Ends the current render frame
+   * @throws {CanvasError} If no frame is in progress
+   */
+  public endFrame(): void {
+    if (!this.inFrame) {
+      throw new CanvasError('endFrame called without a matching beginFrame');
+    }
+
+    this.mainContext.restore();
+    this.inFrame = false;
+  }
+
+  // =========================================================
+  // Rendering
+  // =========================================================
+
+  /**
+   * Renders every visible layer from back to front as one frame.
+   * Objects implementing IInterpolatable are drawn at their interpolated transform;
+   * cached layers are drawn at their current transform when re-rendered.
+   * @param interpolation - Alpha between the last two fixed updates (0-1)
+   */
+  public render(interpolation: number = 1): void {
+    this.interpolation = Math.max(0, Math.min(1, interpolation));
+    this.startFrame();
+
+    try {
+      const cachesRedrawn = this.refreshCaches();
+      const current = this.captureSnapshots();
+      const resized = this.checkBackingSize();
+
+      const regions = this.dirtyRectsEnabled && !this.fullRedrawPending && !cachesRedrawn && !resized
+        ? this.collectDirtyRegions(current)
+        : null;
+
+      this.snapshots = current;
+      this.invalidObjects.clear();
+      this.invalidRects = [];
+      this.fullRedrawPending = false;
+
+      if (regions === null) {
+        this.stats.fullRedraw = true;
+        this.clear();
+        for (const layer of this.layers) {
+          this.renderLayer(layer, null);
+        }
+      } else if (regions.length > 0) {
+        this.renderRegions(regions);
+      }
+    } finally {
+      this.endFrame();
+    }
+  }
+
+  /**
+   * Gets statistics for the most recent frame
+   */
+  public getStats(): RenderStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Marks a layer as changed. Cached layers re-render their offscreen canvas on the
+   * next frame; in dirty-rect mode any other layer forces a full redraw.
+   * @param layerId - Layer id
+   */
+  public markDirty(layerId: string): void {
+    const layer = this.requireLayer(layerId);
+    const cache = this.caches.get(layer.id);
+
+    if (layer.cached && cache) {
+      cache.dirty = true;
+    } else {
+      this.fullRedrawPending = true;
+    }
+  }
+
+  /**
+   * Redraws an object in the next dirty-rect frame even if its bounds did not
+   * change, e.g. after its sprite advanced a frame
+   * @param object - Object whose appearance changed
+   */
+  public invalidateObject(object: IRenderableObject): void {
+    this.invalidObjects.add(object);
+  }
+
+  /**
+   * Redraws a canvas region in the next dirty-rect frame
+   * @param rect - Region in drawing coordinates
+   */
+  public invalidateRect(rect: Rect): void {
+    this.invalidRects.push({ ...rect });
+  }
+
+  /**
+   * Redraws the whole canvas on the next frame, e.g. after something else drew over it
+   */
+  public invalidateAll(): void {
+    this.fullRedrawPending = true;
+  }
+
+  /**
+   * Enables or disables dirty-rect rendering; the next frame is always a full redraw
+   * @param enabled - Whether to redraw only changed regions
+   */
+  public setDirtyRects(enabled: boolean): void {
+    this.dirtyRectsEnabled = enabled;
+    this.fullRedrawPending = true;
+  }
+
+  // =========================================================
+  // Layer Management
+  // =========================================================
+
+  /**
+   * Adds a layer to the stack
+   * @param config - Layer configuration
+   * @param index - Position in the stack (defaults to the front)
+   * @returns The created layer
+   * @throws {CanvasError} If a layer with the same id exists
+   */
+  public addLayer(config: RenderLayerConfig, index: number = this.layers.length): RenderLayer {
+    if (this.layers.some(layer => layer.id === config.id)) {
+      throw new CanvasError(`Render layer '${config.id}' already exists`);
+    }
+
+    const layer: RenderLayer = {
+      name: config.id,
+      visible: true,
+      opacity: 1,
+      blendMode: 'source-over',
+      objects: [],
+      cached: false,
+      ...config
+    };
+    layer.objects = [...layer.objects];
+
+    this.layers.splice(Math.max(0, Math.min(index, this.layers.length)), 0, layer);
+    this.fullRedrawPending = true;
+    return layer;
+  }
+
+  /**
+   * Removes a layer and its objects
+   * @param id - Layer id
+   * @returns True if the layer existed
+   */
+  public removeLayer(id: string): boolean {
+    const index = this.layers.findIndex(layer => layer.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.layers.splice(index, 1);
+    this.caches.delete(id);
+    this.fullRedrawPending = true;
+    return true;
+  }
+
+  /**
+   * Gets a layer by id
+   * @param id - Layer id
+   * @returns The layer or undefined
+   */
+  public getLayer(id: string): RenderLayer | undefined {
+    return this.layers.find(layer => layer.id === id);
+  }
+
+  /**
+   * Gets the layer ids from back to front
+   */
+  public getLayerOrder(): string[] {
+    return this.layers.map(layer => layer.id);
+  }
+
+  /**
+   * Sets layer visibility
+   * @param id - Layer id
+   * @param visible - Whether the layer is drawn
+   */
+  public setLayerVisible(id: string, visible: boolean): void {
+    this.requireLayer(id).visible = visible;
+    this.fullRedrawPending = true;
+  }
+
+  /**
+   * Sets layer opacity
+   * @param id - Layer id
+   * @param opacity - Opacity from 0 to 1
+   */
+  public setLayerOpacity(id: string, opacity: number): void {
+    this.requireLayer(id).opacity = Math.max(0, Math.min(1, opacity));
+    this.fullRedrawPending = true;
+  }
+
+  /**
+   * Sets the layer blend mode
+   * @param id - Layer id
+   * @param blendMode - Composite operation used for the layer's objects
+   */
+  public setLayerBlendMode(id: string, blendMode: GlobalCompositeOperation): void {
+    this.requireLayer(id).blendMode = blendMode;
+    this.fullRedrawPending = true;
+  }
+
+  /**
+   * Enables or disables offscreen caching for a layer
+   * @param id - Layer id
+   * @param cached - Whether the layer is cached
+   */
+  public setLayerCached(id: string, cached: boolean): void {
+    this.requireLayer(id).cached = cached;
+    this.caches.delete(id);
+    this.fullRedrawPending = true;
+  }
+
+  // =========================================================
+  // Object Management
+  // =========================================================
+
+  /**
+   * Adds an object to a layer
+   * @param layerId - Layer id
+   * @param object - Object to draw
+   */
+  public addObject(layerId: string, object: IRenderableObject): void {
+    const layer = this.requireLayer(layerId);
+    if (!layer.objects.includes(object)) {
+      layer.objects.push(object);
+      this.markCacheDirty(layer);
+    }
+  }
+
+  /**
+   * Removes an object from a layer
+   * @param layerId - Layer id
+   * @param object - Object to remove
+   * @returns True if the object was in the layer
+   */
+  public removeObject(layerId: string, object: IRenderableObject): boolean {
+    const layer = this.requireLayer(layerId);
+    const index = layer.objects.indexOf(object);
+    if (index === -1) {
+      return false;
+    }
+    layer.objects.splice(index, 1);
+    this.markCacheDirty(layer);
+    return true;
+  }
+
+  /**
+   * Removes every object from a layer
+   * @param layerId - Layer id
+   */
+  public clearLayer(layerId: string): void {
+    const layer = this.requireLayer(layerId);
+    layer.objects.length = 0;
+    this.markCacheDirty(layer);
+  }
+
+  // =========================================================
+  // Protected Methods
+  // =========================================================
+
+  /**
+   * Draws one object; the context is already moved to the object's origin.
+   * Subclasses can override this to observe each draw.
+   * @param layer - Layer being drawn
+   * @param object - Object to draw
+   */
+  protected drawObject(layer: RenderLayer, object: ISceneObject): void {
+    object.draw(this);
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private requireLayer(id: string): RenderLayer {
+    const layer = this.getLayer(id);
+    if (!layer) {
+      throw new CanvasError(`Render layer '${id}' not found`);
+    }
+    return layer;
+  }
+
+  private createStats(frameCount: number): RenderStats {
+    return {
+      frameCount,
+      layersDrawn: 0,
+      objectsDrawn: 0,
+      cacheHits: 0,
+      cacheRedraws: 0,
+      dirtyRects: 0,
+      fullRedraw: false
+    };
+  }
+
+  private startFrame(): void {
+    if (this.inFrame) {
+      throw new CanvasError('beginFrame called before the previous frame ended');
+    }
+
+    this.inFrame = true;
+    this.stats = this.createStats(this.stats.frameCount + 1);
+    this.mainContext.save();
+  }
+
+  private markCacheDirty(layer: RenderLayer): void {
+    const cache = this.caches.get(layer.id);
+    if (cache) {
+      cache.dirty = true;
+    }
+  }
+
+  /**
+   * Detects backing store changes (resize, resolution or DPR), which invalidate
+   * every cache and the previous frame's pixels
+   */
+  private checkBackingSize(): boolean {
+    const element = this.surface.getElement();
+    const resized = element.width !== this.lastBackingSize.width ||
+      element.height !== this.lastBackingSize.height;
+
+    this.lastBackingSize = { width: element.width, height: element.height };
+    return resized;
+  }
+
+  /**
+   * Re-renders dirty layer caches offscreen
+   * @returns True if any cache was redrawn
+   */
+  private refreshCaches(): boolean {
+    const element = this.surface.getElement();
+    let redrawn = false;
+
+    for (const layer of this.layers) {
+      if (!layer.cached || !layer.visible) {
+        continue;
+      }
+
+      let cache = this.caches.get(layer.id);
+      if (!cache || cache.canvas.width !== element.width || cache.canvas.height !== element.height) {
+        cache = this.createCache(element.width, element.height);
+        this.caches.set(layer.id, cache);
+      }
+
+      if (!cache.dirty) {
+        this.stats.cacheHits++;
+        continue;
+      }
+
+      const ctx = cache.context;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, cache.canvas.width, cache.canvas.height);
+      ctx.setTransform(this.mainContext.getTransform());
+
+      this.activeContext = ctx;
+      try {
+        this.drawObjects(layer, null, 1);
+      } finally {
+        this.activeContext = this.mainContext;
+      }
+
+      cache.dirty = false;
+      this.stats.cacheRedraws++;
+      redrawn = true;
+    }
+
+    return redrawn;
+  }
+
+  private createCache(width: number, height: number): LayerCache {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new CanvasError('Failed to create layer cache context');
+    }
+
+    return { canvas, context, dirty: true };
+  }
+
+  /**
+   * Records where each drawable object in an uncached visible layer will be drawn
+   */
+  private captureSnapshots(): Map<IRenderableObject, ObjectSnapshot> {
+    const snapshots = new Map<IRenderableObject, ObjectSnapshot>();
+
+    for (const layer of this.layers) {
+      if (layer.cached || !layer.visible || layer.opacity <= 0) {
+        continue;
+      }
+
+      for (const object of layer.objects) {
+        if (!object.visible || object.opacity <= 0 || !isSceneObject(object)) {
+          continue;
+        }
+
+        const { position, rotation } = this.getRenderTransform(object);
+        snapshots.set(object, {
+          bounds: this.getBounds(object, position.x, position.y, rotation),
+          opacity: object.opacity,
+          rotation
+        });
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Compares this frame's objects against the previous frame
+   * @returns Merged regions to redraw, or null if a full redraw is cheaper
+   */
+  private collectDirtyRegions(current: Map<IRenderableObject, ObjectSnapshot>): Rect[] | null {
+    const rects = [...this.invalidRects];
+
+    current.forEach((snapshot, object) => {
+      const previous = this.snapshots.get(object);
+      if (!previous) {
+        rects.push(snapshot.bounds);
+      } else if (this.invalidObjects.has(object) || !this.sameSnapshot(previous, snapshot)) {
+        rects.push(previous.bounds, snapshot.bounds);
+      }
+    });
+
+    // Objects that were removed or hidden leave their old area behind
+    this.snapshots.forEach((snapshot, object) => {
+      if (!current.has(object)) {
+        rects.push(snapshot.bounds);
+      }
+    });
+
+    const { width, height } = this.dimensions;
+    const regions = this.mergeRects(
+      rects
+        .map(rect => this.clipRect(rect, width, height))
+        .filter((rect): rect is Rect => rect !== null)
+    );
+
+    const area = regions.reduce((total, rect) => total + rect.width * rect.height, 0);
+    return area > width * height * this.dirtyRectThreshold ? null : regions;
+  }
+
+  private renderRegions(regions: Rect[]): void {
+    const ctx = this.mainContext;
+    this.stats.dirtyRects = regions.length;
+
+    ctx.save();
+    ctx.beginPath();
+    for (const region of regions) {
+      ctx.rect(region.x, region.y, region.width, region.height);
+    }
+    ctx.clip();
+
+    for (const region of regions) {
+      if (this.backgroundColor) {
+        ctx.fillStyle = this.backgroundColor;
+        ctx.fillRect(region.x, region.y, region.width, region.height);
+      } else {
+        ctx.clearRect(region.x, region.y, region.width, region.height);
+      }
+    }
+
+    for (const layer of this.layers) {
+      this.renderLayer(layer, regions);
+    }
+
+    ctx.restore();
+  }
+
+  private renderLayer(layer: RenderLayer, regions: Rect[] | null): void {
+    if (!layer.visible || layer.opacity <= 0) {
+      return;
+    }
+
+    const cache = layer.cached ? this.caches.get(layer.id) : undefined;
+    if (!cache && layer.objects.length === 0) {
+      return;
+    }
+
+    const ctx = this.mainContext;
+    ctx.save();
+    ctx.globalCompositeOperation = layer.blendMode;
+
+    if (cache) {
+      const { width, height } = this.dimensions;
+      ctx.globalAlpha = layer.opacity;
+      ctx.drawImage(cache.canvas, 0, 0, width, height);
+    } else {
+      this.drawObjects(layer, regions, layer.opacity);
+    }
+
+    ctx.restore();
+    this.stats.layersDrawn++;
+  }
+
+  /**
+   * Draws a layer's objects into the active context
+   * @param regions - When given, only objects touching these regions are drawn
+   * @param layerOpacity - Opacity multiplied into each object's opacity
+   */
+  private drawObjects(layer: RenderLayer, regions: Rect[] | null, layerOpacity: number): void {
+    // Stable sort keeps insertion order for equal z-indices
+    const objects = layer.objects
+      .map((object, order) => ({ object, order }))
+      .sort((a, b) => a.object.zIndex - b.object.zIndex || a.order - b.order);
+
+    const ctx = this.activeContext;
+
+    for (const { object } of objects) {
+      if (!object.visible || object.opacity <= 0 || !isSceneObject(object)) {
+        continue;
+      }
+
+      const { position, rotation } = this.getRenderTransform(object);
+
+      if (regions) {
+        const bounds = this.snapshots.get(object)?.bounds ??
+          this.getBounds(object, position.x, position.y, rotation);
+        if (!regions.some(region => this.intersects(region, bounds))) {
+          continue;
+        }
+      }
+
+      ctx.save();
+      ctx.globalAlpha = layerOpacity * Math.min(1, object.opacity);
+      ctx.translate(position.x, position.y);
+
+      if (rotation) {
+        const halfWidth = object.dimensions.width / 2;
+        const halfHeight = object.dimensions.height / 2;
+        ctx.translate(halfWidth, halfHeight);
+        ctx.rotate(rotation);
+        ctx.translate(-halfWidth, -halfHeight);
+      }
+
+      try {
+        this.drawObject(layer, object);
+        this.stats.objectsDrawn++;
+      } catch (error) {
+        console.error(`Error drawing object in layer '${layer.id}':`, error);
+      } finally {
+        ctx.restore();
+      }
+    }
+  }
+
+  private getRenderTransform(object: IRenderableObject): { position: { x: number; y: number }; rotation: number } {
+    if (isInterpolatable(object)) {
+      return {
+        position: object.getRenderPosition(this.interpolation),
+        rotation: object.getRenderRotation
+          ? object.getRenderRotation(this.interpolation)
+          : object.rotation ?? 0
+      };
+    }
+    return { position: object.position, rotation: object.rotation ?? 0 };
+  }
+
+  /**
+   * Conservative pixel-aligned bounds; rotated objects use their circumscribed square
+   */
+  private getBounds(object: IRenderableObject, x: number, y: number, rotation: number): Rect {
+    const { width, height } = object.dimensions;
+    let left = x;
+    let top = y;
+    let right = x + width;
+    let bottom = y + height;
+
+    if (rotation) {
+      const radius = Math.hypot(width, height) / 2;
+      const centerX = x + width / 2;
+      const centerY = y + height / 2;
+      left = centerX - radius;
+      top = centerY - radius;
+      right = centerX + radius;
+      bottom = centerY + radius;
+    }
+
+    left = Math.floor(left) - BOUNDS_PADDING;
+    top = Math.floor(top) - BOUNDS_PADDING;
+    return {
+      x: left,
+      y: top,
+      width: Math.ceil(right) + BOUNDS_PADDING - left,
+      height: Math.ceil(bottom) + BOUNDS_PADDING - top
+    };
+  }
+
+  private sameSnapshot(a: ObjectSnapshot, b: ObjectSnapshot): boolean {
+    return a.opacity === b.opacity &&
+      a.rotation === b.rotation &&
+      a.bounds.x === b.bounds.x &&
+      a.bounds.y === b.bounds.y &&
+      a.bounds.width === b.bounds.width &&
+      a.bounds.height === b.bounds.height;
+  }
+
+  private intersects(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width &&
+      a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+
+  private clipRect(rect: Rect, width: number, height: number): Rect | null {
+    const left = Math.max(0, rect.x);
+    const top = Math.max(0, rect.y);
+    const right = Math.min(width, rect.x + rect.width);
+    const bottom = Math.min(height, rect.y + rect.height);
+
+    if (right <= left || bottom <= top) {
+      return null;
+    }
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * Merges overlapping rectangles until none overlap
+   */
+  private mergeRects(rects: Rect[]): Rect[] {
+    const merged = [...rects];
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      for (let i = 0; i < merged.length && !changed; i++) {
+        for (let j = i + 1; j < merged.length; j++) {
+          if (this.intersects(merged[i], merged[j])) {
+            const a = merged[i];
+            const b = merged[j];
+            const left = Math.min(a.x, b.x);
+            const top = Math.min(a.y, b.y);
+            merged[i] = {
+              x: left,
+              y: top,
+              width: Math.max(a.x + a.width, b.x + b.width) - left,
+              height: Math.max(a.y + a.height, b.y + b.height) - top
+            };
+            merged.splice(j, 1);
+            changed = true;
+            break;
+          }
+        }
+      }
+    }
+
+    return merged;
+  }
+}
+
+export default SceneRenderer;
@@ -2,9 +2,14 @@
  * @file Sprite.ts
  * @description Implements a sprite rendering system for game objects.
  * Handles sprite creation, management, and rendering with support for
- * animations and transformations.
+ * atlas frames, named animation clips and transformations.
  */
 
+import { SpriteAtlas, AnimationClip } from './SpriteAtlas';
+import { getImage, isImageBroken, isImageElement, isImageReady, SpriteImage } from './ImageCache';
+import { DrawingContext } from './types';
+import { CollisionMask } from './collision/CollisionMask';
+
 // =========================================================
 // Types and Interfaces
 // =========================================================
@@ -13,37 +18,74 @@
  * Configuration options for creating a sprite
  */
 export interface SpriteConfig {
-  imageSource: string;
+  /** Sheet image URL; not needed when an atlas or image is given */
+  imageSource?: string;
+  /** Preloaded sheet image or canvas, e.g. from AssetLoader.getImage */
+  image?: SpriteImage;
   width: number;
   height: number;
   frameCount?: number;
+  /** Frames per row of a grid sheet (defaults to frameCount, a single strip) */
+  columns?: number;
   frameRate?: number;
   scale?: number;
+  /** Atlas to draw frames from instead of slicing imageSource */
+  atlas?: SpriteAtlas;
+  /** Clips local to this sprite; they take precedence over atlas clips */
+  clips?: Record<string, AnimationClip>;
+  /** Frame shown while no clip is playing */
+  initialFrame?: string | number;
+}
+
+/**
+ * Options for playing a clip
+ */
+export interface PlayOptions {
+  /** Restart the clip if it is already playing */
+  restart?: boolean;
+  /**
+   * Called when a `once` clip ends, or each time a `loop` or `pingpong`
+   * clip completes a cycle
+   */
+  onComplete?: () => void;
 }
 
 /**
  * Represents the current state of a sprite
  */
 export interface SpriteState {
+  /** Position within the current clip */
   currentFrame: number;
   lastFrameUpdate: number;
   isAnimating: boolean;
+  /** Name of the clip being shown, if any */
+  currentClip: string | null;
 }
 
+/**
+ * Name of the clip built from frameCount/frameRate for grid sheets
+ */
+export const DEFAULT_CLIP = 'default';
+
 // =========================================================
 // Main Sprite Class
 // =========================================================
 
 export class Sprite {
-  private image: HTMLImageElement;
+  private atlas: SpriteAtlas;
   private config: SpriteConfig;
   private state: SpriteState;
-  private loaded: boolean;
+  private clips: Map<string, AnimationClip>;
+  private direction: 1 | -1;
+  private displayFrame: string;
+  private onComplete?: () => void;
+  private awaitingTimestamp: boolean;
   private errorState: Error | null;
 
   /**
    * Creates a new Sprite instance
    * @param config - Configuration options for the sprite
+   * @throws Error if no image source, image or atlas is given, or a clip is invalid
    */
   constructor(config: SpriteConfig) {
     this.config = {
@@ -56,36 +98,79 @@ export class Sprite {
     this.state = {
       currentFrame: 0,
       lastFrameUpdate: 0,
-      isAnimating: false
+      isAnimating: false,
+      currentClip: null
     };
 
-    this.loaded = false;
     this.errorState = null;
-    this.image = new Image();
-    
-    this.initializeImage();
+    this.direction = 1;
+    this.awaitingTimestamp = false;
+    this.clips = new Map();
+
+    this.atlas = this.initializeAtlas();
+    this.displayFrame = String(this.config.initialFrame ?? this.atlas.getFrameNames()[0] ?? 0);
+
+    if (!this.config.atlas && (this.config.frameCount || 1) > 1 && this.config.frameRate) {
+      this.addClip(DEFAULT_CLIP, {
+        frames: this.atlas.getFrameNames(),
+        frameRate: this.config.frameRate,
+        mode: 'loop'
+      });
+    }
+
+    Object.entries(this.config.clips ?? {}).forEach(([name, clip]) => this.addClip(name, clip));
+    this.watchImage();
   }
 
   /**
-   * Initializes the sprite image with error handling
+   * Resolves the atlas, slicing a grid from the image source when none is given
    * @private
    */
-  private initializeImage(): void {
-    this.image.onload = () => {
-      this.loaded = true;
-    };
+  private initializeAtlas(): SpriteAtlas {
+    if (this.config.atlas) {
+      return this.config.atlas;
+    }
 
-    this.image.onerror = (error) => {
-      this.errorState = new Error(`Failed to load sprite image: ${error}`);
-      console.error(this.errorState);
-    };
+    if (!this.config.image && !this.config.imageSource) {
+      throw new Error('Sprite requires an image, imageSource or atlas');
+    }
 
-    try {
-      this.image.src = this.config.imageSource;
-    } catch (error) {
-      this.errorState = error instanceof Error ? error : new Error('Unknown error loading sprite');
+    const frameCount = this.config.frameCount || 1;
+    const columns = this.config.columns ?? frameCount;
+    const image = this.config.image ?? getImage(this.config.imageSource as string);
+
+    return SpriteAtlas.fromGrid(image, {
+      frameWidth: this.config.width,
+      frameHeight: this.config.height,
+      columns,
+      rows: Math.ceil(frameCount / columns),
+      frameCount
+    });
+  }
+
+  /**
+   * Records load failures of the shared image with error handling
+   * @private
+   */
+  private watchImage(): void {
+    const image = this.atlas.image;
+
+    // Generated canvases are ready as soon as they exist
+    if (!isImageElement(image)) {
+      return;
+    }
+
+    if (isImageBroken(image)) {
+      this.errorState = new Error(`Failed to load sprite image: ${image.src}`);
       console.error(this.errorState);
+      return;
     }
+
+    // Listeners rather than onload/onerror, which other sprites sharing the image would overwrite
+    image.addEventListener('error', () => {
+      this.errorState = new Error(`Failed to load sprite image: ${image.src}`);
+      console.error(this.errorState);
+    }, { once: true });
   }
 
   /**
@@ -94,25 +179,29 @@ export class Sprite {
    * @param x - X coordinate for rendering
    * @param y - Y coordinate for rendering
    */
-  public render(context: CanvasRenderingContext2D, x: number, y: number): void {
-    if (!this.loaded || this.errorState) {
+  public render(context: DrawingContext, x: number, y: number): void {
+    if (!this.isReady()) {
+      return;
+    }
+
+    const frame = this.atlas.getFrame(this.getFrameName());
+    if (!frame) {
       return;
     }
 
-    const frameWidth = this.config.width;
-    const sourceX = this.state.currentFrame * frameWidth;
+    const scale = this.config.scale || 1;
 
     try {
       context.drawImage(
-        this.image,
-        sourceX,
-        0,
-        this.config.width,
-        this.config.height,
-        x,
-        y,
-        this.config.width * (this.config.scale || 1),
-        this.config.height * (this.config.scale || 1)
+        this.atlas.image,
+        frame.x,
+        frame.y,
+        frame.width,
+        frame.height,
+        x + frame.offsetX * scale,
+        y + frame.offsetY * scale,
+        frame.width * scale,
+        frame.height * scale
       );
     } catch (error) {
       console.error('Error rendering sprite:', error);
@@ -124,23 +213,68 @@ export class Sprite {
    * @param timestamp - Current game timestamp
    */
   public update(timestamp: number): void {
-    if (!this.state.isAnimating || !this.config.frameRate) {
+    const clip = this.getClip(this.state.currentClip);
+    if (!this.state.isAnimating || !clip) {
       return;
     }
 
-    const frameInterval = 1000 / this.config.frameRate;
+    if (this.awaitingTimestamp) {
+      this.state.lastFrameUpdate = timestamp;
+      this.awaitingTimestamp = false;
+      return;
+    }
+
+    const frameInterval = 1000 / clip.frameRate;
     if (timestamp - this.state.lastFrameUpdate >= frameInterval) {
-      this.state.currentFrame = (this.state.currentFrame + 1) % (this.config.frameCount || 1);
+      this.advance(clip);
       this.state.lastFrameUpdate = timestamp;
     }
   }
 
   /**
-   * Starts sprite animation
+   * Plays a named clip
+   * @param name - Clip name, local or from the atlas
+   * @param options - Restart and completion options
+   * @throws Error if the clip does not exist
+   */
+  public play(name: string, options: PlayOptions = {}): void {
+    if (!this.getClip(name)) {
+      throw new Error(`Unknown animation clip: ${name}`);
+    }
+
+    this.onComplete = options.onComplete;
+
+    if (this.state.currentClip === name && this.state.isAnimating && !options.restart) {
+      return;
+    }
+
+    this.state.currentClip = name;
+    this.state.currentFrame = 0;
+    this.direction = 1;
+    this.startAnimation();
+  }
+
+  /**
+   * Adds or replaces a clip local to this sprite
+   * @param name - Clip name
+   * @param clip - Clip definition
+   * @throws Error if the clip references frames missing from the atlas
+   */
+  public addClip(name: string, clip: AnimationClip): void {
+    this.atlas.validateClip(name, clip);
+    this.clips.set(name, { mode: 'loop', ...clip, frames: [...clip.frames] });
+  }
+
+  /**
+   * Starts sprite animation, playing the default clip if none is selected
    */
   public startAnimation(): void {
+    if (!this.state.currentClip && this.getClip(DEFAULT_CLIP)) {
+      this.state.currentClip = DEFAULT_CLIP;
+    }
+
     this.state.isAnimating = true;
-    this.state.lastFrameUpdate = performance.now();
+    this.awaitingTimestamp = true;
   }
 
   /**
@@ -151,13 +285,59 @@ export class Sprite {
   }
 
   /**
-   * Sets the current frame of the sprite
-   * @param frame - Frame number to set
+   * Sets the current frame of the sprite. Jumps within the current clip when it
+   * contains the frame; otherwise stops the clip and shows the frame.
+   * @param frame - Frame name, or index for grid sheets
    */
-  public setFrame(frame: number): void {
-    if (frame >= 0 && frame < (this.config.frameCount || 1)) {
-      this.state.currentFrame = frame;
+  public setFrame(frame: number | string): void {
+    if (!this.atlas.hasFrame(frame)) {
+      return;
     }
+
+    const clip = this.getClip(this.state.currentClip);
+    const position = clip ? clip.frames.findIndex(name => String(name) === String(frame)) : -1;
+
+    if (position !== -1) {
+      this.state.currentFrame = position;
+      return;
+    }
+
+    this.state.currentClip = null;
+    this.state.currentFrame = 0;
+    this.state.isAnimating = false;
+    this.displayFrame = String(frame);
+  }
+
+  /**
+   * Gets the name of the frame currently shown
+   */
+  public getFrameName(): string {
+    const clip = this.getClip(this.state.currentClip);
+    return clip ? String(clip.frames[this.state.currentFrame]) : this.displayFrame;
+  }
+
+  /**
+   * Gets the name of the current clip
+   * @returns Clip name or null when showing a single frame
+   */
+  public getCurrentClip(): string | null {
+    return this.state.currentClip;
+  }
+
+  /**
+   * Gets the atlas this sprite draws from
+   */
+  public getAtlas(): SpriteAtlas {
+    return this.atlas;
+  }
+
+  /**
+   * Gets the pixel collision mask of a frame, cached on the atlas
+   * @param frame - Frame name (defaults to the frame currently shown)
+   * @returns The mask at frame resolution, or null until the image is readable
+   */
+  public getCollisionMask(frame: string | number = this.getFrameName()): CollisionMask | null {
+    return this.atlas.getCollisionMask(frame);
   }
 
   /**
@@ -165,7 +345,7 @@ export class Sprite {
    * @returns Boolean indicating if sprite is loaded and error-free
    */
   public isReady(): boolean {
-    return this.loaded && !this.errorState;
+    return !this.errorState && isImageReady(this.atlas.image);
   }
 
   /**
@@ -186,4 +366,68 @@ export class Sprite {
       height: this.config.height * (this.config.scale || 1)
     };
   }
-}
\ No newline at end of file
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private getClip(name: string | null): AnimationClip | undefined {
+    if (name === null) {
+      return undefined;
+    }
+    return this.clips.get(name) ?? this.atlas.getClip(name);
+  }
+
+  /**
+   * Moves to the next frame according to the clip's mode
+   */
+  private advance(clip: AnimationClip): void {
+    const lastFrame = clip.frames.length - 1;
+    const current = this.state.currentFrame;
+
+    switch (clip.mode ?? 'loop') {
+      case 'once':
+        if (current < lastFrame) {
+          this.state.currentFrame++;
+        } else {
+          this.state.isAnimating = false;
+          this.complete();
+        }
+        break;
+
+      case 'pingpong':
+        if (lastFrame === 0) {
+          this.complete();
+          break;
+        }
+        if (current + this.direction < 0 || current + this.direction > lastFrame) {
+          this.direction = this.direction === 1 ? -1 : 1;
+        }
+        this.state.currentFrame += this.direction;
+        if (this.state.currentFrame === 0) {
+          this.complete();
+        }
+        break;
+
+      case 'loop':
+      default:
+        this.state.currentFrame = current < lastFrame ? current + 1 : 0;
+        if (this.state.currentFrame === 0) {
+          this.complete();
+        }
+        break;
+    }
+  }
+
+  private complete(): void {
+    if (!this.onComplete) {
+      return;
+    }
+
+    try {
+      this.onComplete();
+    } catch (error) {
+      console.error('Error in animation completion callback:', error);
+    }
+  }
+}
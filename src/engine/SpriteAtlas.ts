@@ -0,0 +1,321 @@
+/**
+ * @file SpriteAtlas.ts
+ * @description Texture atlas support for sprites.
+ * Parses TexturePacker JSON manifests (hash and array formats) or slices uniform
+ * grids into named frames, and holds animation clips and collision masks
+ * shared by every sprite drawing from the atlas.
+ * @module engine/SpriteAtlas
+ */
+
+import { getImage, isImageReady, SpriteImage } from './ImageCache';
+import { CollisionMask, DEFAULT_ALPHA_THRESHOLD } from './collision/CollisionMask';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Region of the atlas image holding one frame
+ */
+export interface AtlasFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Offset of the trimmed region inside the original frame */
+  offsetX: number;
+  offsetY: number;
+  /** Size of the frame before trimming */
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/**
+ * Frame entry as written by TexturePacker
+ */
+export interface TexturePackerFrame {
+  frame: { x: number; y: number; w: number; h: number };
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: { x: number; y: number; w: number; h: number };
+  sourceSize?: { w: number; h: number };
+}
+
+/**
+ * Metadata block of a TexturePacker manifest
+ */
+export interface TexturePackerMeta {
+  image?: string;
+  size?: { w: number; h: number };
+}
+
+/**
+ * TexturePacker "JSON (Hash)" format
+ */
+export interface TexturePackerHash {
+  frames: Record<string, TexturePackerFrame>;
+  meta?: TexturePackerMeta;
+}
+
+/**
+ * TexturePacker "JSON (Array)" format
+ */
+export interface TexturePackerArray {
+  frames: Array<TexturePackerFrame & { filename: string }>;
+  meta?: TexturePackerMeta;
+}
+
+export type AtlasData = TexturePackerHash | TexturePackerArray;
+
+/**
+ * Layout of a uniform sprite sheet
+ */
+export interface GridLayout {
+  frameWidth: number;
+  frameHeight: number;
+  /** Frames per row; required because the image may still be loading */
+  columns: number;
+  /** Number of rows (defaults to 1) */
+  rows?: number;
+  /** Total frames when the last row is partial */
+  frameCount?: number;
+}
+
+/**
+ * How a clip continues after its last frame:
+ * - `loop`: restart from the first frame
+ * - `pingpong`: play backwards to the first frame, then forwards again
+ * - `once`: hold the last frame and complete
+ */
+export type AnimationMode = 'loop' | 'pingpong' | 'once';
+
+/**
+ * Named animation spanning any frames of an atlas
+ */
+export interface AnimationClip {
+  /** Frame names, or indices for grid atlases, in playback order */
+  frames: Array<string | number>;
+  /** Frames per second */
+  frameRate: number;
+  /** Playback mode (defaults to loop) */
+  mode?: AnimationMode;
+}
+
+// =========================================================
+// Main SpriteAtlas Class
+// =========================================================
+
+export class SpriteAtlas {
+  public readonly image: SpriteImage;
+  private frames: Map<string, AtlasFrame>;
+  private clips: Map<string, AnimationClip>;
+  /** Built masks by frame and threshold; null records a frame whose pixels could not be read */
+  private masks: Map<string, CollisionMask | null>;
+
+  /**
+   * Creates a new SpriteAtlas from a TexturePacker manifest
+   * @param image - Atlas image, generated canvas or image URL (shared through the image cache)
+   * @param data - Parsed TexturePacker JSON in hash or array format
+   * @throws Error if the manifest is malformed or uses rotated frames
+   */
+  constructor(image: SpriteImage | string, data: AtlasData) {
+    this.image = typeof image === 'string' ? getImage(image) : image;
+    this.frames = new Map();
+    this.clips = new Map();
+    this.masks = new Map();
+
+    if (!data || typeof data.frames !== 'object' || data.frames === null) {
+      throw new Error('Atlas data must contain a frames collection');
+    }
+
+    const entries: Array<[string, TexturePackerFrame]> = Array.isArray(data.frames)
+      ? data.frames.map(frame => [frame.filename, frame])
+      : Object.entries(data.frames);
+
+    for (const [name, frame] of entries) {
+      this.frames.set(name, this.parseFrame(name, frame));
+    }
+  }
+
+  /**
+   * Creates an atlas from a uniform grid; frames are named by index, row by row
+   * @param image - Sheet image or its URL
+   * @param layout - Frame size and grid dimensions
+   * @throws Error if the layout is invalid
+   */
+  public static fromGrid(image: SpriteImage | string, layout: GridLayout): SpriteAtlas {
+    const { frameWidth, frameHeight, columns } = layout;
+    const rows = layout.rows ?? 1;
+    const frameCount = layout.frameCount ?? columns * rows;
+
+    if (frameWidth <= 0 || frameHeight <= 0 || columns <= 0 || rows <= 0) {
+      throw new Error('Grid layout dimensions must be positive');
+    }
+    if (frameCount > columns * rows) {
+      throw new Error(`Grid of ${columns}x${rows} cannot hold ${frameCount} frames`);
+    }
+
+    const frames: Record<string, TexturePackerFrame> = {};
+    for (let index = 0; index < frameCount; index++) {
+      frames[String(index)] = {
+        frame: {
+          x: (index % columns) * frameWidth,
+          y: Math.floor(index / columns) * frameHeight,
+          w: frameWidth,
+          h: frameHeight
+        }
+      };
+    }
+
+    return new SpriteAtlas(image, { frames });
+  }
+
+  /**
+   * Gets a frame by name or grid index
+   * @param name - Frame name
+   * @returns The frame or undefined
+   */
+  public getFrame(name: string | number): AtlasFrame | undefined {
+    return this.frames.get(String(name));
+  }
+
+  /**
+   * Checks whether the atlas contains a frame
+   * @param name - Frame name
+   */
+  public hasFrame(name: string | number): boolean {
+    return this.frames.has(String(name));
+  }
+
+  /**
+   * Gets all frame names in manifest order
+   */
+  public getFrameNames(): string[] {
+    return Array.from(this.frames.keys());
+  }
+
+  /**
+   * Defines a clip available to every sprite using this atlas
+   * @param name - Clip name
+   * @param clip - Clip definition
+   * @throws Error if the clip references unknown frames
+   */
+  public defineClip(name: string, clip: AnimationClip): void {
+    this.validateClip(name, clip);
+    this.clips.set(name, { mode: 'loop', ...clip, frames: [...clip.frames] });
+  }
+
+  /**
+   * Gets a clip by name
+   * @param name - Clip name
+   * @returns The clip or undefined
+   */
+  public getClip(name: string): AnimationClip | undefined {
+    return this.clips.get(name);
+  }
+
+  /**
+   * Gets all clip names
+   */
+  public getClipNames(): string[] {
+    return Array.from(this.clips.keys());
+  }
+
+  /**
+   * Gets the pixel collision mask of a frame, built from its alpha channel on first use
+   * @param name - Frame name
+   * @param alphaThreshold - Alpha (0-255) above which a pixel is solid
+   * @returns The cached mask, or null if the frame is unknown or its pixels cannot be read;
+   * an unreadable (e.g. cross-origin) frame is warned about and skipped from then on
+   */
+  public getCollisionMask(
+    name: string | number,
+    alphaThreshold: number = DEFAULT_ALPHA_THRESHOLD
+  ): CollisionMask | null {
+    const key = `${name}@${alphaThreshold}`;
+    if (this.masks.has(key)) {
+      return this.masks.get(key) ?? null;
+    }
+
+    const frame = this.getFrame(name);
+    if (!frame || !isImageReady(this.image)) {
+      return null;
+    }
+
+    try {
+      const mask = CollisionMask.fromFrame(this.image, frame, alphaThreshold);
+      this.masks.set(key, mask);
+      return mask;
+    } catch (error) {
+      // Cross-origin images taint the canvas; callers fall back to box collision
+      console.warn(`Cannot build collision mask for frame '${name}':`, error);
+      this.masks.set(key, null);
+      return null;
+    }
+  }
+
+  /**
+   * Supplies a frame's collision mask directly, e.g. from the bitmap it was generated from
+   * @param name - Frame name
+   * @param mask - Mask at frame resolution
+   * @param alphaThreshold - Threshold the mask stands in for
+   * @throws Error if the frame is unknown
+   */
+  public setCollisionMask(
+    name: string | number,
+    mask: CollisionMask,
+    alphaThreshold: number = DEFAULT_ALPHA_THRESHOLD
+  ): void {
+    if (!this.hasFrame(name)) {
+      throw new Error(`Unknown atlas frame '${name}'`);
+    }
+    this.masks.set(`${name}@${alphaThreshold}`, mask);
+  }
+
+  /**
+   * Checks that a clip is playable with this atlas
+   * @param name - Clip name, used in error messages
+   * @param clip - Clip definition
+   * @throws Error if the clip is empty, has no frame rate or references unknown frames
+   */
+  public validateClip(name: string, clip: AnimationClip): void {
+    if (!clip.frames || clip.frames.length === 0) {
+      throw new Error(`Clip '${name}' has no frames`);
+    }
+    if (!Number.isFinite(clip.frameRate) || clip.frameRate <= 0) {
+      throw new Error(`Clip '${name}' frame rate must be positive`);
+    }
+
+    const missing = clip.frames.find(frame => !this.hasFrame(frame));
+    if (missing !== undefined) {
+      throw new Error(`Clip '${name}' references unknown frame '${missing}'`);
+    }
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private parseFrame(name: string, data: TexturePackerFrame): AtlasFrame {
+    if (!data || !data.frame) {
+      throw new Error(`Atlas frame '${name}' is missing its frame rectangle`);
+    }
+    if (data.rotated) {
+      throw new Error(`Atlas frame '${name}' is rotated; export the atlas without rotation`);
+    }
+
+    const { x, y, w, h } = data.frame;
+    return {
+      x,
+      y,
+      width: w,
+      height: h,
+      offsetX: data.trimmed ? data.spriteSourceSize?.x ?? 0 : 0,
+      offsetY: data.trimmed ? data.spriteSourceSize?.y ?? 0 : 0,
+      sourceWidth: data.sourceSize?.w ?? w,
+      sourceHeight: data.sourceSize?.h ?? h
+    };
+  }
+}
+
+export default SpriteAtlas;
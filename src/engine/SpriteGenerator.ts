@@ -0,0 +1,388 @@
+/**
+ * @file SpriteGenerator.ts
+ * @description Procedural pixel-art sprites built from bitmask definitions.
+ * Renders the classic invaders, player cannon, UFO, shield and explosion into
+ * offscreen canvases wrapped in sprite atlases, so the game needs no image assets.
+ * @module engine/SpriteGenerator
+ */
+
+import { EnemyType } from '../types/EnemyTypes';
+import { getPalette, Palette } from './Palette';
+import { Sprite } from './Sprite';
+import { SpriteAtlas } from './SpriteAtlas';
+import { CollisionMask } from './collision/CollisionMask';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Monochrome pixel art; each row is a bitmask with the leftmost pixel in the highest bit
+ */
+export interface PixelBitmap {
+  width: number;
+  /** One array of row bitmasks per animation frame; all frames share a height */
+  frames: number[][];
+}
+
+/**
+ * Options for rendering a bitmap
+ */
+export interface PixelArtOptions {
+  /** Fill color of set pixels */
+  color?: string;
+  /** Size of one art pixel in canvas pixels (defaults to 1) */
+  pixelSize?: number;
+  /** Frame rate of the generated `idle` clip for multi-frame bitmaps (defaults to 2) */
+  frameRate?: number;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+/**
+ * Built-in bitmaps
+ */
+export const SPRITE_BITMAPS = {
+  squid: {
+    width: 8,
+    frames: [
+      [
+        0b00011000,
+        0b00111100,
+        0b01111110,
+        0b11011011,
+        0b11111111,
+        0b00100100,
+        0b01011010,
+        0b10100101
+      ],
+      [
+        0b00011000,
+        0b00111100,
+        0b01111110,
+        0b11011011,
+        0b11111111,
+        0b01011010,
+        0b10000001,
+        0b01000010
+      ]
+    ]
+  },
+  crab: {
+    width: 11,
+    frames: [
+      [
+        0b00100000100,
+        0b00010001000,
+        0b00111111100,
+        0b01101110110,
+        0b11111111111,
+        0b10111111101,
+        0b10100000101,
+        0b00011011000
+      ],
+      [
+        0b00100000100,
+        0b10010001001,
+        0b10111111101,
+        0b11101110111,
+        0b11111111111,
+        0b01111111110,
+        0b00100000100,
+        0b01000000010
+      ]
+    ]
+  },
+  octopus: {
+    width: 12,
+    frames: [
+      [
+        0b000011110000,
+        0b011111111110,
+        0b111111111111,
+        0b111001100111,
+        0b111111111111,
+        0b000110011000,
+        0b001101101100,
+        0b110000000011
+      ],
+      [
+        0b000011110000,
+        0b011111111110,
+        0b111111111111,
+        0b111001100111,
+        0b111111111111,
+        0b001110011100,
+        0b011001100110,
+        0b001100001100
+      ]
+    ]
+  },
+  cannon: {
+    width: 13,
+    frames: [
+      [
+        0b0000001000000,
+        0b0000011100000,
+        0b0000011100000,
+        0b0111111111110,
+        0b1111111111111,
+        0b1111111111111,
+        0b1111111111111,
+        0b1111111111111
+      ]
+    ]
+  },
+  ufo: {
+    width: 16,
+    frames: [
+      [
+        0b0000011111100000,
+        0b0001111111111000,
+        0b0011111111111100,
+        0b0110110110110110,
+        0b1111111111111111,
+        0b0011100110011100,
+        0b0001000000001000
+      ]
+    ]
+  },
+  shield: {
+    width: 22,
+    frames: [
+      [
+        0b0000111111111111110000,
+        0b0001111111111111111000,
+        0b0011111111111111111100,
+        0b0111111111111111111110,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111111111111111111,
+        0b1111111100000011111111,
+        0b1111111000000001111111,
+        0b1111110000000000111111,
+        0b1111110000000000111111
+      ]
+    ]
+  },
+  explosion: {
+    width: 13,
+    frames: [
+      [
+        0b0000100010000,
+        0b0100010100010,
+        0b0010000000100,
+        0b0001000001000,
+        0b1100000000011,
+        0b0001000001000,
+        0b0010100010100,
+        0b0100100010010
+      ]
+    ]
+  }
+} as const satisfies Record<string, PixelBitmap>;
+
+export type BitmapName = keyof typeof SPRITE_BITMAPS;
+
+/**
+ * Name of the clip generated for multi-frame bitmaps
+ */
+export const IDLE_CLIP = 'idle';
+
+/**
+ * Bitmap used for each enemy type; colors come from the active palette
+ */
+export const ENEMY_BITMAPS: Record<EnemyType, BitmapName> = {
+  [EnemyType.BASIC]: 'crab',
+  [EnemyType.FAST]: 'squid',
+  [EnemyType.TANK]: 'octopus',
+  [EnemyType.BOSS]: 'ufo'
+};
+
+const DEFAULT_COLOR = '#ffffff';
+const DEFAULT_FRAME_RATE = 2;
+
+// Generated atlases keyed by bitmap, color and pixel size
+const atlasCache = new Map<string, SpriteAtlas>();
+
+// =========================================================
+// Generation
+// =========================================================
+
+/**
+ * Renders every frame of a bitmap side by side into an offscreen canvas
+ * @param bitmap - Pixel art definition
+ * @param color - Fill color of set pixels
+ * @param pixelSize - Size of one art pixel in canvas pixels
+ * @throws Error if the bitmap is malformed
+ */
+export function renderBitmap(
+  bitmap: PixelBitmap,
+  color: string = DEFAULT_COLOR,
+  pixelSize: number = 1
+): HTMLCanvasElement {
+  const height = validateBitmap(bitmap);
+  if (!Number.isInteger(pixelSize) || pixelSize < 1) {
+    throw new Error('Pixel size must be a positive integer');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width * bitmap.frames.length * pixelSize;
+  canvas.height = height * pixelSize;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2D context for sprite generation');
+  }
+
+  context.fillStyle = color;
+
+  bitmap.frames.forEach((rows, frameIndex) => {
+    const frameX = frameIndex * bitmap.width;
+
+    rows.forEach((mask, y) => {
+      // Fill horizontal runs of set pixels with one rectangle each
+      let runStart = -1;
+      for (let x = 0; x <= bitmap.width; x++) {
+        const set = x < bitmap.width && ((mask >> (bitmap.width - 1 - x)) & 1) === 1;
+        if (set && runStart === -1) {
+          runStart = x;
+        } else if (!set && runStart !== -1) {
+          context.fillRect(
+            (frameX + runStart) * pixelSize,
+            y * pixelSize,
+            (x - runStart) * pixelSize,
+            pixelSize
+          );
+          runStart = -1;
+        }
+      }
+    });
+  });
+
+  return canvas;
+}
+
+/**
+ * Builds an atlas from a bitmap; frames are named by index and multi-frame
+ * bitmaps get an `idle` clip. Built-in bitmaps are cached per color and size.
+ * @param source - Built-in bitmap name or custom bitmap
+ * @param options - Color, pixel size and clip frame rate
+ */
+export function generateAtlas(source: BitmapName | PixelBitmap, options: PixelArtOptions = {}): SpriteAtlas {
+  const color = options.color ?? DEFAULT_COLOR;
+  const pixelSize = options.pixelSize ?? 1;
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  const cacheKey = typeof source === 'string' ? `${source}|${color}|${pixelSize}|${frameRate}` : null;
+
+  const cached = cacheKey ? atlasCache.get(cacheKey) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  const bitmap: PixelBitmap = typeof source === 'string' ? SPRITE_BITMAPS[source] : source;
+  const canvas = renderBitmap(bitmap, color, pixelSize);
+  const atlas = SpriteAtlas.fromGrid(canvas, {
+    frameWidth: bitmap.width * pixelSize,
+    frameHeight: bitmap.frames[0].length * pixelSize,
+    columns: bitmap.frames.length
+  });
+
+  // The bitmap already says which pixels are solid, so skip reading them back
+  bitmap.frames.forEach((_rows, index) => {
+    atlas.setCollisionMask(index, CollisionMask.fromBitmap(bitmap, index, pixelSize));
+  });
+
+  if (bitmap.frames.length > 1) {
+    atlas.defineClip(IDLE_CLIP, {
+      frames: atlas.getFrameNames(),
+      frameRate,
+      mode: 'loop'
+    });
+  }
+
+  if (cacheKey) {
+    atlasCache.set(cacheKey, atlas);
+  }
+  return atlas;
+}
+
+/**
+ * Creates a sprite drawing a generated bitmap
+ * @param source - Built-in bitmap name or custom bitmap
+ * @param options - Color, pixel size and clip frame rate
+ */
+export function createPixelSprite(source: BitmapName | PixelBitmap, options: PixelArtOptions = {}): Sprite {
+  const atlas = generateAtlas(source, options);
+  const frame = atlas.getFrame(0);
+  if (!frame) {
+    throw new Error('Generated atlas has no frames');
+  }
+
+  return new Sprite({
+    atlas,
+    width: frame.width,
+    height: frame.height
+  });
+}
+
+/**
+ * Creates the animated sprite for an enemy type in its palette color
+ * @param type - Enemy type
+ * @param pixelSize - Size of one art pixel in canvas pixels
+ * @param palette - Palette to color the sprite with (defaults to the active palette)
+ */
+export function createEnemySprite(type: EnemyType, pixelSize: number = 1, palette: Palette = getPalette()): Sprite {
+  const bitmap = ENEMY_BITMAPS[type];
+  if (!bitmap) {
+    throw new Error(`No sprite defined for enemy type: ${type}`);
+  }
+
+  const sprite = createPixelSprite(bitmap, { color: palette.enemies[type], pixelSize });
+  if (sprite.getAtlas().getClip(IDLE_CLIP)) {
+    sprite.play(IDLE_CLIP);
+  }
+  return sprite;
+}
+
+/**
+ * Creates the player cannon sprite
+ * @param pixelSize - Size of one art pixel in canvas pixels
+ * @param palette - Palette to color the sprite with (defaults to the active palette)
+ */
+export function createPlayerSprite(pixelSize: number = 1, palette: Palette = getPalette()): Sprite {
+  return createPixelSprite('cannon', { color: palette.player, pixelSize });
+}
+
+/**
+ * Drops cached atlases, e.g. after the display scale changes
+ */
+export function clearGeneratedSprites(): void {
+  atlasCache.clear();
+}
+
+// =========================================================
+// Private Helpers
+// =========================================================
+
+function validateBitmap(bitmap: PixelBitmap): number {
+  if (!Number.isInteger(bitmap.width) || bitmap.width < 1 || bitmap.width > 31) {
+    throw new Error('Bitmap width must be an integer between 1 and 31');
+  }
+  if (bitmap.frames.length === 0 || bitmap.frames[0].length === 0) {
+    throw new Error('Bitmap must have at least one non-empty frame');
+  }
+
+  const height = bitmap.frames[0].length;
+  if (bitmap.frames.some(rows => rows.length !== height)) {
+    throw new Error('All bitmap frames must have the same height');
+  }
+  return height;
+}
@@ -0,0 +1,282 @@
+/**
+ * @file TimerManager.ts
+ * @description Loop-driven timers and tweens measured in simulation time.
+ * Replaces `setTimeout`/`setInterval` and wall-clock lifetimes for gameplay timing
+ * so that delays respect pause and time scaling applied by the game loop.
+ * @module engine/TimerManager
+ */
+
+import { Easing, EasingFunction, EasingName } from './Easing';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Identifies a scheduled timer
+ */
+export type TimerHandle = number;
+
+/**
+ * Configuration for tweening a value over simulation time
+ */
+export interface TweenOptions {
+  from: number;
+  to: number;
+  /** Duration in milliseconds of simulation time */
+  duration: number;
+  /** Easing curve or its name (defaults to linear) */
+  easing?: EasingFunction | EasingName;
+  /** Called every update with the eased value and linear progress (0-1) */
+  onUpdate: (value: number, progress: number) => void;
+  /** Called once after the final value has been applied */
+  onComplete?: () => void;
+}
+
+/**
+ * Internal record of a scheduled timer
+ */
+interface TimerEntry {
+  remaining: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+/**
+ * Internal record of a running tween
+ */
+interface TweenEntry {
+  elapsed: number;
+  easing: EasingFunction;
+  options: TweenOptions;
+}
+
+// =========================================================
+// Main TimerManager Class
+// =========================================================
+
+/**
+ * Schedules callbacks against simulation time advanced through `update`
+ */
+export class TimerManager {
+  private timers: Map<TimerHandle, TimerEntry>;
+  private tweens: Map<TimerHandle, TweenEntry>;
+  private nextHandle: TimerHandle;
+  private elapsed: number;
+
+  constructor() {
+    this.timers = new Map();
+    this.tweens = new Map();
+    this.nextHandle = 1;
+    this.elapsed = 0;
+  }
+
+  /**
+   * Calls a function once after a delay
+   * @param delay - Delay in milliseconds of simulation time
+   * @param callback - Function to call
+   * @returns Handle that can be passed to cancel
+   * @throws Error if delay is invalid
+   */
+  public after(delay: number, callback: () => void): TimerHandle {
+    this.validateDuration(delay);
+    return this.schedule(delay, null, callback);
+  }
+
+  /**
+   * Calls a function repeatedly at a fixed interval
+   * @param interval - Interval in milliseconds of simulation time
+   * @param callback - Function to call
+   * @returns Handle that can be passed to cancel
+   * @throws Error if interval is not positive
+   */
+  public every(interval: number, callback: () => void): TimerHandle {
+    this.validateDuration(interval);
+    if (interval === 0) {
+      throw new Error('Timer interval must be greater than 0');
+    }
+    return this.schedule(interval, interval, callback);
+  }
+
+  /**
+   * Resolves after a delay of simulation time
+   * @param delay - Delay in milliseconds
+   */
+  public delay(delay: number): Promise<void> {
+    return new Promise(resolve => {
+      this.after(delay, resolve);
+    });
+  }
+
+  /**
+   * Animates a value from one number to another
+   * @param options - Tween configuration
+   * @returns Handle that can be passed to cancel
+   * @throws Error if the options are invalid
+   */
+  public tween(options: TweenOptions): TimerHandle {
+    this.validateDuration(options.duration);
+    if (typeof options.onUpdate !== 'function') {
+      throw new Error('Tween onUpdate must be a function');
+    }
+
+    const easing = typeof options.easing === 'string'
+      ? Easing[options.easing]
+      : options.easing ?? Easing.linear;
+
+    if (typeof easing !== 'function') {
+      throw new Error(`Unknown easing: ${String(options.easing)}`);
+    }
+
+    const handle = this.nextHandle++;
+    this.tweens.set(handle, { elapsed: 0, easing, options });
+    return handle;
+  }
+
+  /**
+   * Cancels a scheduled timer or running tween
+   * @param handle - Handle returned when scheduling
+   * @returns True if a timer or tween was cancelled
+   */
+  public cancel(handle: TimerHandle | undefined): boolean {
+    if (handle === undefined) {
+      return false;
+    }
+    return this.timers.delete(handle) || this.tweens.delete(handle);
+  }
+
+  /**
+   * Advances simulation time, fires every timer that came due and steps tweens
+   * @param deltaTime - Elapsed simulation time in milliseconds
+   */
+  public update(deltaTime: number): void {
+    if (deltaTime <= 0) {
+      return;
+    }
+
+    this.elapsed += deltaTime;
+    this.updateTimers(deltaTime);
+    this.updateTweens(deltaTime);
+  }
+
+  /**
+   * Gets the simulation time remaining before a timer fires
+   * @param handle - Timer handle
+   * @returns Remaining milliseconds, or null if the timer is not scheduled
+   */
+  public getRemaining(handle: TimerHandle): number | null {
+    const timer = this.timers.get(handle);
+    if (timer) {
+      return Math.max(0, timer.remaining);
+    }
+
+    const tween = this.tweens.get(handle);
+    return tween ? Math.max(0, tween.options.duration - tween.elapsed) : null;
+  }
+
+  /**
+   * Gets the total simulation time this manager has been advanced by
+   */
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * Gets the number of scheduled timers and running tweens
+   */
+  public get activeCount(): number {
+    return this.timers.size + this.tweens.size;
+  }
+
+  /**
+   * Cancels every scheduled timer and running tween
+   */
+  public clear(): void {
+    this.timers.clear();
+    this.tweens.clear();
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private updateTimers(deltaTime: number): void {
+    // Snapshot so timers scheduled by callbacks wait for the next update
+    const due = Array.from(this.timers.entries());
+
+    for (const [handle, timer] of due) {
+      // Skip timers cancelled by an earlier callback in this update
+      if (this.timers.get(handle) !== timer) {
+        continue;
+      }
+
+      timer.remaining -= deltaTime;
+
+      while (timer.remaining <= 0 && this.timers.get(handle) === timer) {
+        if (timer.interval === null) {
+          this.timers.delete(handle);
+        } else {
+          timer.remaining += timer.interval;
+        }
+
+        try {
+          timer.callback();
+        } catch (error) {
+          console.error('Error in timer callback:', error);
+        }
+
+        if (timer.interval === null) {
+          break;
+        }
+      }
+    }
+  }
+
+  private updateTweens(deltaTime: number): void {
+    const running = Array.from(this.tweens.entries());
+
+    for (const [handle, tween] of running) {
+      if (this.tweens.get(handle) !== tween) {
+        continue;
+      }
+
+      const { from, to, duration, onUpdate, onComplete } = tween.options;
+      tween.elapsed = Math.min(tween.elapsed + deltaTime, duration);
+
+      const progress = duration > 0 ? tween.elapsed / duration : 1;
+      const finished = progress >= 1;
+
+      if (finished) {
+        this.tweens.delete(handle);
+      }
+
+      try {
+        // The final update always lands exactly on the target value
+        onUpdate(finished ? to : from + (to - from) * tween.easing(progress), progress);
+        if (finished && onComplete) {
+          onComplete();
+        }
+      } catch (error) {
+        console.error('Error in tween callback:', error);
+      }
+    }
+  }
+
+  private schedule(remaining: number, interval: number | null, callback: () => void): TimerHandle {
+    if (typeof callback !== 'function') {
+      throw new Error('Timer callback must be a function');
+    }
+
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { remaining, interval, callback });
+    return handle;
+  }
+
+  private validateDuration(duration: number): void {
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+      throw new Error('Timer duration must be a non-negative finite number');
+    }
+  }
+}
+
+export default TimerManager;
@@ -0,0 +1,101 @@
+/**
+ * @file Transform.ts
+ * @description Affine transform math on `Transform2D` matrices.
+ * Matrices use the `setTransform` argument order [a, b, c, d, e, f], mapping
+ * (x, y) to (a*x + c*y + e, b*x + d*y + f).
+ * @module engine/Transform
+ */
+
+import { Point2D, Transform2D } from './types';
+
+export const IDENTITY_TRANSFORM: Readonly<Transform2D> = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Creates a fresh identity transform
+ */
+export function identity(): Transform2D {
+  return [1, 0, 0, 1, 0, 0];
+}
+
+/**
+ * Creates a translation
+ * @param x - Horizontal offset
+ * @param y - Vertical offset
+ */
+export function translation(x: number, y: number): Transform2D {
+  return [1, 0, 0, 1, x, y];
+}
+
+/**
+ * Creates a rotation about the origin
+ * @param angle - Angle in radians, clockwise on screen
+ */
+export function rotation(angle: number): Transform2D {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [cos, sin, -sin, cos, 0, 0];
+}
+
+/**
+ * Creates a scale about the origin
+ * @param x - Horizontal factor
+ * @param y - Vertical factor (defaults to x)
+ */
+export function scaling(x: number, y: number = x): Transform2D {
+  return [x, 0, 0, y, 0, 0];
+}
+
+/**
+ * Combines two transforms; the result applies `right` first, then `left`,
+ * matching how consecutive context calls compose
+ * @param left - Outer transform
+ * @param right - Inner transform
+ */
+export function multiply(left: Readonly<Transform2D>, right: Readonly<Transform2D>): Transform2D {
+  const [a1, b1, c1, d1, e1, f1] = left;
+  const [a2, b2, c2, d2, e2, f2] = right;
+
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
+
+/**
+ * Inverts a transform
+ * @param transform - Transform to invert
+ * @returns The inverse, or null if the transform is singular
+ */
+export function invert(transform: Readonly<Transform2D>): Transform2D | null {
+  const [a, b, c, d, e, f] = transform;
+  const determinant = a * d - b * c;
+  if (determinant === 0 || !Number.isFinite(determinant)) {
+    return null;
+  }
+
+  return [
+    d / determinant,
+    -b / determinant,
+    -c / determinant,
+    a / determinant,
+    (c * f - d * e) / determinant,
+    (b * e - a * f) / determinant
+  ];
+}
+
+/**
+ * Maps a point through a transform
+ * @param transform - Transform to apply
+ * @param point - Point to map
+ */
+export function transformPoint(transform: Readonly<Transform2D>, point: Point2D): Point2D {
+  const [a, b, c, d, e, f] = transform;
+  return {
+    x: a * point.x + c * point.y + e,
+    y: b * point.x + d * point.y + f
+  };
+}
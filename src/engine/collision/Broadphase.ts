@@ -0,0 +1,91 @@
+/**
+ * @file Broadphase.ts
+ * @description Common interface for broadphase collision structures.
+ * A broadphase narrows collision checks to nearby candidates; callers still
+ * run an exact test on each candidate pair.
+ * @module engine/collision
+ */
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * Axis-aligned box stored in a broadphase
+ */
+export interface BroadphaseObject {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  id?: string | number;
+}
+
+/**
+ * Spatial structure that returns collision candidates for an area
+ */
+export interface Broadphase<T extends BroadphaseObject = BroadphaseObject> {
+  /** Removes every object */
+  clear(): void;
+  /** Adds an object at its current bounds */
+  insert(object: T): void;
+  /**
+   * Gets objects that may overlap an area, each at most once.
+   * May include objects that do not actually overlap.
+   */
+  retrieve(area: BroadphaseObject): T[];
+}
+
+// =========================================================
+// Helpers
+// =========================================================
+
+/**
+ * Checks whether two boxes overlap; touching edges count as overlapping
+ * @param a - First box
+ * @param b - Second box
+ */
+export function boxesOverlap(a: BroadphaseObject, b: BroadphaseObject): boolean {
+  return !(
+    a.x + a.width < b.x ||
+    a.x > b.x + b.width ||
+    a.y + a.height < b.y ||
+    a.y > b.y + b.height
+  );
+}
+
+/**
+ * Rebuilds a broadphase from a set of objects and returns every overlapping pair once
+ * @param broadphase - Structure to use
+ * @param objects - Objects to test against each other
+ */
+export function findOverlappingPairs<T extends BroadphaseObject>(
+  broadphase: Broadphase<T>,
+  objects: T[]
+): Array<[T, T]> {
+  broadphase.clear();
+  objects.forEach(object => broadphase.insert(object));
+
+  const order = new Map<T, number>();
+  objects.forEach((object, index) => order.set(object, index));
+
+  // Structures may report a pair from only one side, so collect from both
+  const seen = new Set<number>();
+  const pairs: Array<[T, T]> = [];
+  objects.forEach((object, index) => {
+    for (const candidate of broadphase.retrieve(object)) {
+      const candidateIndex = order.get(candidate);
+      if (candidateIndex === undefined || candidateIndex === index) {
+        continue;
+      }
+
+      const [first, second] = index < candidateIndex ? [index, candidateIndex] : [candidateIndex, index];
+      const key = first * objects.length + second;
+      if (!seen.has(key) && boxesOverlap(object, candidate)) {
+        seen.add(key);
+        pairs.push([objects[first], objects[second]]);
+      }
+    }
+  });
+  return pairs;
+}
@@ -0,0 +1,226 @@
+/**
+ * @file BroadphaseBenchmark.ts
+ * @description Benchmark harness comparing broadphase implementations.
+ * Moves a seeded set of boxes around a world for a number of frames,
+ * rebuilding each structure from scratch every frame, and
+ * reports build and query times, candidate counts and the overlapping pairs
+ * found. Call `runBroadphaseBenchmark` from the dev console or a script and
+ * print the rows with `formatBenchmarkResults`.
+ * @module engine/collision
+ */
+
+import { Broadphase, BroadphaseObject, boxesOverlap, findOverlappingPairs } from './Broadphase';
+import { Quadtree } from './Quadtree';
+import { SpatialHash } from './SpatialHash';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+/**
+ * A broadphase under test, created fresh for each object count
+ */
+export interface BenchmarkCandidate {
+  name: string;
+  create(world: BroadphaseObject): Broadphase;
+}
+
+/**
+ * Configuration options for a benchmark run
+ */
+export interface BenchmarkOptions {
+  /** Object counts to test (defaults to 50, 500 and 5000) */
+  counts?: number[];
+  /** Simulated frames per count (defaults to 60) */
+  frames?: number;
+  /** World area the objects move in (defaults to 800x600) */
+  world?: BroadphaseObject;
+  /** Edge length of each object (defaults to 16) */
+  objectSize?: number;
+  /** Seed for object placement, so runs are comparable (defaults to 1) */
+  seed?: number;
+  /** Structures to compare (defaults to the quadtree and a 32px spatial hash) */
+  candidates?: BenchmarkCandidate[];
+}
+
+/**
+ * Measurements for one structure at one object count
+ */
+export interface BenchmarkResult {
+  name: string;
+  count: number;
+  /** Average milliseconds per frame spent clearing and inserting */
+  buildMs: number;
+  /** Average milliseconds per frame spent querying every object */
+  queryMs: number;
+  /** Average candidates returned per query */
+  candidatesPerQuery: number;
+  /** Overlapping pairs found in the final positions; differs between structures only if one misses pairs */
+  pairs: number;
+}
+
+interface MovingBox extends BroadphaseObject {
+  vx: number;
+  vy: number;
+}
+
+// =========================================================
+// Constants
+// =========================================================
+
+const DEFAULT_OPTIONS = {
+  counts: [50, 500, 5000],
+  frames: 60,
+  world: { x: 0, y: 0, width: 800, height: 600 },
+  objectSize: 16,
+  seed: 1
+} as const;
+
+export const DEFAULT_BENCHMARK_CANDIDATES: BenchmarkCandidate[] = [
+  { name: 'Quadtree', create: world => new Quadtree(world) },
+  { name: 'SpatialHash', create: () => new SpatialHash(32) }
+];
+
+// Pixels moved per frame at most, per axis
+const MAX_SPEED = 2;
+
+// =========================================================
+// Benchmark
+// =========================================================
+
+/**
+ * Runs every candidate at every object count over identical object motion
+ * @param options - Counts, frames, world and candidates
+ * @returns One result per candidate and count
+ */
+export function runBroadphaseBenchmark(options: BenchmarkOptions = {}): BenchmarkResult[] {
+  const counts = options.counts ?? DEFAULT_OPTIONS.counts;
+  const frames = Math.max(1, options.frames ?? DEFAULT_OPTIONS.frames);
+  const world = options.world ?? DEFAULT_OPTIONS.world;
+  const objectSize = options.objectSize ?? DEFAULT_OPTIONS.objectSize;
+  const seed = options.seed ?? DEFAULT_OPTIONS.seed;
+  const candidates = options.candidates ?? DEFAULT_BENCHMARK_CANDIDATES;
+
+  const results: BenchmarkResult[] = [];
+
+  for (const count of counts) {
+    for (const candidate of candidates) {
+      const objects = createObjects(count, world, objectSize, seed);
+      const broadphase = candidate.create(world);
+      let buildTime = 0;
+      let queryTime = 0;
+      let candidateCount = 0;
+
+      for (let frame = 0; frame < frames; frame++) {
+        moveObjects(objects, world);
+
+        const buildStart = performance.now();
+        broadphase.clear();
+        for (const object of objects) {
+          broadphase.insert(object);
+        }
+        buildTime += performance.now() - buildStart;
+
+        // Include the exact test per candidate, as a collision pass would
+        const queryStart = performance.now();
+        for (const object of objects) {
+          const found = broadphase.retrieve(object);
+          candidateCount += found.length;
+          for (const other of found) {
+            if (other !== object) {
+              boxesOverlap(object, other);
+            }
+          }
+        }
+        queryTime += performance.now() - queryStart;
+      }
+
+      results.push({
+        name: candidate.name,
+        count,
+        buildMs: buildTime / frames,
+        queryMs: queryTime / frames,
+        candidatesPerQuery: count > 0 ? candidateCount / (frames * count) : 0,
+        pairs: findOverlappingPairs(broadphase, objects).length
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Formats results as an aligned text table
+ * @param results - Rows from runBroadphaseBenchmark
+ */
+export function formatBenchmarkResults(results: BenchmarkResult[]): string {
+  const header = ['Broadphase', 'Objects', 'Build ms', 'Query ms', 'Candidates', 'Pairs'];
+  const rows = results.map(result => [
+    result.name,
+    String(result.count),
+    result.buildMs.toFixed(3),
+    result.queryMs.toFixed(3),
+    result.candidatesPerQuery.toFixed(1),
+    String(result.pairs)
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  return [header, ...rows]
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
+// =========================================================
+// Private Helpers
+// =========================================================
+
+function createObjects(count: number, world: BroadphaseObject, size: number, seed: number): MovingBox[] {
+  const random = createRandom(seed);
+  const objects: MovingBox[] = [];
+
+  for (let id = 0; id < count; id++) {
+    objects.push({
+      id,
+      x: world.x + random() * (world.width - size),
+      y: world.y + random() * (world.height - size),
+      width: size,
+      height: size,
+      vx: (random() * 2 - 1) * MAX_SPEED,
+      vy: (random() * 2 - 1) * MAX_SPEED
+    });
+  }
+  return objects;
+}
+
+function moveObjects(objects: MovingBox[], world: BroadphaseObject): void {
+  for (const object of objects) {
+    object.x += object.vx;
+    object.y += object.vy;
+
+    // Bounce off the world edges so the density stays constant
+    if (object.x < world.x || object.x + object.width > world.x + world.width) {
+      object.vx = -object.vx;
+      object.x += object.vx * 2;
+    }
+    if (object.y < world.y || object.y + object.height > world.y + world.height) {
+      object.vy = -object.vy;
+      object.y += object.vy * 2;
+    }
+  }
+}
+
+/**
+ * Mulberry32 generator returning values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
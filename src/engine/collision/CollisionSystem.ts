@@ -2,36 +2,192 @@
  * @file CollisionSystem.ts
  * @description Implements AABB (Axis-Aligned Bounding Box) collision detection system for game entities.
  * Provides efficient collision detection and resolution mechanisms for 2D game objects.
+ * Entities register colliders with a layer and mask; each `step` finds the
+ * overlapping pairs whose layers accept each other and reports them through
+ * enter, stay and exit listeners. Colliders flagged as bullets are swept
+ * from their previous position, so fast movers report a time of impact
+ * instead of tunnelling through thin targets. Pairs that pass the box test
+ * can be refined per collider against pixel masks, a single point, or a
+ * circle, capsule or convex polygon shape.
  * 
  * @module engine/collision
  * @version 1.0.0
  */
 
+import { Unsubscribe } from '../GameLoop';
+import { findOverlappingPairs } from './Broadphase';
+import { SpatialHash } from './SpatialHash';
+import { Displacement, getSweptBounds, sweepAABBPair } from './Sweep';
+import { CollisionMask, maskContainsPoint, masksOverlap } from './CollisionMask';
+import {
+  boxShape,
+  CollisionShape,
+  getShapeBounds,
+  shapeContainsPoint,
+  testShapes,
+  translateShape,
+  validateShape
+} from './Shapes';
+
 // Types and interfaces
-interface BoundingBox {
+export interface BoundingBox {
   x: number;
   y: number;
   width: number;
   height: number;
 }
 
-interface CollisionResult {
+export interface CollisionResult {
   hasCollision: boolean;
+  /** Depth along each axis for boxes; absolute components of the penetration vector for other shapes */
   overlap?: {
     x: number;
     y: number;
   };
+  /** Smallest vector that moves the first object out of the second */
+  penetration?: {
+    x: number;
+    y: number;
+  };
+}
+
+/**
+ * Collision layer bits; a collider belongs to one layer and a mask selects the layers it reacts to
+ */
+export enum CollisionLayer {
+  NONE = 0,
+  PLAYER = 1 << 0,
+  PLAYER_BULLET = 1 << 1,
+  ENEMY = 1 << 2,
+  ENEMY_BULLET = 1 << 3,
+  SHIELD = 1 << 4,
+  UFO = 1 << 5
+}
+
+/**
+ * Shape tested after the box test:
+ * - `aabb`: the bounds themselves
+ * - `mask`: solid pixels of a collision mask stretched over the bounds
+ * - `point`: the centre of the bounds, e.g. for thin bullets
+ * - `shape`: the collider's circle, capsule or polygon shape; masks count as their box against shapes
+ */
+export type Narrowphase = 'aabb' | 'mask' | 'point' | 'shape';
+
+/**
+ * Options for registering an entity's collider
+ */
+export interface ColliderOptions {
+  /** Layer the entity belongs to */
+  layer: CollisionLayer;
+  /** Layers the entity reacts to (defaults to the layer's entry in DEFAULT_COLLISION_MASKS) */
+  mask?: number;
+  /** World-space box; the object is kept by reference, so moving it in place moves the collider */
+  bounds?: BoundingBox;
+  /** World-space shape, kept by reference like bounds; the bounds then follow the shape */
+  shape?: CollisionShape | null;
+  /** Whether the collider takes part in steps (defaults to true) */
+  enabled?: boolean;
+  /** Sweep the collider between steps (defaults to true on the bullet layers) */
+  bullet?: boolean;
+  /** Pixel mask for the `mask` narrowphase, e.g. from Sprite.getCollisionMask */
+  pixelMask?: CollisionMask | null;
+  /** Test after the box test (defaults to `shape`, then `mask`, then `aabb` depending on what is given) */
+  narrowphase?: Narrowphase;
+}
+
+/**
+ * A registered collider
+ */
+export interface Collider {
+  entityId: string;
+  layer: CollisionLayer;
+  mask: number;
+  bounds: BoundingBox;
+  enabled: boolean;
+  bullet: boolean;
+  pixelMask: CollisionMask | null;
+  shape: CollisionShape | null;
+  narrowphase: Narrowphase;
+}
+
+/**
+ * Two touching colliders, ordered by entity id
+ */
+export interface CollisionContact {
+  entityA: string;
+  entityB: string;
+  layerA: CollisionLayer;
+  layerB: CollisionLayer;
+  /** Penetration depth per axis; zero for exit events and for swept hits that passed through */
+  overlap: {
+    x: number;
+    y: number;
+  };
+  /** While touching, the smallest vector that moves entityA out of entityB */
+  penetration?: {
+    x: number;
+    y: number;
+  };
+  /** For swept contacts, fraction of the step at which the pair first touched */
+  time?: number;
+  /** For swept contacts, normal of entityB's face that entityA hit (zero if already overlapping) */
+  normal?: {
+    x: number;
+    y: number;
+  };
 }
 
+export type CollisionListener = (contact: CollisionContact) => void;
+
+/**
+ * Which layers each layer reacts to in the standard game rules
+ */
+export const DEFAULT_COLLISION_MASKS: Record<CollisionLayer, number> = {
+  [CollisionLayer.NONE]: 0,
+  [CollisionLayer.PLAYER]: CollisionLayer.ENEMY | CollisionLayer.ENEMY_BULLET,
+  [CollisionLayer.PLAYER_BULLET]:
+    CollisionLayer.ENEMY | CollisionLayer.ENEMY_BULLET | CollisionLayer.SHIELD | CollisionLayer.UFO,
+  [CollisionLayer.ENEMY]: CollisionLayer.PLAYER | CollisionLayer.PLAYER_BULLET | CollisionLayer.SHIELD,
+  [CollisionLayer.ENEMY_BULLET]: CollisionLayer.PLAYER | CollisionLayer.PLAYER_BULLET | CollisionLayer.SHIELD,
+  [CollisionLayer.SHIELD]: CollisionLayer.PLAYER_BULLET | CollisionLayer.ENEMY_BULLET | CollisionLayer.ENEMY,
+  [CollisionLayer.UFO]: CollisionLayer.PLAYER_BULLET
+};
+
+interface ColliderEntry extends BoundingBox {
+  collider: Collider;
+  /** Bounds at the end of the previous step */
+  start: BoundingBox;
+  displacement: Displacement;
+}
+
+const BULLET_LAYERS = CollisionLayer.PLAYER_BULLET | CollisionLayer.ENEMY_BULLET;
+
+// Cell size for the per-step spatial hash; a few invaders wide
+const BROADPHASE_CELL_SIZE = 32;
+
 /**
  * Represents a collision detection system using AABB algorithm
  */
 export class CollisionSystem {
   private static instance: CollisionSystem;
   private readonly collisionGroups: Map<string, Set<BoundingBox>>;
+  private readonly colliders: Map<string, Collider>;
+  private readonly lastPositions: Map<string, { x: number; y: number }>;
+  private readonly broadphase: SpatialHash<ColliderEntry>;
+  private contacts: Map<string, CollisionContact>;
+  private enterListeners: CollisionListener[];
+  private stayListeners: CollisionListener[];
+  private exitListeners: CollisionListener[];
 
   private constructor() {
     this.collisionGroups = new Map();
+    this.colliders = new Map();
+    this.lastPositions = new Map();
+    this.broadphase = new SpatialHash<ColliderEntry>(BROADPHASE_CELL_SIZE);
+    this.contacts = new Map();
+    this.enterListeners = [];
+    this.stayListeners = [];
+    this.exitListeners = [];
   }
 
   /**
@@ -49,7 +205,7 @@ export class CollisionSystem {
    * Checks for collision between two bounding boxes
    * @param boxA First bounding box
    * @param boxB Second bounding box
-   * @returns {CollisionResult} Collision result with overlap information
+   * @returns {CollisionResult} Collision result with overlap and penetration information
    * @throws {Error} If invalid bounding box parameters are provided
    */
   public checkCollision(boxA: BoundingBox, boxB: BoundingBox): CollisionResult {
@@ -65,7 +221,8 @@ export class CollisionSystem {
 
       return {
         hasCollision: true,
-        overlap: collision.overlap
+        overlap: collision.overlap,
+        penetration: collision.penetration
       };
     } catch (error) {
       console.error('Collision detection error:', error);
@@ -73,6 +230,24 @@ export class CollisionSystem {
     }
   }
 
+  /**
+   * Checks for collision between two shapes of any kind
+   * @param shapeA First shape
+   * @param shapeB Second shape
+   * @returns {CollisionResult} Collision result with overlap and penetration information
+   * @throws {Error} If a shape is invalid
+   */
+  public checkShapeCollision(shapeA: CollisionShape, shapeB: CollisionShape): CollisionResult {
+    try {
+      validateShape(shapeA);
+      validateShape(shapeB);
+      return this.detectShapeCollision(shapeA, shapeB);
+    } catch (error) {
+      console.error('Collision detection error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Adds a collision object to a specific group
    * @param groupId Group identifier
@@ -127,6 +302,262 @@ export class CollisionSystem {
     return collisions;
   }
 
+  /**
+   * Registers or replaces the collider for an entity
+   * @param entityId Entity identifier reported in contacts
+   * @param options Layer, mask and bounds or shape
+   * @returns {Collider} The registered collider
+   * @throws {Error} If neither valid bounds nor a valid shape are given
+   */
+  public addCollider(entityId: string, options: ColliderOptions): Collider {
+    const shape = options.shape ?? null;
+    let bounds: BoundingBox;
+    if (shape) {
+      validateShape(shape);
+      bounds = getShapeBounds(shape);
+    } else if (options.bounds) {
+      this.validateBoundingBox(options.bounds);
+      bounds = options.bounds;
+    } else {
+      throw new Error('Collider requires bounds or a shape');
+    }
+
+    const collider: Collider = {
+      entityId,
+      layer: options.layer,
+      mask: options.mask ?? DEFAULT_COLLISION_MASKS[options.layer] ?? 0,
+      bounds,
+      enabled: options.enabled ?? true,
+      bullet: options.bullet ?? (options.layer & BULLET_LAYERS) !== 0,
+      pixelMask: options.pixelMask ?? null,
+      shape,
+      narrowphase: options.narrowphase ?? (shape ? 'shape' : options.pixelMask ? 'mask' : 'aabb')
+    };
+    this.colliders.set(entityId, collider);
+    this.lastPositions.set(entityId, { x: bounds.x, y: bounds.y });
+    return collider;
+  }
+
+  /**
+   * Removes an entity's collider; its open contacts exit on the next step
+   * @param entityId Entity identifier
+   * @returns {boolean} True if a collider was removed
+   */
+  public removeCollider(entityId: string): boolean {
+    this.lastPositions.delete(entityId);
+    return this.colliders.delete(entityId);
+  }
+
+  /**
+   * Gets the collider registered for an entity
+   * @param entityId Entity identifier
+   */
+  public getCollider(entityId: string): Collider | undefined {
+    return this.colliders.get(entityId);
+  }
+
+  /**
+   * Moves an entity's collider; bullets sweep from their previous position unless teleported
+   * @param entityId Entity identifier
+   * @param bounds New world-space box
+   * @param teleport Skip the sweep for this move, e.g. when respawning
+   * @returns {boolean} True if the entity has a collider
+   */
+  public setColliderBounds(entityId: string, bounds: BoundingBox, teleport: boolean = false): boolean {
+    const collider = this.colliders.get(entityId);
+    if (!collider) return false;
+
+    this.validateBoundingBox(bounds);
+    collider.bounds = bounds;
+    if (teleport) {
+      this.lastPositions.set(entityId, { x: bounds.x, y: bounds.y });
+    }
+    return true;
+  }
+
+  /**
+   * Swaps an entity's pixel mask, e.g. when its sprite changes frame
+   * @param entityId Entity identifier
+   * @param pixelMask New mask, or null to test the bounds until one is available
+   * @returns {boolean} True if the entity has a collider
+   */
+  public setColliderMask(entityId: string, pixelMask: CollisionMask | null): boolean {
+    const collider = this.colliders.get(entityId);
+    if (!collider) return false;
+
+    collider.pixelMask = pixelMask;
+    return true;
+  }
+
+  /**
+   * Swaps an entity's shape and tests the collider with it from now on
+   * @param entityId Entity identifier
+   * @param shape New world-space shape
+   * @returns {boolean} True if the entity has a collider
+   * @throws {Error} If the shape is invalid
+   */
+  public setColliderShape(entityId: string, shape: CollisionShape): boolean {
+    const collider = this.colliders.get(entityId);
+    if (!collider) return false;
+
+    validateShape(shape);
+    collider.shape = shape;
+    collider.bounds = getShapeBounds(shape);
+    collider.narrowphase = 'shape';
+    return true;
+  }
+
+  /**
+   * Enables or disables an entity's collider without unregistering it
+   * @param entityId Entity identifier
+   * @param enabled Whether the collider takes part in steps
+   * @returns {boolean} True if the entity has a collider
+   */
+  public setColliderEnabled(entityId: string, enabled: boolean): boolean {
+    const collider = this.colliders.get(entityId);
+    if (!collider) return false;
+
+    if (enabled && !collider.enabled) {
+      // Do not sweep across the time the collider was switched off
+      this.lastPositions.set(entityId, { x: collider.bounds.x, y: collider.bounds.y });
+    }
+    collider.enabled = enabled;
+    return true;
+  }
+
+  /**
+   * Checks whether two colliders react to each other; both masks must accept the other layer
+   * @param a First collider
+   * @param b Second collider
+   */
+  public canCollide(a: Collider, b: Collider): boolean {
+    return (a.mask & b.layer) !== 0 && (b.mask & a.layer) !== 0;
+  }
+
+  /**
+   * Runs one collision pass over the registered colliders and notifies listeners.
+   * Pairs involving a bullet are swept over the movement since the last step.
+   * Listeners run after the pass, so they may add or remove colliders safely.
+   * @returns {CollisionContact[]} Contacts touching this step
+   */
+  public step(): CollisionContact[] {
+    const entries: ColliderEntry[] = [];
+    this.colliders.forEach(collider => {
+      if (collider.enabled && collider.layer !== CollisionLayer.NONE) {
+        entries.push(this.createEntry(collider));
+      }
+    });
+
+    const previous = this.contacts;
+    const current = new Map<string, CollisionContact>();
+    const entered: CollisionContact[] = [];
+    const stayed: CollisionContact[] = [];
+
+    for (const [first, second] of findOverlappingPairs(this.broadphase, entries)) {
+      if (!this.canCollide(first.collider, second.collider)) continue;
+
+      const [entryA, entryB] = first.collider.entityId < second.collider.entityId
+        ? [first, second]
+        : [second, first];
+      const a = entryA.collider;
+      const b = entryB.collider;
+
+      const refine = a.narrowphase !== 'aabb' || b.narrowphase !== 'aabb';
+      const result = this.testPair(a, a.bounds, b, b.bounds);
+      const touching = result.hasCollision;
+
+      let hit = a.bullet || b.bullet
+        ? sweepAABBPair(entryA.start, entryA.displacement, entryB.start, entryB.displacement)
+        : null;
+      if (hit && refine) {
+        const time = this.findNarrowphaseTime(entryA, entryB, hit.time);
+        hit = time === null ? null : { ...hit, time };
+      }
+      if (!touching && !hit) continue;
+
+      const key = `${a.entityId}|${b.entityId}`;
+      const contact: CollisionContact = {
+        entityA: a.entityId,
+        entityB: b.entityId,
+        layerA: a.layer,
+        layerB: b.layer,
+        overlap: touching && result.overlap ? result.overlap : { x: 0, y: 0 }
+      };
+      if (touching && result.penetration) {
+        contact.penetration = result.penetration;
+      }
+      if (hit) {
+        contact.time = hit.time;
+        contact.normal = hit.normal;
+      }
+
+      current.set(key, contact);
+      (previous.has(key) ? stayed : entered).push(contact);
+    }
+
+    const exited: CollisionContact[] = [];
+    previous.forEach((contact, key) => {
+      if (!current.has(key)) {
+        exited.push({ ...contact, overlap: { x: 0, y: 0 } });
+      }
+    });
+
+    this.contacts = current;
+    this.broadphase.clear();
+    for (const entry of entries) {
+      this.lastPositions.set(entry.collider.entityId, { x: entry.collider.bounds.x, y: entry.collider.bounds.y });
+    }
+
+    this.notify(this.enterListeners, entered);
+    this.notify(this.stayListeners, stayed);
+    this.notify(this.exitListeners, exited);
+
+    return Array.from(current.values());
+  }
+
+  /**
+   * Registers a listener for pairs that start touching
+   * @param listener Function called with the contact
+   * @returns Function that removes the listener
+   */
+  public onCollisionEnter(listener: CollisionListener): Unsubscribe {
+    this.enterListeners.push(listener);
+    return () => {
+      this.enterListeners = this.enterListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Registers a listener for pairs that keep touching, called once per step with the current overlap
+   * @param listener Function called with the contact
+   * @returns Function that removes the listener
+   */
+  public onCollisionStay(listener: CollisionListener): Unsubscribe {
+    this.stayListeners.push(listener);
+    return () => {
+      this.stayListeners = this.stayListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Registers a listener for pairs that stop touching, including when either collider is removed
+   * @param listener Function called with the contact
+   * @returns Function that removes the listener
+   */
+  public onCollisionExit(listener: CollisionListener): Unsubscribe {
+    this.exitListeners.push(listener);
+    return () => {
+      this.exitListeners = this.exitListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Gets the contacts found by the last step
+   */
+  public getContacts(): CollisionContact[] {
+    return Array.from(this.contacts.values());
+  }
+
   /**
    * Validates a bounding box object
    * @param box Bounding box to validate
@@ -161,24 +592,218 @@ export class CollisionSystem {
     );
 
     if (xOverlap > 0 && yOverlap > 0) {
+      // Push out along the shallower axis, away from the other box's centre
+      const centerDeltaX = boxA.x + boxA.width / 2 - (boxB.x + boxB.width / 2);
+      const centerDeltaY = boxA.y + boxA.height / 2 - (boxB.y + boxB.height / 2);
+      const penetration = xOverlap < yOverlap
+        ? { x: centerDeltaX < 0 ? -xOverlap : xOverlap, y: 0 }
+        : { x: 0, y: centerDeltaY < 0 ? -yOverlap : yOverlap };
+
       return {
         hasCollision: true,
         overlap: {
           x: xOverlap,
           y: yOverlap
-        }
+        },
+        penetration
       };
     }
 
     return { hasCollision: false };
   }
 
+  /**
+   * Performs collision detection between two shapes
+   * @param shapeA First shape
+   * @param shapeB Second shape
+   * @returns {CollisionResult} Collision result with overlap and penetration information
+   */
+  private detectShapeCollision(shapeA: CollisionShape, shapeB: CollisionShape): CollisionResult {
+    if (shapeA.type === 'box' && shapeB.type === 'box') {
+      return this.detectAABBCollision(shapeA, shapeB);
+    }
+
+    const contact = testShapes(shapeA, shapeB);
+    if (!contact) {
+      return { hasCollision: false };
+    }
+
+    return {
+      hasCollision: true,
+      overlap: {
+        x: Math.abs(contact.penetration.x),
+        y: Math.abs(contact.penetration.y)
+      },
+      penetration: contact.penetration
+    };
+  }
+
+  /**
+   * Builds the broadphase entry for a collider, covering a bullet's whole path
+   * @param collider Collider to place
+   */
+  private createEntry(collider: Collider): ColliderEntry {
+    if (collider.shape) {
+      collider.bounds = getShapeBounds(collider.shape);
+    }
+
+    const bounds = collider.bounds;
+    const last = this.lastPositions.get(collider.entityId) ?? bounds;
+    const start = { x: last.x, y: last.y, width: bounds.width, height: bounds.height };
+    const displacement = { x: bounds.x - last.x, y: bounds.y - last.y };
+    const area = collider.bullet ? getSweptBounds(start, displacement) : bounds;
+
+    return { x: area.x, y: area.y, width: area.width, height: area.height, collider, start, displacement };
+  }
+
+  /**
+   * Tests two colliders placed at the given bounds with the box test and their narrowphases
+   * @param a First collider
+   * @param boundsA Where to place the first collider
+   * @param b Second collider
+   * @param boundsB Where to place the second collider
+   */
+  private testPair(a: Collider, boundsA: BoundingBox, b: Collider, boundsB: BoundingBox): CollisionResult {
+    const box = this.detectAABBCollision(boundsA, boundsB);
+    if (!box.hasCollision || (a.narrowphase === 'aabb' && b.narrowphase === 'aabb')) {
+      return box;
+    }
+
+    if (a.narrowphase === 'shape' || b.narrowphase === 'shape') {
+      if (a.narrowphase === 'point' || b.narrowphase === 'point') {
+        const [pointBounds, other, otherBounds] = a.narrowphase === 'point'
+          ? [boundsA, b, boundsB]
+          : [boundsB, a, boundsA];
+        const inside = shapeContainsPoint(this.getShapeAt(other, otherBounds), this.getCenter(pointBounds));
+        return inside ? box : { hasCollision: false };
+      }
+      return this.detectShapeCollision(this.getShapeAt(a, boundsA), this.getShapeAt(b, boundsB));
+    }
+
+    return this.testNarrowphase(a, boundsA, b, boundsB) ? box : { hasCollision: false };
+  }
+
+  /**
+   * Gets a collider's shape moved to the given bounds, or the bounds as a box
+   * @param collider Collider to place
+   * @param bounds Where to place it
+   */
+  private getShapeAt(collider: Collider, bounds: BoundingBox): CollisionShape {
+    if (!collider.shape || collider.narrowphase !== 'shape') {
+      return boxShape(bounds);
+    }
+    if (bounds === collider.bounds) {
+      return collider.shape;
+    }
+    return translateShape(collider.shape, bounds.x - collider.bounds.x, bounds.y - collider.bounds.y);
+  }
+
+  /**
+   * Tests the pixel mask and point narrowphases of two colliders placed at the given bounds
+   * @param a First collider
+   * @param boundsA Where to place the first collider
+   * @param b Second collider
+   * @param boundsB Where to place the second collider
+   */
+  private testNarrowphase(a: Collider, boundsA: BoundingBox, b: Collider, boundsB: BoundingBox): boolean {
+    if (a.narrowphase === 'point' && b.narrowphase === 'point') {
+      return this.detectAABBCollision(boundsA, boundsB).hasCollision;
+    }
+    if (a.narrowphase === 'point') {
+      return maskContainsPoint(this.getShapeMask(b), boundsB, this.getCenter(boundsA));
+    }
+    if (b.narrowphase === 'point') {
+      return maskContainsPoint(this.getShapeMask(a), boundsA, this.getCenter(boundsB));
+    }
+    return masksOverlap(this.getShapeMask(a), boundsA, this.getShapeMask(b), boundsB);
+  }
+
+  /**
+   * Walks a swept pair from its box contact in steps of at most a pixel until the narrowphase passes
+   * @param entryA First collider entry
+   * @param entryB Second collider entry
+   * @param from Fraction of the step at which the boxes first touch
+   * @returns Fraction of the step at which the shapes touch, or null if they never do
+   */
+  private findNarrowphaseTime(entryA: ColliderEntry, entryB: ColliderEntry, from: number): number | null {
+    const relativeX = entryA.displacement.x - entryB.displacement.x;
+    const relativeY = entryA.displacement.y - entryB.displacement.y;
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(relativeX), Math.abs(relativeY)) * (1 - from)));
+
+    for (let index = 0; index <= steps; index++) {
+      const time = from + ((1 - from) * index) / steps;
+      if (this.testPair(
+        entryA.collider, this.placeAt(entryA, time),
+        entryB.collider, this.placeAt(entryB, time)
+      ).hasCollision) {
+        return time;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets where a collider entry was at a fraction of the step
+   * @param entry Collider entry
+   * @param time Fraction of the step
+   */
+  private placeAt(entry: ColliderEntry, time: number): BoundingBox {
+    return {
+      x: entry.start.x + entry.displacement.x * time,
+      y: entry.start.y + entry.displacement.y * time,
+      width: entry.start.width,
+      height: entry.start.height
+    };
+  }
+
+  /**
+   * Gets the pixel mask a collider is tested with, or null to test its whole box
+   * @param collider Collider to test
+   */
+  private getShapeMask(collider: Collider): CollisionMask | null {
+    return collider.narrowphase === 'mask' ? collider.pixelMask : null;
+  }
+
+  /**
+   * Gets the centre of a box
+   * @param box Box to measure
+   */
+  private getCenter(box: BoundingBox): { x: number; y: number } {
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  }
+
+  /**
+   * Invokes listeners for each contact, isolating listener errors
+   * @param listeners Listeners to call
+   * @param contacts Contacts to report
+   */
+  private notify(listeners: CollisionListener[], contacts: CollisionContact[]): void {
+    for (const contact of contacts) {
+      for (const listener of listeners) {
+        try {
+          listener(contact);
+        } catch (error) {
+          console.error('Error in collision listener:', error);
+        }
+      }
+    }
+  }
+
   /**
    * Clears all collision groups
    */
   public clearCollisionGroups(): void {
     this.collisionGroups.clear();
   }
+
+  /**
+   * Removes every collider and forgets open contacts without reporting exits
+   */
+  public clearColliders(): void {
+    this.colliders.clear();
+    this.lastPositions.clear();
+    this.contacts.clear();
+  }
 }
 
 export default CollisionSystem;
\ No newline at end of file
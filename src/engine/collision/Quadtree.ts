@@ -4,6 +4,8 @@
  * Provides O(log n) performance for spatial queries in a 2D space.
  */
 
+import { Broadphase, BroadphaseObject, boxesOverlap } from './Broadphase';
+
 /**
  * Represents a 2D boundary rectangle used by the Quadtree
  */
@@ -17,12 +19,25 @@ interface Boundary {
 /**
  * Represents an object that can be stored in the Quadtree
  */
-interface QuadtreeObject {
+export type QuadtreeObject = BroadphaseObject;
+
+/**
+ * Represents a point used by radius, nearest and raycast queries
+ */
+interface QueryPoint {
     x: number;
     y: number;
-    width: number;
-    height: number;
-    id?: string | number;
+}
+
+/**
+ * An object hit by a raycast
+ */
+export interface RaycastHit<T extends QuadtreeObject = QuadtreeObject> {
+    object: T;
+    /** Distance from the segment start to the entry point */
+    distance: number;
+    /** Where the segment enters the object's bounds */
+    point: QueryPoint;
 }
 
 /**
@@ -37,11 +52,14 @@ const QUADTREE_CONFIG = {
 /**
  * Quadtree class for spatial partitioning and efficient collision detection
  */
-export class Quadtree {
+export class Quadtree<T extends QuadtreeObject = QuadtreeObject> implements Broadphase<T> {
     private boundary: Boundary;
-    private objects: QuadtreeObject[];
-    private nodes: Quadtree[];
+    private objects: T[];
+    private nodes: Quadtree<T>[];
     private level: number;
+    private parent: Quadtree<T> | null;
+    // Node holding each object, shared by the whole tree
+    private locations: Map<T, Quadtree<T>>;
 
     /**
      * Creates a new Quadtree instance
@@ -57,6 +75,8 @@ export class Quadtree {
         this.level = level;
         this.objects = [];
         this.nodes = [];
+        this.parent = null;
+        this.locations = new Map();
     }
 
     /**
@@ -84,6 +104,7 @@ export class Quadtree {
         }
 
         this.nodes = [];
+        this.locations.clear();
     }
 
     /**
@@ -100,25 +121,20 @@ export class Quadtree {
             return;
         }
 
-        this.nodes[0] = new Quadtree(
-            { x: x + subWidth, y: y, width: subWidth, height: subHeight },
-            this.level + 1
-        );
-
-        this.nodes[1] = new Quadtree(
-            { x: x, y: y, width: subWidth, height: subHeight },
-            this.level + 1
-        );
-
-        this.nodes[2] = new Quadtree(
-            { x: x, y: y + subHeight, width: subWidth, height: subHeight },
-            this.level + 1
-        );
+        this.nodes[0] = this.createChild({ x: x + subWidth, y: y, width: subWidth, height: subHeight });
+        this.nodes[1] = this.createChild({ x: x, y: y, width: subWidth, height: subHeight });
+        this.nodes[2] = this.createChild({ x: x, y: y + subHeight, width: subWidth, height: subHeight });
+        this.nodes[3] = this.createChild({ x: x + subWidth, y: y + subHeight, width: subWidth, height: subHeight });
+    }
 
-        this.nodes[3] = new Quadtree(
-            { x: x + subWidth, y: y + subHeight, width: subWidth, height: subHeight },
-            this.level + 1
-        );
+    /**
+     * Creates a subnode sharing this tree's object locations
+     */
+    private createChild(boundary: Boundary): Quadtree<T> {
+        const child = new Quadtree<T>(boundary, this.level + 1);
+        child.parent = this;
+        child.locations = this.locations;
+        return child;
     }
 
     /**
@@ -128,10 +144,18 @@ export class Quadtree {
      */
     private getIndices(object: QuadtreeObject): number[] {
         const indices: number[] = [];
+
+        // Objects reaching outside this node stay in it, so subnode bounds always enclose their objects
+        if (object.x < this.boundary.x || object.y < this.boundary.y ||
+            object.x + object.width > this.boundary.x + this.boundary.width ||
+            object.y + object.height > this.boundary.y + this.boundary.height) {
+            return indices;
+        }
+
         const verticalMidpoint = this.boundary.x + (this.boundary.width / 2);
         const horizontalMidpoint = this.boundary.y + (this.boundary.height / 2);
 
-        const topQuadrant = object.y < horizontalMidpoint && 
+        const topQuadrant = object.y < horizontalMidpoint &&
                            object.y + object.height < horizontalMidpoint;
         const bottomQuadrant = object.y > horizontalMidpoint;
 
@@ -149,37 +173,57 @@ export class Quadtree {
     }
 
     /**
-     * Inserts an object into the quadtree
+     * Inserts an object into the quadtree; inserting an object already in the tree updates it
      * @param object - The object to insert
      */
-    public insert(object: QuadtreeObject): void {
+    public insert(object: T): void {
         if (!this.boundary) {
             throw new Error('Quadtree boundary not set');
         }
 
+        if (this.locations.has(object)) {
+            this.update(object);
+            return;
+        }
+
+        this.insertObject(object);
+    }
+
+    /**
+     * Places an object in the deepest node that fully contains it
+     */
+    private insertObject(object: T): void {
         if (this.nodes.length) {
             const indices = this.getIndices(object);
 
             for (const index of indices) {
-                this.nodes[index].insert(object);
+                this.nodes[index].insertObject(object);
+            }
+
+            // Objects straddling a midpoint stay in this node
+            if (indices.length > 0) {
+                return;
             }
-            return;
         }
 
         this.objects.push(object);
+        this.locations.set(object, this);
 
-        if (this.objects.length > QUADTREE_CONFIG.MAX_OBJECTS && 
+        if (this.objects.length > QUADTREE_CONFIG.MAX_OBJECTS &&
             this.level < QUADTREE_CONFIG.MAX_LEVELS) {
             if (this.nodes.length === 0) {
                 this.split();
             }
+            if (this.nodes.length === 0) {
+                return;
+            }
 
             let i = 0;
             while (i < this.objects.length) {
                 const indices = this.getIndices(this.objects[i]);
                 if (indices.length > 0) {
                     for (const index of indices) {
-                        this.nodes[index].insert(this.objects[i]);
+                        this.nodes[index].insertObject(this.objects[i]);
                     }
                     this.objects.splice(i, 1);
                 } else {
@@ -189,22 +233,128 @@ export class Quadtree {
         }
     }
 
+    /**
+     * Removes an object, wherever it has moved since it was inserted
+     * @param object - The object to remove
+     * @returns True if the object was in the tree
+     */
+    public remove(object: T): boolean {
+        const node = this.locations.get(object);
+        if (!node) {
+            return false;
+        }
+
+        const index = node.objects.indexOf(object);
+        if (index !== -1) {
+            node.objects.splice(index, 1);
+        }
+        this.locations.delete(object);
+        node.parent?.tryMerge();
+        return true;
+    }
+
+    /**
+     * Moves an object to the right node after its bounds changed, without rebuilding the tree
+     * @param object - The object whose x, y, width or height changed
+     */
+    public update(object: T): void {
+        const node = this.locations.get(object);
+
+        // Stay put while the object still belongs in its current node
+        if (node && node.belongsHere(object)) {
+            return;
+        }
+
+        if (node) {
+            this.remove(object);
+        }
+        this.getRoot().insertObject(object);
+    }
+
+    /**
+     * Checks whether an object is in the tree
+     * @param object - The object to look for
+     */
+    public has(object: T): boolean {
+        return this.locations.has(object);
+    }
+
+    /**
+     * Gets the number of objects in the tree
+     */
+    public size(): number {
+        return this.locations.size;
+    }
+
     /**
      * Returns all objects that could collide with the given object
      * @param object - The object to check for potential collisions
      * @returns Array of objects that might collide with the given object
      */
-    public retrieve(object: QuadtreeObject): QuadtreeObject[] {
-        const indices = this.getIndices(object);
-        let returnObjects = this.objects;
+    public retrieve(object: QuadtreeObject): T[] {
+        const found: T[] = [];
+        this.collect(object, found, () => true);
+        return found;
+    }
 
-        if (this.nodes.length) {
-            for (const index of indices) {
-                returnObjects = returnObjects.concat(this.nodes[index].retrieve(object));
-            }
+    /**
+     * Finds objects overlapping a rectangle
+     * @param area - The rectangle to search
+     * @returns Objects whose bounds overlap the area
+     */
+    public query(area: QuadtreeObject): T[] {
+        const found: T[] = [];
+        this.collect(area, found, candidate => boxesOverlap(area, candidate));
+        return found;
+    }
+
+    /**
+     * Finds objects overlapping a circle
+     * @param center - Circle center
+     * @param radius - Circle radius
+     * @returns Objects whose bounds overlap the circle
+     */
+    public queryRadius(center: QueryPoint, radius: number): T[] {
+        const area = { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+        const radiusSquared = radius * radius;
+        const found: T[] = [];
+        this.collect(area, found, candidate => Quadtree.distanceSquared(center, candidate) <= radiusSquared);
+        return found;
+    }
+
+    /**
+     * Finds the objects closest to a point, measured to the nearest edge of their bounds
+     * @param point - Point to measure from
+     * @param count - Maximum number of objects to return
+     * @param maxDistance - Ignore objects farther away than this
+     * @returns Up to `count` objects, closest first
+     */
+    public nearest(point: QueryPoint, count: number = 1, maxDistance: number = Infinity): T[] {
+        const best: Array<{ object: T; distance: number }> = [];
+        if (count <= 0) {
+            return [];
         }
 
-        return returnObjects;
+        const limit = maxDistance * maxDistance;
+        this.findNearest(point, count, limit, best);
+        return best.map(entry => entry.object);
+    }
+
+    /**
+     * Finds objects crossed by a line segment, e.g. for lasers or line of sight
+     * @param from - Segment start
+     * @param to - Segment end
+     * @param filter - Optional predicate to skip objects, such as the shooter
+     * @returns Hits ordered by distance from the start
+     */
+    public raycast(from: QueryPoint, to: QueryPoint, filter?: (object: T) => boolean): RaycastHit<T>[] {
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const length = Math.hypot(dx, dy);
+        const hits: RaycastHit<T>[] = [];
+
+        this.collectRayHits(from, dx, dy, length, hits, filter);
+        return hits.sort((a, b) => a.distance - b.distance);
     }
 
     /**
@@ -214,11 +364,186 @@ export class Quadtree {
      * @returns Boolean indicating whether the objects are colliding
      */
     public static checkCollision(objA: QuadtreeObject, objB: QuadtreeObject): boolean {
-        return !(
-            objA.x + objA.width < objB.x ||
-            objA.x > objB.x + objB.width ||
-            objA.y + objA.height < objB.y ||
-            objA.y > objB.y + objB.height
-        );
+        return boxesOverlap(objA, objB);
+    }
+
+    /**
+     * Gathers objects from every node overlapping an area that pass a test
+     */
+    private collect(area: QuadtreeObject, found: T[], accept: (candidate: T) => boolean): void {
+        for (const object of this.objects) {
+            if (accept(object)) {
+                found.push(object);
+            }
+        }
+
+        for (const node of this.nodes) {
+            if (boxesOverlap(area, node.boundary)) {
+                node.collect(area, found, accept);
+            }
+        }
+    }
+
+    /**
+     * Best-first nearest search, skipping nodes farther than the current worst result
+     */
+    private findNearest(
+        point: QueryPoint,
+        count: number,
+        limit: number,
+        best: Array<{ object: T; distance: number }>
+    ): void {
+        for (const object of this.objects) {
+            const distance = Quadtree.distanceSquared(point, object);
+            if (distance > limit || (best.length === count && distance >= best[count - 1].distance)) {
+                continue;
+            }
+
+            let index = best.length;
+            while (index > 0 && best[index - 1].distance > distance) {
+                index--;
+            }
+            best.splice(index, 0, { object, distance });
+            if (best.length > count) {
+                best.pop();
+            }
+        }
+
+        const children = this.nodes
+            .map(node => ({ node, distance: Quadtree.distanceSquared(point, node.boundary) }))
+            .sort((a, b) => a.distance - b.distance);
+
+        for (const { node, distance } of children) {
+            // Subnodes only hold objects inside their bounds, so this distance is a lower bound
+            if (distance > limit || (best.length === count && distance >= best[count - 1].distance)) {
+                continue;
+            }
+            node.findNearest(point, count, limit, best);
+        }
+    }
+
+    /**
+     * Adds hits in this node and every subnode the segment crosses
+     */
+    private collectRayHits(
+        from: QueryPoint,
+        dx: number,
+        dy: number,
+        length: number,
+        hits: RaycastHit<T>[],
+        filter?: (object: T) => boolean
+    ): void {
+        for (const object of this.objects) {
+            if (filter && !filter(object)) {
+                continue;
+            }
+
+            const t = Quadtree.segmentEntry(from, dx, dy, object);
+            if (t !== null) {
+                hits.push({
+                    object,
+                    distance: t * length,
+                    point: { x: from.x + dx * t, y: from.y + dy * t }
+                });
+            }
+        }
+
+        for (const node of this.nodes) {
+            if (Quadtree.segmentEntry(from, dx, dy, node.boundary) !== null) {
+                node.collectRayHits(from, dx, dy, length, hits, filter);
+            }
+        }
+    }
+
+    /**
+     * Checks whether an object is still placed correctly in this node
+     */
+    private belongsHere(object: QuadtreeObject): boolean {
+        // A subnode must still be the parent's choice for the object
+        if (this.parent && this.parent.getIndices(object).indexOf(this.parent.nodes.indexOf(this)) === -1) {
+            return false;
+        }
+        return this.nodes.length === 0 || this.getIndices(object).length === 0;
+    }
+
+    /**
+     * Folds subnodes back into this node once they hold few enough objects
+     */
+    private tryMerge(): void {
+        if (this.nodes.length === 0) {
+            return;
+        }
+
+        const descendants: T[] = [];
+        for (const node of this.nodes) {
+            if (node.nodes.length > 0) {
+                return;
+            }
+            descendants.push(...node.objects);
+        }
+
+        if (this.objects.length + descendants.length > QUADTREE_CONFIG.MAX_OBJECTS) {
+            return;
+        }
+
+        for (const object of descendants) {
+            this.objects.push(object);
+            this.locations.set(object, this);
+        }
+        this.nodes = [];
+        this.parent?.tryMerge();
+    }
+
+    private getRoot(): Quadtree<T> {
+        let node: Quadtree<T> = this;
+        while (node.parent) {
+            node = node.parent;
+        }
+        return node;
+    }
+
+    /**
+     * Squared distance from a point to the nearest point of a box; 0 inside it
+     */
+    private static distanceSquared(point: QueryPoint, box: QuadtreeObject): number {
+        const dx = Math.max(box.x - point.x, 0, point.x - (box.x + box.width));
+        const dy = Math.max(box.y - point.y, 0, point.y - (box.y + box.height));
+        return dx * dx + dy * dy;
     }
-}
\ No newline at end of file
+
+    /**
+     * Slab test for a segment against a box
+     * @returns Fraction along the segment where it enters the box (0 if it starts inside), or null if it misses
+     */
+    private static segmentEntry(from: QueryPoint, dx: number, dy: number, box: QuadtreeObject): number | null {
+        let tMin = 0;
+        let tMax = 1;
+
+        const axes: Array<[number, number, number, number]> = [
+            [from.x, dx, box.x, box.x + box.width],
+            [from.y, dy, box.y, box.y + box.height]
+        ];
+
+        for (const [origin, direction, min, max] of axes) {
+            if (direction === 0) {
+                if (origin < min || origin > max) {
+                    return null;
+                }
+                continue;
+            }
+
+            let t1 = (min - origin) / direction;
+            let t2 = (max - origin) / direction;
+            if (t1 > t2) {
+                [t1, t2] = [t2, t1];
+            }
+            tMin = Math.max(tMin, t1);
+            tMax = Math.min(tMax, t2);
+            if (tMin > tMax) {
+                return null;
+            }
+        }
+
+        return tMin;
+    }
+}
@@ -0,0 +1,349 @@
+/**
+ * @file Shapes.ts
+ * @description Collision shapes beyond axis-aligned boxes: circles, capsules
+ * (a segment with a radius, e.g. for lasers) and convex polygons. Every pair
+ * is tested with the separating axis theorem on each shape's core (its
+ * points, segment or polygon) grown by its radius, and reports the smallest
+ * vector that pushes the first shape out of the second.
+ * @module engine/collision
+ */
+
+import { BroadphaseObject } from './Broadphase';
+
+// =========================================================
+// Types and Interfaces
+// =========================================================
+
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+export interface BoxShape {
+  type: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CircleShape {
+  type: 'circle';
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface CapsuleShape {
+  type: 'capsule';
+  start: ShapePoint;
+  end: ShapePoint;
+  radius: number;
+}
+
+export interface PolygonShape {
+  type: 'polygon';
+  /** World-space vertices of a convex polygon, in either winding order */
+  points: ShapePoint[];
+}
+
+export type CollisionShape = BoxShape | CircleShape | CapsuleShape | PolygonShape;
+
+/**
+ * Result of a shape test
+ */
+export interface ShapeContact {
+  /** Vector that moves the first shape out of the second */
+  penetration: ShapePoint;
+  /** Length of the penetration vector */
+  depth: number;
+}
+
+/**
+ * A shape reduced to its core points and the radius around them
+ */
+interface RoundedCore {
+  points: ShapePoint[];
+  radius: number;
+}
+
+// Fallback axes so coincident circles still get a separation direction
+const BASE_AXES: ShapePoint[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }];
+
+// =========================================================
+// Shape Functions
+// =========================================================
+
+/**
+ * Creates a box shape from a bounding box
+ * @param box - Bounding box
+ */
+export function boxShape(box: BroadphaseObject): BoxShape {
+  return { type: 'box', x: box.x, y: box.y, width: box.width, height: box.height };
+}
+
+/**
+ * Gets the bounding box of a shape
+ * @param shape - Shape to measure
+ */
+export function getShapeBounds(shape: CollisionShape): BroadphaseObject {
+  switch (shape.type) {
+    case 'box':
+      return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+    case 'circle':
+      return {
+        x: shape.x - shape.radius,
+        y: shape.y - shape.radius,
+        width: shape.radius * 2,
+        height: shape.radius * 2
+      };
+    case 'capsule': {
+      const left = Math.min(shape.start.x, shape.end.x) - shape.radius;
+      const top = Math.min(shape.start.y, shape.end.y) - shape.radius;
+      return {
+        x: left,
+        y: top,
+        width: Math.abs(shape.end.x - shape.start.x) + shape.radius * 2,
+        height: Math.abs(shape.end.y - shape.start.y) + shape.radius * 2
+      };
+    }
+    case 'polygon': {
+      const xs = shape.points.map(point => point.x);
+      const ys = shape.points.map(point => point.y);
+      const left = Math.min(...xs);
+      const top = Math.min(...ys);
+      return { x: left, y: top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+    }
+  }
+}
+
+/**
+ * Creates a copy of a shape moved by an offset
+ * @param shape - Shape to move
+ * @param dx - Horizontal offset
+ * @param dy - Vertical offset
+ */
+export function translateShape(shape: CollisionShape, dx: number, dy: number): CollisionShape {
+  switch (shape.type) {
+    case 'box':
+    case 'circle':
+      return { ...shape, x: shape.x + dx, y: shape.y + dy };
+    case 'capsule':
+      return {
+        ...shape,
+        start: { x: shape.start.x + dx, y: shape.start.y + dy },
+        end: { x: shape.end.x + dx, y: shape.end.y + dy }
+      };
+    case 'polygon':
+      return { ...shape, points: shape.points.map(point => ({ x: point.x + dx, y: point.y + dy })) };
+  }
+}
+
+/**
+ * Checks a shape's dimensions
+ * @param shape - Shape to check
+ * @throws Error if a dimension is not a finite number, a size is negative or a polygon is not convex
+ */
+export function validateShape(shape: CollisionShape): void {
+  const core = toCore(shape);
+  if (!core.points.every(point => Number.isFinite(point.x) && Number.isFinite(point.y))) {
+    throw new Error(`Invalid ${shape.type} shape coordinates`);
+  }
+  if (!Number.isFinite(core.radius) || core.radius < 0) {
+    throw new Error(`Invalid ${shape.type} shape radius`);
+  }
+
+  if (shape.type === 'box' && (shape.width < 0 || shape.height < 0)) {
+    throw new Error('Box shape dimensions cannot be negative');
+  }
+  if (shape.type === 'polygon') {
+    if (shape.points.length < 3) {
+      throw new Error('Polygon shape needs at least 3 points');
+    }
+    if (!isConvex(shape.points)) {
+      throw new Error('Polygon shape must be convex');
+    }
+  }
+}
+
+/**
+ * Tests two shapes for overlap; touching edges do not count
+ * @param a - First shape
+ * @param b - Second shape
+ * @returns The contact, or null if the shapes are apart
+ */
+export function testShapes(a: CollisionShape, b: CollisionShape): ShapeContact | null {
+  const coreA = toCore(a);
+  const coreB = toCore(b);
+  const axes = [...BASE_AXES, ...getEdgeNormals(coreA.points), ...getEdgeNormals(coreB.points)];
+
+  // Rounded shapes can also be separated along the line from a vertex to the nearest core point
+  if (coreA.radius > 0 || coreB.radius > 0) {
+    axes.push(...getVertexAxes(coreA.points, coreB.points), ...getVertexAxes(coreB.points, coreA.points));
+  }
+
+  let depth = Infinity;
+  let best = axes[0];
+
+  for (const axis of axes) {
+    const [minA, maxA] = project(coreA, axis);
+    const [minB, maxB] = project(coreB, axis);
+    const overlap = Math.min(maxA - minB, maxB - minA);
+    if (overlap <= 0) {
+      return null;
+    }
+    if (overlap < depth) {
+      depth = overlap;
+      best = axis;
+    }
+  }
+
+  // Push the first shape away from the second along the shallowest axis
+  const centerA = getCentroid(coreA.points);
+  const centerB = getCentroid(coreB.points);
+  const side = dot(centerA, best) < dot(centerB, best) ? -1 : 1;
+
+  return {
+    // Adding zero turns -0 into 0 on the untouched axis
+    penetration: { x: best.x * depth * side + 0, y: best.y * depth * side + 0 },
+    depth
+  };
+}
+
+/**
+ * Checks whether a point lies strictly inside a shape
+ * @param shape - Shape to test
+ * @param point - World-space point
+ */
+export function shapeContainsPoint(shape: CollisionShape, point: ShapePoint): boolean {
+  return testShapes(shape, { type: 'circle', x: point.x, y: point.y, radius: 0 }) !== null;
+}
+
+// =========================================================
+// Private Helpers
+// =========================================================
+
+function toCore(shape: CollisionShape): RoundedCore {
+  switch (shape.type) {
+    case 'box':
+      return {
+        points: [
+          { x: shape.x, y: shape.y },
+          { x: shape.x + shape.width, y: shape.y },
+          { x: shape.x + shape.width, y: shape.y + shape.height },
+          { x: shape.x, y: shape.y + shape.height }
+        ],
+        radius: 0
+      };
+    case 'circle':
+      return { points: [{ x: shape.x, y: shape.y }], radius: shape.radius };
+    case 'capsule':
+      return { points: [shape.start, shape.end], radius: shape.radius };
+    case 'polygon':
+      return { points: shape.points, radius: 0 };
+  }
+}
+
+function project(core: RoundedCore, axis: ShapePoint): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const point of core.points) {
+    const value = dot(point, axis);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return [min - core.radius, max + core.radius];
+}
+
+function getEdgeNormals(points: ShapePoint[]): ShapePoint[] {
+  if (points.length < 2) {
+    return [];
+  }
+
+  // A segment has one edge; a polygon closes back to its first point
+  const edgeCount = points.length === 2 ? 1 : points.length;
+  const normals: ShapePoint[] = [];
+  for (let index = 0; index < edgeCount; index++) {
+    const from = points[index];
+    const to = points[(index + 1) % points.length];
+    const normal = normalize({ x: from.y - to.y, y: to.x - from.x });
+    if (normal) {
+      normals.push(normal);
+    }
+  }
+  return normals;
+}
+
+function getVertexAxes(vertices: ShapePoint[], core: ShapePoint[]): ShapePoint[] {
+  const axes: ShapePoint[] = [];
+  for (const vertex of vertices) {
+    const closest = closestPointOnCore(core, vertex);
+    const axis = normalize({ x: vertex.x - closest.x, y: vertex.y - closest.y });
+    if (axis) {
+      axes.push(axis);
+    }
+  }
+  return axes;
+}
+
+function closestPointOnCore(core: ShapePoint[], point: ShapePoint): ShapePoint {
+  if (core.length === 1) {
+    return core[0];
+  }
+
+  let best = core[0];
+  let bestDistance = Infinity;
+  const edgeCount = core.length === 2 ? 1 : core.length;
+  for (let index = 0; index < edgeCount; index++) {
+    const candidate = closestPointOnSegment(core[index], core[(index + 1) % core.length], point);
+    const distance = (candidate.x - point.x) ** 2 + (candidate.y - point.y) ** 2;
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function closestPointOnSegment(start: ShapePoint, end: ShapePoint, point: ShapePoint): ShapePoint {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return start;
+  }
+
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return { x: start.x + dx * t, y: start.y + dy * t };
+}
+
+function isConvex(points: ShapePoint[]): boolean {
+  let sign = 0;
+  for (let index = 0; index < points.length; index++) {
+    const a = points[index];
+    const b = points[(index + 1) % points.length];
+    const c = points[(index + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) {
+        return false;
+      }
+      sign = Math.sign(cross);
+    }
+  }
+  return sign !== 0;
+}
+
+function getCentroid(points: ShapePoint[]): ShapePoint {
+  const sum = points.reduce((total, point) => ({ x: total.x + point.x, y: total.y + point.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function normalize(vector: ShapePoint): ShapePoint | null {
+  const length = Math.hypot(vector.x, vector.y);
+  return length === 0 ? null : { x: vector.x / length, y: vector.y / length };
+}
+
+function dot(a: ShapePoint, b: ShapePoint): number {
+  return a.x * b.x + a.y * b.y;
+}
@@ -0,0 +1,135 @@
+/**
+ * @file SpatialHash.ts
+ * @description Uniform-grid spatial hash broadphase.
+ * Objects are bucketed into every fixed-size cell their bounds touch, so
+ * inserts and queries cost the number of cells covered. Suits scenes like
+ * invader formations where objects are evenly sized and spread out.
+ * @module engine/collision
+ */
+
+import { Broadphase, BroadphaseObject } from './Broadphase';
+
+// =========================================================
+// Constants
+// =========================================================
+
+const DEFAULT_CELL_SIZE = 64;
+
+// Cell coordinates are packed into one number; this offset keeps negative
+// coordinates positive and supports +/-32768 cells per axis
+const CELL_OFFSET = 0x8000;
+const CELL_STRIDE = 0x10000;
+
+// =========================================================
+// Main SpatialHash Class
+// =========================================================
+
+export class SpatialHash<T extends BroadphaseObject = BroadphaseObject> implements Broadphase<T> {
+  private cellSize: number;
+  private cells: Map<number, T[]>;
+
+  /**
+   * Creates a new SpatialHash
+   * @param cellSize - Cell edge length; around twice the typical object size works well (defaults to 64)
+   * @throws Error if the cell size is not positive
+   */
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    if (!Number.isFinite(cellSize) || cellSize <= 0) {
+      throw new Error('Spatial hash cell size must be a positive number');
+    }
+
+    this.cellSize = cellSize;
+    this.cells = new Map();
+  }
+
+  /**
+   * Removes every object
+   */
+  public clear(): void {
+    this.cells.clear();
+  }
+
+  /**
+   * Adds an object to every cell its bounds touch
+   * @param object - Object to insert
+   */
+  public insert(object: T): void {
+    this.forEachCell(object, key => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(object);
+      } else {
+        this.cells.set(key, [object]);
+      }
+    });
+  }
+
+  /**
+   * Removes an object, using the bounds it was inserted with
+   * @param object - Object to remove
+   * @returns True if the object was found
+   */
+  public remove(object: T): boolean {
+    let removed = false;
+    this.forEachCell(object, key => {
+      const cell = this.cells.get(key);
+      const index = cell ? cell.indexOf(object) : -1;
+      if (cell && index !== -1) {
+        cell.splice(index, 1);
+        if (cell.length === 0) {
+          this.cells.delete(key);
+        }
+        removed = true;
+      }
+    });
+    return removed;
+  }
+
+  /**
+   * Gets objects sharing a cell with an area, each at most once
+   * @param area - Area to query
+   */
+  public retrieve(area: BroadphaseObject): T[] {
+    const found = new Set<T>();
+    this.forEachCell(area, key => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.forEach(object => found.add(object));
+      }
+    });
+    return Array.from(found);
+  }
+
+  /**
+   * Gets the number of occupied cells
+   */
+  public getCellCount(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Gets the cell edge length
+   */
+  public getCellSize(): number {
+    return this.cellSize;
+  }
+
+  // =========================================================
+  // Private Methods
+  // =========================================================
+
+  private forEachCell(box: BroadphaseObject, callback: (key: number) => void): void {
+    const minX = Math.floor(box.x / this.cellSize);
+    const minY = Math.floor(box.y / this.cellSize);
+    const maxX = Math.floor((box.x + box.width) / this.cellSize);
+    const maxY = Math.floor((box.y + box.height) / this.cellSize);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        callback((cx + CELL_OFFSET) * CELL_STRIDE + (cy + CELL_OFFSET));
+      }
+    }
+  }
+}
+
+export default SpatialHash;
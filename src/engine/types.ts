@@ -28,6 +28,11 @@ export type Dimensions = {
   height: number;
 };
 
+/**
+ * Represents an axis-aligned rectangle
+ */
+export type Rect = Point2D & Dimensions;
+
 /**
  * Represents RGBA color values
  */
@@ -70,12 +75,30 @@ export interface IRenderableObject {
   zIndex: number;
 }
 
+/**
+ * The part of the 2D canvas context the engine draws with. A real
+ * CanvasRenderingContext2D satisfies it, and so does the headless RecordingContext.
+ */
+export interface DrawingContext extends Pick<CanvasRenderingContext2D,
+  | 'fillStyle' | 'strokeStyle' | 'globalAlpha' | 'globalCompositeOperation'
+  | 'lineWidth' | 'lineCap' | 'lineJoin' | 'font' | 'textAlign' | 'textBaseline'
+  | 'imageSmoothingEnabled' | 'save' | 'restore' | 'setLineDash' | 'getLineDash'
+  | 'translate' | 'rotate' | 'scale' | 'transform' | 'setTransform' | 'resetTransform'
+  | 'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'bezierCurveTo'
+  | 'arcTo' | 'rect' | 'arc' | 'ellipse' | 'fill' | 'stroke' | 'clip'
+  | 'fillRect' | 'strokeRect' | 'clearRect' | 'drawImage' | 'fillText' | 'strokeText'
+  | 'createLinearGradient' | 'createRadialGradient' | 'createPattern'
+> {
+  /** Current transform; a DOMMatrix on a real canvas context */
+  getTransform(): DOMMatrix2DInit;
+}
+
 /**
  * Defines the core rendering context capabilities
  */
 export interface IRenderingContext {
-  /** The underlying canvas context */
-  context: CanvasRenderingContext2D;
+  /** The context to draw with */
+  context: DrawingContext;
   /** Canvas dimensions */
   dimensions: Dimensions;
   /** Clears the entire canvas */
@@ -84,6 +107,28 @@ export interface IRenderingContext {
   beginFrame(): void;
   /** Ends the current render frame */
   endFrame(): void;
+  /** Interpolation alpha between the last two fixed updates (0-1) */
+  interpolation?: number;
+}
+
+/**
+ * Defines objects that can report an interpolated transform for rendering
+ */
+export interface IInterpolatable {
+  /** Position blended between the previous and current fixed update */
+  getRenderPosition(alpha: number): Point2D;
+  /** Rotation blended between the previous and current fixed update */
+  getRenderRotation?(alpha: number): number;
+}
+
+/**
+ * A renderable object that draws itself in local coordinates.
+ * The renderer translates the origin to the object's top-left corner and applies
+ * rotation about its center and opacity before calling `draw`.
+ */
+export interface ISceneObject extends IRenderableObject {
+  /** Draws the object between (0, 0) and its dimensions */
+  draw(context: IRenderingContext): void;
 }
 
 /**
@@ -132,6 +177,8 @@ export interface RenderLayer {
   blendMode: GlobalCompositeOperation;
   /** Objects in this layer */
   objects: IRenderableObject[];
+  /** Render into an offscreen canvas that is only redrawn when marked dirty */
+  cached?: boolean;
 }
 
 // =========================================================================
@@ -153,7 +200,7 @@ export class CanvasError extends Error {
 // =========================================================================
 
 /**
- * Represents a transformation matrix
+ * Represents an affine transformation matrix in `setTransform` order [a, b, c, d, e, f]
  */
 export type Transform2D = [
   number, number, number,
@@ -206,6 +253,24 @@ export function isPoint2D(value: unknown): value is Point2D {
   );
 }
 
+/**
+ * Type guard to check if a renderable object can draw itself
+ */
+export function isSceneObject(value: IRenderableObject): value is ISceneObject {
+  return typeof (value as ISceneObject).draw === 'function';
+}
+
+/**
+ * Type guard to check if an object can report an interpolated transform
+ */
+export function isInterpolatable(value: unknown): value is IInterpolatable {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as IInterpolatable).getRenderPosition === 'function'
+  );
+}
+
 /**
  * Type guard to check if a value is a valid Color
  */
@@ -4,6 +4,14 @@
  * @module entities/Enemy
  */
 
+import { TransformHistory } from '../engine/Interpolation';
+import { Sprite } from '../engine/Sprite';
+import { createEnemySprite } from '../engine/SpriteGenerator';
+import { Dimensions, IInterpolatable, IRenderingContext, ISceneObject } from '../engine/types';
+import { EnemyType } from '../types/EnemyTypes';
+
+export { EnemyType };
+
 // =========== Types & Interfaces ===========
 
 /**
@@ -17,16 +25,6 @@ interface EnemyConfig {
   type: EnemyType;
 }
 
-/**
- * Supported enemy types
- */
-enum EnemyType {
-  BASIC = 'basic',
-  FAST = 'fast',
-  TANK = 'tank',
-  BOSS = 'boss'
-}
-
 /**
  * Position vector type
  */
@@ -37,6 +35,9 @@ interface Vector2D {
 
 // =========== Constants ===========
 
+/** Canvas pixels per art pixel of the generated invader sprites */
+const PIXEL_SIZE = 2;
+
 const DEFAULT_ENEMY_CONFIG: Record<EnemyType, EnemyConfig> = {
   [EnemyType.BASIC]: {
     health: 100,
@@ -73,17 +74,22 @@ const DEFAULT_ENEMY_CONFIG: Record<EnemyType, EnemyConfig> = {
 /**
  * Represents an enemy entity in the game
  */
-export class Enemy {
-  private position: Vector2D;
+export class Enemy implements ISceneObject, IInterpolatable {
+  public readonly opacity = 1;
+  public readonly zIndex = 0;
+  private center: Vector2D;
   private currentHealth: number;
   private isActive: boolean;
   private config: EnemyConfig;
+  private transform: TransformHistory;
+  private sprite: Sprite;
+  private animationTime: number;
 
   /**
    * Creates a new Enemy instance
    * @param type - The type of enemy to create
-   * @param startPosition - Initial spawn position
-   * @throws {Error} If invalid enemy type is provided
+   * @param startPosition - Initial spawn position, at the centre of the sprite
+   * @throws {Error} If invalid enemy type is provided or its sprite cannot be created
    */
   constructor(type: EnemyType, startPosition: Vector2D) {
     if (!Object.values(EnemyType).includes(type)) {
@@ -91,9 +97,33 @@ export class Enemy {
     }
 
     this.config = { ...DEFAULT_ENEMY_CONFIG[type] };
-    this.position = { ...startPosition };
+    this.center = { ...startPosition };
     this.currentHealth = this.config.health;
     this.isActive = true;
+    this.transform = new TransformHistory(this.center);
+    this.sprite = this.createSprite(type);
+    this.animationTime = 0;
+  }
+
+  /**
+   * Top-left corner of the sprite, for the scene renderer
+   */
+  public get position(): Vector2D {
+    return this.toTopLeft(this.center);
+  }
+
+  /**
+   * Size of the sprite
+   */
+  public get dimensions(): Dimensions {
+    return this.sprite.getDimensions();
+  }
+
+  /**
+   * Whether the scene renderer should draw the enemy
+   */
+  public get visible(): boolean {
+    return this.isActive;
   }
 
   /**
@@ -104,8 +134,32 @@ export class Enemy {
   public update(deltaTime: number, targetPosition: Vector2D): void {
     if (!this.isActive) return;
 
+    this.transform.snapshot(this.center);
     this.moveTowardsTarget(targetPosition, deltaTime);
     this.checkHealth();
+
+    this.animationTime += deltaTime;
+    this.sprite.update(this.animationTime);
+  }
+
+  /**
+   * Renders the enemy's sprite centred on its interpolated position
+   * @param context - The rendering context
+   * @param alpha - Interpolation alpha from the game loop (0-1)
+   */
+  public render(context: CanvasRenderingContext2D, alpha: number = 1): void {
+    if (!this.isActive) return;
+
+    const position = this.getRenderPosition(alpha);
+    this.sprite.render(context, position.x, position.y);
+  }
+
+  /**
+   * Draws the sprite in local coordinates for the scene renderer
+   * @param renderer - Renderer with the object's transform applied
+   */
+  public draw(renderer: IRenderingContext): void {
+    this.sprite.render(renderer.context, 0, 0);
   }
 
   /**
@@ -127,10 +181,34 @@ export class Enemy {
   }
 
   /**
-   * Gets the current position of the enemy
+   * Gets the current position of the enemy, at the centre of the sprite
    */
   public getPosition(): Vector2D {
-    return { ...this.position };
+    return { ...this.center };
+  }
+
+  /**
+   * Gets the sprite's top-left corner, blended between the last two fixed updates
+   * @param alpha - Interpolation alpha from the game loop (0-1)
+   */
+  public getRenderPosition(alpha: number): Vector2D {
+    return this.toTopLeft(this.transform.getPosition(this.center, alpha));
+  }
+
+  /**
+   * Moves the enemy instantly without interpolating from its old position
+   * @param position - New position
+   */
+  public teleportTo(position: Vector2D): void {
+    this.center = { ...position };
+    this.transform.teleport(this.center);
+  }
+
+  /**
+   * Enables or disables render interpolation for this enemy
+   */
+  public setInterpolationEnabled(enabled: boolean): void {
+    this.transform.setEnabled(enabled);
   }
 
   /**
@@ -152,12 +230,33 @@ export class Enemy {
 
   // =========== Private Methods ===========
 
+  /**
+   * Creates the animated invader sprite for an enemy type
+   * @throws {Error} If sprite creation fails
+   */
+  private createSprite(type: EnemyType): Sprite {
+    try {
+      return createEnemySprite(type, PIXEL_SIZE);
+    } catch (error) {
+      console.error('Failed to initialize enemy sprite:', error);
+      throw new Error('Enemy sprite initialization failed');
+    }
+  }
+
+  /**
+   * Converts a centre point to the sprite's top-left corner
+   */
+  private toTopLeft(center: Vector2D): Vector2D {
+    const { width, height } = this.sprite.getDimensions();
+    return { x: center.x - width / 2, y: center.y - height / 2 };
+  }
+
   /**
    * Moves the enemy towards the target position
    */
   private moveTowardsTarget(target: Vector2D, deltaTime: number): void {
-    const dx = target.x - this.position.x;
-    const dy = target.y - this.position.y;
+    const dx = target.x - this.center.x;
+    const dy = target.y - this.center.y;
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     if (distance > 0) {
@@ -165,8 +264,8 @@ export class Enemy {
       const movement = Math.min(speed, distance);
       const ratio = movement / distance;
 
-      this.position.x += dx * ratio;
-      this.position.y += dy * ratio;
+      this.center.x += dx * ratio;
+      this.center.y += dy * ratio;
     }
   }
 
@@ -1,8 +1,16 @@
 import { Entity } from './Entity';
 import { Vector2D } from '../types/Vector2D';
-import { QuadTree } from '../utils/QuadTree';
+import { Quadtree, QuadtreeObject } from '../engine/collision/Quadtree';
 import { ObjectPool } from '../utils/ObjectPool';
 import { Performance } from '../utils/Performance';
+import { Camera } from '../engine/Camera';
+
+/**
+ * Spatial index entry mirroring an entity's bounds
+ */
+interface SpatialEntry extends QuadtreeObject {
+    id: string;
+}
 
 /**
  * Manages game entities with optimized performance for updates and rendering
@@ -10,7 +18,8 @@ import { Performance } from '../utils/Performance';
  */
 export class EntityManager {
     private entities: Map<string, Entity>;
-    private quadTree: QuadTree;
+    private quadTree: Quadtree<SpatialEntry>;
+    private spatialEntries: Map<string, SpatialEntry>;
     private objectPool: ObjectPool<Entity>;
     private spatialBounds: { width: number; height: number };
     private performanceMonitor: Performance;
@@ -22,16 +31,19 @@ export class EntityManager {
     // Frame timing
     private readonly TARGET_FRAME_TIME = 16; // ~60 FPS
     private lastFrameTime: number = 0;
+    private forceSimplifiedUpdates: boolean = false;
+    private camera: Camera | null = null;
 
     constructor(width: number, height: number, maxEntities: number = 1000) {
         this.entities = new Map<string, Entity>();
         this.spatialBounds = { width, height };
-        this.quadTree = new QuadTree({
+        this.quadTree = new Quadtree<SpatialEntry>({
             x: 0,
             y: 0,
             width,
             height
         });
+        this.spatialEntries = new Map<string, SpatialEntry>();
         this.objectPool = new ObjectPool<Entity>(maxEntities);
         this.performanceMonitor = new Performance();
     }
@@ -48,13 +60,7 @@ export class EntityManager {
             }
             
             this.entities.set(entity.id, entity);
-            this.quadTree.insert({
-                id: entity.id,
-                x: entity.position.x,
-                y: entity.position.y,
-                width: entity.bounds.width,
-                height: entity.bounds.height
-            });
+            this.syncSpatialEntry(entity);
         } catch (error) {
             console.error('Failed to add entity:', error);
             throw error;
@@ -69,21 +75,16 @@ export class EntityManager {
         const currentTime = performance.now();
         this.performanceMonitor.startMeasure('update');
 
-        // Clear previous frame's queues
+        // Clear previous frame's queue
         this.updateQueue = [];
-        this.quadTree.clear();
 
-        // Batch entities for update
+        // Batch entities for update, moving their index entries in place
         for (const entity of this.entities.values()) {
             if (entity.isActive) {
                 this.updateQueue.push(entity);
-                this.quadTree.insert({
-                    id: entity.id,
-                    x: entity.position.x,
-                    y: entity.position.y,
-                    width: entity.bounds.width,
-                    height: entity.bounds.height
-                });
+                this.syncSpatialEntry(entity);
+            } else {
+                this.removeSpatialEntry(entity.id);
             }
         }
 
@@ -98,6 +99,14 @@ export class EntityManager {
         this.lastFrameTime = performance.now() - currentTime;
     }
 
+    /**
+     * Sets the camera used for the view transform and culling
+     * @param camera The camera, or null to render the full canvas untransformed
+     */
+    public setCamera(camera: Camera | null): void {
+        this.camera = camera;
+    }
+
     /**
      * Renders entities with visibility culling and batching
      * @param context The rendering context
@@ -105,22 +114,26 @@ export class EntityManager {
     public render(context: CanvasRenderingContext2D): void {
         this.performanceMonitor.startMeasure('render');
 
-        // Get visible area bounds
-        const viewBounds = {
-            x: 0,
-            y: 0,
-            width: context.canvas.width,
-            height: context.canvas.height
-        };
+        // Get visible area bounds, including room for camera shake
+        const viewBounds = this.camera
+            ? this.camera.getCullingBounds()
+            : {
+                x: 0,
+                y: 0,
+                width: context.canvas.width,
+                height: context.canvas.height
+            };
 
         // Query only visible entities
-        this.renderQueue = this.quadTree.query(viewBounds)
-            .map(item => this.entities.get(item.id))
-            .filter(entity => entity && entity.isVisible) as Entity[];
+        this.renderQueue = this.toEntities(this.quadTree.query(viewBounds))
+            .filter(entity => entity.isVisible);
 
         // Sort by z-index for correct rendering order
         this.renderQueue.sort((a, b) => a.zIndex - b.zIndex);
 
+        context.save();
+        this.camera?.applyTransform(context);
+
         // Batch render entities
         for (const entity of this.renderQueue) {
             try {
@@ -130,6 +143,8 @@ export class EntityManager {
             }
         }
 
+        context.restore();
+
         this.performanceMonitor.endMeasure('render');
     }
 
@@ -141,7 +156,7 @@ export class EntityManager {
     private processBatch(batch: Entity[], deltaTime: number): void {
         for (const entity of batch) {
             try {
-                if (this.lastFrameTime <= this.TARGET_FRAME_TIME) {
+                if (!this.forceSimplifiedUpdates && this.lastFrameTime <= this.TARGET_FRAME_TIME) {
                     // Full update if frame time is good
                     entity.update(deltaTime);
                 } else {
@@ -154,6 +169,14 @@ export class EntityManager {
         }
     }
 
+    /**
+     * Forces the simplified update path regardless of frame time
+     * @param enabled Whether simplified updates are forced
+     */
+    public setSimplifiedUpdates(enabled: boolean): void {
+        this.forceSimplifiedUpdates = enabled;
+    }
+
     /**
      * Removes an entity from the management system
      * @param entityId ID of the entity to remove
@@ -162,6 +185,7 @@ export class EntityManager {
         const entity = this.entities.get(entityId);
         if (entity) {
             this.entities.delete(entityId);
+            this.removeSpatialEntry(entityId);
             this.objectPool.release(entity);
         }
     }
@@ -173,15 +197,69 @@ export class EntityManager {
      * @returns Array of entities within the radius
      */
     public getNearbyEntities(position: Vector2D, radius: number): Entity[] {
-        const bounds = {
-            x: position.x - radius,
-            y: position.y - radius,
-            width: radius * 2,
-            height: radius * 2
-        };
+        return this.toEntities(this.quadTree.queryRadius(position, radius));
+    }
 
-        return this.quadTree.query(bounds)
-            .map(item => this.entities.get(item.id))
+    /**
+     * Gets the entities closest to a position
+     * @param position Position to measure from
+     * @param count Maximum number of entities to return
+     * @param maxDistance Ignore entities farther away than this
+     * @returns Entities ordered from nearest to farthest
+     */
+    public getNearestEntities(position: Vector2D, count: number = 1, maxDistance: number = Infinity): Entity[] {
+        return this.toEntities(this.quadTree.nearest(position, count, maxDistance));
+    }
+
+    /**
+     * Gets entities crossed by a line segment, e.g. for lasers or line of sight
+     * @param from Segment start
+     * @param to Segment end
+     * @param ignoreId Optional entity to skip, such as the shooter
+     * @returns Entities ordered by distance from the start
+     */
+    public raycastEntities(from: Vector2D, to: Vector2D, ignoreId?: string): Entity[] {
+        const hits = this.quadTree.raycast(from, to, entry => entry.id !== ignoreId);
+        return this.toEntities(hits.map(hit => hit.object));
+    }
+
+    /**
+     * Creates or moves the index entry for an entity
+     * @param entity The entity whose bounds changed
+     */
+    private syncSpatialEntry(entity: Entity): void {
+        let entry = this.spatialEntries.get(entity.id);
+        if (!entry) {
+            entry = { id: entity.id, x: 0, y: 0, width: 0, height: 0 };
+            this.spatialEntries.set(entity.id, entry);
+        }
+
+        entry.x = entity.position.x;
+        entry.y = entity.position.y;
+        entry.width = entity.bounds.width;
+        entry.height = entity.bounds.height;
+        this.quadTree.update(entry);
+    }
+
+    /**
+     * Removes the index entry for an entity
+     * @param entityId ID of the entity
+     */
+    private removeSpatialEntry(entityId: string): void {
+        const entry = this.spatialEntries.get(entityId);
+        if (entry) {
+            this.quadTree.remove(entry);
+            this.spatialEntries.delete(entityId);
+        }
+    }
+
+    /**
+     * Maps index entries back to live entities
+     * @param entries Entries returned by a query
+     */
+    private toEntities(entries: SpatialEntry[]): Entity[] {
+        return entries
+            .map(entry => this.entities.get(entry.id))
             .filter(entity => entity !== undefined) as Entity[];
     }
 
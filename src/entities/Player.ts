@@ -1,5 +1,6 @@
 import { Vector2 } from '../types/Vector2';
 import { SoundManager } from '../managers/SoundManager'; // New import
+import { TransformHistory } from '../engine/Interpolation';
 
 /**
  * Represents a player entity in the game with movement controls
@@ -11,6 +12,7 @@ export class Player {
     private readonly boundaries: { min: number; max: number };
     private readonly soundManager: SoundManager;
     private isMoving: boolean = false;
+    private readonly transform: TransformHistory;
 
     /**
      * Creates a new Player instance
@@ -29,6 +31,7 @@ export class Player {
         this.velocity = { x: 0, y: 0 };
         this.speed = speed;
         this.soundManager = soundManager;
+        this.transform = new TransformHistory(this.position);
         
         // Calculate boundaries based on player width (assumed 32px)
         const playerWidth = 32;
@@ -70,7 +73,7 @@ export class Player {
      * @param deltaTime Time elapsed since last update
      */
     public update(deltaTime: number): void {
-        const previousX = this.position.x;
+        this.transform.snapshot(this.position);
         
         // Update position with velocity
         this.position.x += this.velocity.x * deltaTime;
@@ -142,7 +145,24 @@ export class Player {
     }
 
     /**
-     * Sets the player position directly
+     * Gets the position to render, blended between the last two fixed updates
+     * @param alpha Interpolation alpha from the game loop (0-1)
+     * @returns Interpolated position vector
+     */
+    public getRenderPosition(alpha: number): Vector2 {
+        return this.transform.getPosition(this.position, alpha);
+    }
+
+    /**
+     * Enables or disables render interpolation for the player
+     * @param enabled When false, the latest position is always rendered
+     */
+    public setInterpolationEnabled(enabled: boolean): void {
+        this.transform.setEnabled(enabled);
+    }
+
+    /**
+     * Sets the player position directly; the move is not interpolated
      * @param position New position vector
      */
     public setPosition(position: Vector2): void {
@@ -153,5 +173,6 @@ export class Player {
             ),
             y: position.y
         };
+        this.transform.teleport(this.position);
     }
 }
\ No newline at end of file
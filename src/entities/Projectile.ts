@@ -7,6 +7,8 @@
 import { Vector2 } from '../types/Vector2';
 import { Entity } from './Entity';
 import { GameContext } from '../core/GameContext';
+import { TransformHistory } from '../engine/Interpolation';
+import { getPalette } from '../engine/Palette';
 
 /**
  * Configuration constants for projectiles
@@ -41,6 +43,7 @@ export class Projectile extends Entity {
   private distanceTraveled: number;
   private sourceId: string;
   private size: number;
+  private transform: TransformHistory;
 
   /**
    * Creates a new projectile instance
@@ -61,6 +64,7 @@ export class Projectile extends Entity {
     this.size = props.size ?? PROJECTILE_CONFIG.DEFAULT_SIZE;
     this.sourceId = props.sourceId ?? '';
     this.distanceTraveled = 0;
+    this.transform = new TransformHistory(this.position);
   }
 
   /**
@@ -70,6 +74,8 @@ export class Projectile extends Entity {
    * @returns boolean indicating if the projectile should be destroyed
    */
   public update(deltaTime: number, context: GameContext): boolean {
+    this.transform.snapshot(this.position);
+
     // Update position
     const movement = {
       x: this.direction.x * this.speed * deltaTime,
@@ -91,18 +97,31 @@ export class Projectile extends Entity {
   }
 
   /**
-   * Renders the projectile
+   * Renders the projectile at its interpolated position
    * @param context - Rendering context
+   * @param alpha - Interpolation alpha from the game loop (0-1)
    */
-  public render(context: CanvasRenderingContext2D): void {
+  public render(context: CanvasRenderingContext2D, alpha: number = 1): void {
+    const position = this.transform.getPosition(this.position, alpha);
+
     context.save();
     context.beginPath();
-    context.arc(this.position.x, this.position.y, this.size, 0, Math.PI * 2);
-    context.fillStyle = '#ffffff';
+    context.arc(position.x, position.y, this.size, 0, Math.PI * 2);
+    // Enemy shots travel down the screen, the player's travel up
+    const palette = getPalette();
+    context.fillStyle = this.direction.y > 0 ? palette.enemyProjectile : palette.playerProjectile;
     context.fill();
     context.restore();
   }
 
+  /**
+   * Enables or disables render interpolation for this projectile
+   * @param enabled - When false, the latest position is always rendered
+   */
+  public setInterpolationEnabled(enabled: boolean): void {
+    this.transform.setEnabled(enabled);
+  }
+
   /**
    * Gets the damage value of the projectile
    */
@@ -0,0 +1,391 @@
+/**
+ * @file Shield.ts
+ * @description Destructible shield bunker backed by a pixel grid.
+ * Projectiles erode craters where they first meet a solid pixel, enemies
+ * carve away whatever they walk through, and the same grid serves as the
+ * collider's pixel mask. Rendering goes through an offscreen canvas that is
+ * only repainted where damage occurred.
+ * @module entities/Shield
+ */
+
+import { CollisionMask } from '../engine/collision/CollisionMask';
+import { BoundingBox, ColliderOptions, CollisionLayer } from '../engine/collision/CollisionSystem';
+import { getPalette } from '../engine/Palette';
+import { PixelBitmap, SPRITE_BITMAPS } from '../engine/SpriteGenerator';
+
+// =========== Types & Interfaces ===========
+
+/**
+ * Position vector type
+ */
+interface Vector2D {
+  x: number;
+  y: number;
+}
+
+/**
+ * Shield configuration
+ */
+export interface ShieldConfig {
+  /** Top-left corner in world space */
+  position: Vector2D;
+  /** Size of one grid pixel in world pixels (defaults to 2) */
+  pixelSize?: number;
+  /** Intact shape (defaults to the classic bunker) */
+  bitmap?: PixelBitmap;
+  /** Crater left by shots travelling up the screen, e.g. the player's */
+  upwardCrater?: PixelBitmap;
+  /** Crater left by shots travelling down the screen, e.g. the enemies' */
+  downwardCrater?: PixelBitmap;
+  /** Fill color (defaults to the active palette's shield color) */
+  color?: string;
+}
+
+/**
+ * Dirty region of the grid, in grid pixels (right and bottom exclusive)
+ */
+interface GridRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// =========== Constants ===========
+
+const DEFAULT_PIXEL_SIZE = 2;
+
+/**
+ * Ragged crater stamps centred on the impact pixel; player shots punch
+ * narrow deep holes, enemy bombs blow wider splashes
+ */
+export const UPWARD_CRATER: PixelBitmap = {
+  width: 6,
+  frames: [[
+    0b010010,
+    0b101101,
+    0b011110,
+    0b111111,
+    0b011110,
+    0b101101,
+    0b010010,
+    0b100001
+  ]]
+};
+
+export const DOWNWARD_CRATER: PixelBitmap = {
+  width: 8,
+  frames: [[
+    0b00100100,
+    0b10011001,
+    0b01111110,
+    0b11111111,
+    0b01111110,
+    0b10111101,
+    0b00100100
+  ]]
+};
+
+// =========== Main Class ===========
+
+/**
+ * Represents a destructible shield bunker
+ */
+export class Shield {
+  public readonly id: string;
+  private readonly position: Vector2D;
+  private readonly pixelSize: number;
+  private readonly bitmap: PixelBitmap;
+  private readonly upwardCrater: CollisionMask;
+  private readonly downwardCrater: CollisionMask;
+  private readonly color?: string;
+  private readonly grid: CollisionMask;
+  private readonly initialPixels: number;
+  private canvas: HTMLCanvasElement | null = null;
+  private renderedColor: string | null = null;
+  private dirty: GridRegion | null = null;
+
+  /**
+   * Creates a new Shield instance
+   * @param config - Position, scale, shape and crater stamps
+   * @throws {Error} If the pixel size is not a positive integer
+   */
+  constructor(config: ShieldConfig) {
+    const pixelSize = config.pixelSize ?? DEFAULT_PIXEL_SIZE;
+    if (!Number.isInteger(pixelSize) || pixelSize < 1) {
+      throw new Error('Shield pixel size must be a positive integer');
+    }
+
+    this.id = crypto.randomUUID();
+    this.position = { ...config.position };
+    this.pixelSize = pixelSize;
+    this.bitmap = config.bitmap ?? SPRITE_BITMAPS.shield;
+    this.upwardCrater = CollisionMask.fromBitmap(config.upwardCrater ?? UPWARD_CRATER);
+    this.downwardCrater = CollisionMask.fromBitmap(config.downwardCrater ?? DOWNWARD_CRATER);
+    this.color = config.color;
+    this.grid = CollisionMask.fromBitmap(this.bitmap);
+    this.initialPixels = this.grid.count();
+  }
+
+  /**
+   * Gets the world-space box covering the whole grid
+   */
+  public getBounds(): BoundingBox {
+    return {
+      x: this.position.x,
+      y: this.position.y,
+      width: this.grid.width * this.pixelSize,
+      height: this.grid.height * this.pixelSize
+    };
+  }
+
+  /**
+   * Gets the live pixel grid; it changes in place as the shield erodes
+   */
+  public getCollisionMask(): CollisionMask {
+    return this.grid;
+  }
+
+  /**
+   * Gets options for registering the shield with the collision system,
+   * tested per pixel against the live grid
+   */
+  public getColliderOptions(): ColliderOptions {
+    return {
+      layer: CollisionLayer.SHIELD,
+      bounds: this.getBounds(),
+      pixelMask: this.grid
+    };
+  }
+
+  /**
+   * Checks whether a world-space point lies on a solid pixel
+   * @param point - World-space point
+   */
+  public hitTest(point: Vector2D): boolean {
+    const cell = this.toGrid(point);
+    return this.grid.test(cell.x, cell.y);
+  }
+
+  /**
+   * Finds the first solid pixel along a projectile's path this step
+   * @param from - Projectile position at the start of the step
+   * @param to - Projectile position at the end of the step
+   * @returns World-space centre of the pixel hit, or null if the path only crosses holes
+   */
+  public findImpact(from: Vector2D, to: Vector2D): Vector2D | null {
+    // Step at most half a grid pixel so no pixel is skipped
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.max(1, Math.ceil((distance * 2) / this.pixelSize));
+
+    for (let index = 0; index <= steps; index++) {
+      const cell = this.toGrid({
+        x: from.x + ((to.x - from.x) * index) / steps,
+        y: from.y + ((to.y - from.y) * index) / steps
+      });
+      if (this.grid.test(cell.x, cell.y)) {
+        return {
+          x: this.position.x + (cell.x + 0.5) * this.pixelSize,
+          y: this.position.y + (cell.y + 0.5) * this.pixelSize
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a projectile passing through the shield: finds where it hits
+   * and erodes the crater for its direction of travel
+   * @param from - Projectile position at the start of the step
+   * @param to - Projectile position at the end of the step
+   * @returns Impact point, or null if the projectile passes through a hole and should continue
+   */
+  public hitByProjectile(from: Vector2D, to: Vector2D): Vector2D | null {
+    const impact = this.findImpact(from, to);
+    if (impact) {
+      this.erode(impact, to.y < from.y ? 'up' : 'down');
+    }
+    return impact;
+  }
+
+  /**
+   * Blasts a crater centred on a world-space point
+   * @param point - Impact point
+   * @param direction - Direction the projectile was travelling, selecting the crater stamp
+   * @returns Number of grid pixels removed
+   */
+  public erode(point: Vector2D, direction: 'up' | 'down'): number {
+    const stamp = direction === 'up' ? this.upwardCrater : this.downwardCrater;
+    const center = this.toGrid(point);
+    const left = center.x - Math.floor(stamp.width / 2);
+    const top = center.y - Math.floor(stamp.height / 2);
+
+    let removed = 0;
+    for (let y = 0; y < stamp.height; y++) {
+      for (let x = 0; x < stamp.width; x++) {
+        if (stamp.test(x, y) && this.clearPixel(left + x, top + y)) {
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Removes every pixel an enemy's box covers as it walks through the shield
+   * @param bounds - World-space box of the enemy
+   * @returns Number of grid pixels removed
+   */
+  public carve(bounds: BoundingBox): number {
+    const left = Math.floor((bounds.x - this.position.x) / this.pixelSize);
+    const top = Math.floor((bounds.y - this.position.y) / this.pixelSize);
+    const right = Math.ceil((bounds.x + bounds.width - this.position.x) / this.pixelSize);
+    const bottom = Math.ceil((bounds.y + bounds.height - this.position.y) / this.pixelSize);
+
+    let removed = 0;
+    for (let y = Math.max(0, top); y < Math.min(this.grid.height, bottom); y++) {
+      for (let x = Math.max(0, left); x < Math.min(this.grid.width, right); x++) {
+        if (this.clearPixel(x, y)) {
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the fraction of the original pixels still standing (0-1)
+   */
+  public getIntegrity(): number {
+    return this.initialPixels > 0 ? this.grid.count() / this.initialPixels : 0;
+  }
+
+  /**
+   * Checks whether every pixel has been destroyed
+   */
+  public isDestroyed(): boolean {
+    return this.grid.count() === 0;
+  }
+
+  /**
+   * Restores the intact shape, e.g. at the start of a new wave
+   */
+  public reset(): void {
+    const intact = CollisionMask.fromBitmap(this.bitmap);
+    for (let y = 0; y < intact.height; y++) {
+      for (let x = 0; x < intact.width; x++) {
+        this.grid.set(x, y, intact.test(x, y));
+      }
+    }
+    this.markDirty(0, 0, this.grid.width, this.grid.height);
+  }
+
+  /**
+   * Renders the shield, repainting the cached canvas only where it changed
+   * @param context - Rendering context
+   */
+  public render(context: CanvasRenderingContext2D): void {
+    const color = this.color ?? getPalette().shield;
+
+    if (!this.canvas || color !== this.renderedColor) {
+      this.canvas = this.canvas ?? this.createCanvas();
+      this.renderedColor = color;
+      this.dirty = { left: 0, top: 0, right: this.grid.width, bottom: this.grid.height };
+    }
+
+    if (this.dirty) {
+      this.repaint(this.dirty, color);
+      this.dirty = null;
+    }
+
+    context.drawImage(this.canvas, this.position.x, this.position.y);
+  }
+
+  // =========== Private Methods ===========
+
+  /**
+   * Converts a world-space point to grid coordinates
+   */
+  private toGrid(point: Vector2D): Vector2D {
+    return {
+      x: Math.floor((point.x - this.position.x) / this.pixelSize),
+      y: Math.floor((point.y - this.position.y) / this.pixelSize)
+    };
+  }
+
+  /**
+   * Clears one grid pixel and records it for repainting
+   * @returns Whether the pixel was solid
+   */
+  private clearPixel(x: number, y: number): boolean {
+    if (!this.grid.test(x, y)) {
+      return false;
+    }
+
+    this.grid.set(x, y, false);
+    this.markDirty(x, y, x + 1, y + 1);
+    return true;
+  }
+
+  /**
+   * Grows the dirty region to include a grid rectangle
+   */
+  private markDirty(left: number, top: number, right: number, bottom: number): void {
+    this.dirty = this.dirty
+      ? {
+        left: Math.min(this.dirty.left, left),
+        top: Math.min(this.dirty.top, top),
+        right: Math.max(this.dirty.right, right),
+        bottom: Math.max(this.dirty.bottom, bottom)
+      }
+      : { left, top, right, bottom };
+  }
+
+  /**
+   * Creates the offscreen canvas holding the rendered grid
+   * @throws {Error} If a 2D context is unavailable
+   */
+  private createCanvas(): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.grid.width * this.pixelSize;
+    canvas.height = this.grid.height * this.pixelSize;
+
+    if (!canvas.getContext('2d')) {
+      throw new Error('Failed to get 2D context for shield rendering');
+    }
+    return canvas;
+  }
+
+  /**
+   * Redraws a region of the cached canvas from the grid
+   */
+  private repaint(region: GridRegion, color: string): void {
+    const context = this.canvas?.getContext('2d');
+    if (!context) {
+      return;
+    }
+
+    const size = this.pixelSize;
+    context.clearRect(
+      region.left * size,
+      region.top * size,
+      (region.right - region.left) * size,
+      (region.bottom - region.top) * size
+    );
+    context.fillStyle = color;
+
+    for (let y = region.top; y < region.bottom; y++) {
+      // Fill horizontal runs of solid pixels with one rectangle each
+      let runStart = -1;
+      for (let x = region.left; x <= region.right; x++) {
+        const solid = x < region.right && this.grid.test(x, y);
+        if (solid && runStart === -1) {
+          runStart = x;
+        } else if (!solid && runStart !== -1) {
+          context.fillRect(runStart * size, y * size, (x - runStart) * size, size);
+          runStart = -1;
+        }
+      }
+    }
+  }
+}
@@ -5,10 +5,13 @@
  */
 
 import { Vector2D } from '../types/Vector2D';
-import { Sprite } from '../graphics/Sprite';
+import { Sprite } from '../../engine/Sprite';
+import { createPlayerSprite } from '../../engine/SpriteGenerator';
 import { Renderable } from '../interfaces/Renderable';
 import { Entity } from '../interfaces/Entity';
 import { GameContext } from '../core/GameContext';
+import { TransformHistory } from '../../engine/Interpolation';
+import { Dimensions, IInterpolatable, IRenderingContext, ISceneObject } from '../../engine/types';
 
 /**
  * Configuration constants for the player ship
@@ -17,24 +20,26 @@ const PLAYER_CONFIG = {
   DEFAULT_SPEED: 5,
   ROTATION_SPEED: 0.1,
   INITIAL_HEALTH: 100,
-  SPRITE_SIZE: {
-    width: 32,
-    height: 32,
-  },
+  /** Canvas pixels per art pixel of the generated cannon sprite */
+  PIXEL_SIZE: 2,
 } as const;
 
 /**
  * Represents the player's ship in the game
  * @implements {Entity}
  * @implements {Renderable}
+ * @implements {ISceneObject}
  */
-export class Player implements Entity, Renderable {
-  private position: Vector2D;
+export class Player implements Entity, Renderable, ISceneObject, IInterpolatable {
+  public readonly opacity = 1;
+  public readonly zIndex = 0;
+  private center: Vector2D;
   private velocity: Vector2D;
-  private rotation: number;
+  private angle: number;
   private sprite: Sprite;
   private health: number;
   private isActive: boolean;
+  private transform: TransformHistory;
 
   /**
    * Creates a new Player instance
@@ -45,27 +50,51 @@ export class Player implements Entity, Renderable {
     private readonly context: GameContext,
     initialPosition: Vector2D = { x: 0, y: 0 }
   ) {
-    this.position = { ...initialPosition };
+    this.center = { ...initialPosition };
     this.velocity = { x: 0, y: 0 };
-    this.rotation = 0;
+    this.angle = 0;
     this.health = PLAYER_CONFIG.INITIAL_HEALTH;
     this.isActive = true;
+    this.transform = new TransformHistory(this.center, this.angle);
+    this.sprite = this.createSprite();
+  }
+
+  /**
+   * Top-left corner of the sprite, for the scene renderer
+   */
+  public get position(): Vector2D {
+    return this.toTopLeft(this.center);
+  }
+
+  /**
+   * Size of the sprite
+   */
+  public get dimensions(): Dimensions {
+    return this.sprite.getDimensions();
+  }
+
+  /**
+   * Rotation about the sprite's centre in radians
+   */
+  public get rotation(): number {
+    return this.angle;
+  }
 
-    this.initializeSprite();
+  /**
+   * Whether the scene renderer should draw the player
+   */
+  public get visible(): boolean {
+    return this.isActive;
   }
 
   /**
-   * Initializes the player's sprite
+   * Creates the player's procedurally generated sprite
    * @private
    * @throws {Error} If sprite initialization fails
    */
-  private initializeSprite(): void {
+  private createSprite(): Sprite {
     try {
-      this.sprite = new Sprite({
-        width: PLAYER_CONFIG.SPRITE_SIZE.width,
-        height: PLAYER_CONFIG.SPRITE_SIZE.height,
-        imagePath: 'assets/player-ship.png',
-      });
+      return createPlayerSprite(PLAYER_CONFIG.PIXEL_SIZE);
     } catch (error) {
       console.error('Failed to initialize player sprite:', error);
       throw new Error('Player sprite initialization failed');
@@ -79,37 +108,65 @@ export class Player implements Entity, Renderable {
   public update(deltaTime: number): void {
     if (!this.isActive) return;
 
+    this.transform.snapshot(this.center, this.angle);
+
     // Update position based on velocity
-    this.position.x += this.velocity.x * deltaTime * PLAYER_CONFIG.DEFAULT_SPEED;
-    this.position.y += this.velocity.y * deltaTime * PLAYER_CONFIG.DEFAULT_SPEED;
+    this.center.x += this.velocity.x * deltaTime * PLAYER_CONFIG.DEFAULT_SPEED;
+    this.center.y += this.velocity.y * deltaTime * PLAYER_CONFIG.DEFAULT_SPEED;
 
     // Keep player within game bounds
     this.constrainToBounds();
   }
 
   /**
-   * Renders the player
+   * Renders the player at its interpolated transform
    * @param {CanvasRenderingContext2D} ctx - The rendering context
+   * @param {number} alpha - Interpolation alpha from the game loop (0-1)
    */
-  public render(ctx: CanvasRenderingContext2D): void {
+  public render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
     if (!this.isActive || !this.sprite) return;
 
+    const position = this.transform.getPosition(this.center, alpha);
+
     ctx.save();
     
     // Transform context for rotation
-    ctx.translate(this.position.x, this.position.y);
-    ctx.rotate(this.rotation);
+    ctx.translate(position.x, position.y);
+    ctx.rotate(this.transform.getRotation(this.angle, alpha));
     
-    // Draw the sprite
-    this.sprite.draw(
-      ctx,
-      -PLAYER_CONFIG.SPRITE_SIZE.width / 2,
-      -PLAYER_CONFIG.SPRITE_SIZE.height / 2
-    );
+    // Draw the sprite centered on the player position
+    const { width, height } = this.sprite.getDimensions();
+    this.sprite.render(ctx, -width / 2, -height / 2);
 
     ctx.restore();
   }
 
+  /**
+   * Draws the sprite in local coordinates for the scene renderer
+   * @param {IRenderingContext} renderer - Renderer with the object's transform applied
+   */
+  public draw(renderer: IRenderingContext): void {
+    this.sprite.render(renderer.context, 0, 0);
+  }
+
+  /**
+   * Gets the sprite's top-left corner blended between the last two fixed updates
+   * @param {number} alpha - Interpolation alpha from the game loop (0-1)
+   * @returns {Vector2D} Interpolated top-left corner
+   */
+  public getRenderPosition(alpha: number): Vector2D {
+    return this.toTopLeft(this.transform.getPosition(this.center, alpha));
+  }
+
+  /**
+   * Gets the rotation blended between the last two fixed updates
+   * @param {number} alpha - Interpolation alpha from the game loop (0-1)
+   * @returns {number} Interpolated rotation in radians
+   */
+  public getRenderRotation(alpha: number): number {
+    return this.transform.getRotation(this.angle, alpha);
+  }
+
   /**
    * Sets the player's velocity
    * @param {Vector2D} newVelocity - New velocity vector
@@ -118,12 +175,29 @@ export class Player implements Entity, Renderable {
     this.velocity = { ...newVelocity };
   }
 
+  /**
+   * Moves the player instantly without interpolating from its old position
+   * @param {Vector2D} position - New position
+   */
+  public teleportTo(position: Vector2D): void {
+    this.center = { ...position };
+    this.transform.teleport(this.center, this.angle);
+  }
+
+  /**
+   * Enables or disables render interpolation for the player
+   * @param {boolean} enabled - When false, the latest transform is always rendered
+   */
+  public setInterpolationEnabled(enabled: boolean): void {
+    this.transform.setEnabled(enabled);
+  }
+
   /**
    * Rotates the player
    * @param {number} angle - Rotation angle in radians
    */
   public rotate(angle: number): void {
-    this.rotation += angle * PLAYER_CONFIG.ROTATION_SPEED;
+    this.angle += angle * PLAYER_CONFIG.ROTATION_SPEED;
   }
 
   /**
@@ -146,16 +220,25 @@ export class Player implements Entity, Renderable {
   private constrainToBounds(): void {
     const bounds = this.context.getBounds();
     
-    this.position.x = Math.max(0, Math.min(this.position.x, bounds.width));
-    this.position.y = Math.max(0, Math.min(this.position.y, bounds.height));
+    this.center.x = Math.max(0, Math.min(this.center.x, bounds.width));
+    this.center.y = Math.max(0, Math.min(this.center.y, bounds.height));
+  }
+
+  /**
+   * Converts a centre point to the sprite's top-left corner
+   * @private
+   */
+  private toTopLeft(center: Vector2D): Vector2D {
+    const { width, height } = this.sprite.getDimensions();
+    return { x: center.x - width / 2, y: center.y - height / 2 };
   }
 
   /**
    * Gets the player's current position
-   * @returns {Vector2D} Current position
+   * @returns {Vector2D} Current position, at the centre of the sprite
    */
   public getPosition(): Vector2D {
-    return { ...this.position };
+    return { ...this.center };
   }
 
   /**
@@ -4,6 +4,8 @@
  * @module game/ui/ScoreDisplay
  */
 
+import { TimerHandle, TimerManager } from '../../engine/TimerManager';
+
 // ---- Types ----
 interface ScoreConfig {
   initialScore: number;
@@ -35,14 +37,16 @@ export class ScoreDisplay {
   private displayElement: HTMLElement | null;
   private config: ScoreConfig;
   private formatter: Intl.NumberFormat;
-  private animationFrame: number | null;
+  private timers: TimerManager;
+  private tween: TimerHandle | undefined;
 
   /**
    * Creates a new ScoreDisplay instance
    * @param elementId - DOM element ID for score display
    * @param config - Configuration options for the score display
+   * @param timers - Simulation-time timers that drive the score animation
    */
-  constructor(elementId: string, config: Partial<ScoreConfig> = {}) {
+  constructor(elementId: string, config: Partial<ScoreConfig>, timers: TimerManager) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.currentScore = this.config.initialScore;
     this.displayElement = document.getElementById(elementId);
@@ -50,7 +54,8 @@ export class ScoreDisplay {
       navigator.language,
       this.config.formatOptions
     );
-    this.animationFrame = null;
+    this.timers = timers;
+    this.tween = undefined;
 
     if (!this.displayElement) {
       throw new Error(`Score display element with ID "${elementId}" not found`);
@@ -90,6 +95,14 @@ export class ScoreDisplay {
     return this.currentScore;
   }
 
+  /**
+   * Gets the number formatter, e.g. to draw the score with a BitmapFont
+   * @returns Formatter built from the configured format options
+   */
+  public getFormatter(): Intl.NumberFormat {
+    return this.formatter;
+  }
+
   /**
    * Resets the score to initial value
    */
@@ -101,9 +114,8 @@ export class ScoreDisplay {
    * Cleans up resources used by the score display
    */
   public destroy(): void {
-    if (this.animationFrame !== null) {
-      cancelAnimationFrame(this.animationFrame);
-    }
+    this.timers.cancel(this.tween);
+    this.tween = undefined;
     this.displayElement = null;
   }
 
@@ -139,39 +151,25 @@ export class ScoreDisplay {
   }
 
   /**
-   * Animates the score change
+   * Animates the score change in simulation time, so it pauses and
+   * slows down with the game
    * @param fromScore - Starting score
    * @param toScore - Target score
    */
   private animateScoreChange(fromScore: number, toScore: number): void {
-    if (this.animationFrame !== null) {
-      cancelAnimationFrame(this.animationFrame);
-    }
-
-    const startTime = performance.now();
-    const scoreChange = toScore - fromScore;
-
-    const animate = (currentTime: number) => {
-      const elapsed = currentTime - startTime;
-      const progress = Math.min(elapsed / this.config.animationDuration, 1);
-
-      // Easing function for smooth animation
-      const eased = progress < 0.5
-        ? 2 * progress * progress
-        : 1 - Math.pow(-2 * progress + 2, 2) / 2;
-
-      const currentValue = fromScore + scoreChange * eased;
-      this.setScore(Math.round(currentValue));
-
-      if (progress < 1) {
-        this.animationFrame = requestAnimationFrame(animate);
-      } else {
-        this.animationFrame = null;
+    this.timers.cancel(this.tween);
+
+    this.tween = this.timers.tween({
+      from: fromScore,
+      to: toScore,
+      duration: this.config.animationDuration,
+      easing: 'easeInOutQuad',
+      onUpdate: value => this.setScore(Math.round(value)),
+      onComplete: () => {
+        this.tween = undefined;
         this.setScore(toScore); // Ensure final value is exact
       }
-    };
-
-    this.animationFrame = requestAnimationFrame(animate);
+    });
   }
 
   /**
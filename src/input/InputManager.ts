@@ -11,6 +11,11 @@ interface InputAction {
     processed: boolean;
 }
 
+/**
+ * Maps browser viewport coordinates to game coordinates, e.g. `Canvas.toLogical`
+ */
+export type CoordinateMapper = (clientX: number, clientY: number) => Vector2;
+
 export class InputManager {
     private static instance: InputManager;
     
@@ -19,7 +24,11 @@ export class InputManager {
     private readonly maxBufferSize: number = 10;
     
     private currentKeys: Set<string> = new Set();
-    private mousePosition: Vector2 = { x: 0, y: 0 };
+    // Pointer positions are kept in viewport coordinates and mapped when read,
+    // so they follow canvas resizes and mapper changes between events
+    private mouseClientPosition: Vector2 | null = null;
+    private touches: Map<number, Vector2> = new Map();
+    private coordinateMapper: CoordinateMapper = (x, y) => ({ x, y });
     private lastUpdateTime: number = 0;
 
     private constructor() {
@@ -44,6 +53,10 @@ export class InputManager {
             window.addEventListener('keydown', this.handleKeyDown.bind(this));
             window.addEventListener('keyup', this.handleKeyUp.bind(this));
             window.addEventListener('mousemove', this.handleMouseMove.bind(this));
+            window.addEventListener('touchstart', this.handleTouch.bind(this));
+            window.addEventListener('touchmove', this.handleTouch.bind(this));
+            window.addEventListener('touchend', this.handleTouchEnd.bind(this));
+            window.addEventListener('touchcancel', this.handleTouchEnd.bind(this));
         } catch (error) {
             console.error('Failed to initialize input event listeners:', error);
         }
@@ -74,13 +87,28 @@ export class InputManager {
     }
 
     /**
-     * Updates mouse position
+     * Records the mouse position in viewport coordinates
      */
     private handleMouseMove(event: MouseEvent): void {
-        this.mousePosition = {
-            x: event.clientX,
-            y: event.clientY
-        };
+        this.mouseClientPosition = { x: event.clientX, y: event.clientY };
+    }
+
+    /**
+     * Tracks new and moved touch points in viewport coordinates
+     */
+    private handleTouch(event: TouchEvent): void {
+        Array.from(event.changedTouches).forEach(touch => {
+            this.touches.set(touch.identifier, { x: touch.clientX, y: touch.clientY });
+        });
+    }
+
+    /**
+     * Stops tracking lifted or cancelled touch points
+     */
+    private handleTouchEnd(event: TouchEvent): void {
+        Array.from(event.changedTouches).forEach(touch => {
+            this.touches.delete(touch.identifier);
+        });
     }
 
     /**
@@ -141,10 +169,36 @@ export class InputManager {
     }
 
     /**
-     * Gets the current mouse position
+     * Gets the current mouse position in game coordinates
      */
     public getMousePosition(): Vector2 {
-        return { ...this.mousePosition };
+        if (!this.mouseClientPosition) {
+            return { x: 0, y: 0 };
+        }
+        return this.coordinateMapper(this.mouseClientPosition.x, this.mouseClientPosition.y);
+    }
+
+    /**
+     * Gets the positions of all active touch points in game coordinates
+     */
+    public getTouches(): Vector2[] {
+        return Array.from(this.touches.values(), position => this.coordinateMapper(position.x, position.y));
+    }
+
+    /**
+     * Checks if any touch point is active
+     */
+    public isTouching(): boolean {
+        return this.touches.size > 0;
+    }
+
+    /**
+     * Sets how pointer coordinates are mapped to game coordinates; positions
+     * recorded earlier are mapped with it from the next read
+     * @param mapper Mapping function, e.g. `(x, y) => canvas.toLogical(x, y)`
+     */
+    public setCoordinateMapper(mapper: CoordinateMapper): void {
+        this.coordinateMapper = mapper;
     }
 
     /**
@@ -164,7 +218,8 @@ export class InputManager {
     public clear(): void {
         this.currentKeys.clear();
         this.inputBuffer.length = 0;
-        this.mousePosition = { x: 0, y: 0 };
+        this.mouseClientPosition = null;
+        this.touches.clear();
     }
 }
 
@@ -8,11 +8,11 @@ import { Vector2 } from '../types/Vector2';
 import { GameObject } from '../core/GameObject';
 import { ObjectPool } from '../utils/ObjectPool';
 import { EventEmitter } from '../core/EventEmitter';
+import { TimerManager, TimerHandle } from '../engine/TimerManager';
 
 // Configuration constants
 const DEFAULT_POOL_SIZE = 50;
 const MAX_PROJECTILES = 200;
-const CLEANUP_INTERVAL = 1000; // milliseconds
 
 /**
  * Represents a single projectile instance
@@ -23,8 +23,11 @@ export interface Projectile extends GameObject {
     velocity: Vector2;
     damage: number;
     isActive: boolean;
+    /** Lifespan in milliseconds of simulation time */
     lifespan: number;
+    /** Simulation time at which the projectile was spawned */
     spawnTime: number;
+    lifetimeTimer?: TimerHandle;
     
     reset(): void;
     update(deltaTime: number): void;
@@ -48,8 +51,15 @@ export class ProjectileManager {
     private activeProjectiles: Set<Projectile>;
     private config: Required<ProjectileManagerConfig>;
     private events: EventEmitter;
+    private timers: TimerManager;
 
-    constructor(config: ProjectileManagerConfig = {}) {
+    /**
+     * Creates a new ProjectileManager instance
+     * @param config - Pool and projectile defaults
+     * @param timers - Loop-driven timers used to expire projectiles in simulation time
+     */
+    constructor(config: ProjectileManagerConfig, timers: TimerManager) {
+        this.timers = timers;
         this.config = {
             initialPoolSize: config.initialPoolSize || DEFAULT_POOL_SIZE,
             maxProjectiles: config.maxProjectiles || MAX_PROJECTILES,
@@ -61,7 +71,6 @@ export class ProjectileManager {
         this.events = new EventEmitter();
         
         this.initializePool();
-        this.startCleanupInterval();
     }
 
     /**
@@ -101,6 +110,7 @@ export class ProjectileManager {
                 this.position = { x: 0, y: 0 };
                 this.velocity = { x: 0, y: 0 };
                 this.spawnTime = 0;
+                this.lifetimeTimer = undefined;
             },
             
             update(deltaTime: number): void {
@@ -137,7 +147,11 @@ export class ProjectileManager {
             projectile.velocity = { ...velocity };
             projectile.damage = damage ?? this.config.defaultDamage;
             projectile.isActive = true;
-            projectile.spawnTime = Date.now();
+            projectile.spawnTime = this.timers.getElapsed();
+            projectile.lifetimeTimer = this.timers.after(
+                projectile.lifespan,
+                () => this.destroyProjectile(projectile)
+            );
 
             this.activeProjectiles.add(projectile);
             this.events.emit('projectileSpawned', projectile);
@@ -156,31 +170,16 @@ export class ProjectileManager {
     public update(deltaTime: number): void {
         for (const projectile of this.activeProjectiles) {
             projectile.update(deltaTime);
-            
-            // Check if projectile should be destroyed
-            if (this.shouldDestroyProjectile(projectile)) {
-                this.destroyProjectile(projectile);
-            }
         }
     }
 
-    /**
-     * Determines if a projectile should be destroyed
-     * @private
-     * @param {Projectile} projectile Projectile to check
-     * @returns {boolean} True if projectile should be destroyed
-     */
-    private shouldDestroyProjectile(projectile: Projectile): boolean {
-        const age = Date.now() - projectile.spawnTime;
-        return age >= projectile.lifespan;
-    }
-
     /**
      * Destroys a projectile and returns it to the pool
      * @param {Projectile} projectile Projectile to destroy
      */
     public destroyProjectile(projectile: Projectile): void {
         try {
+            this.timers.cancel(projectile.lifetimeTimer);
             this.activeProjectiles.delete(projectile);
             this.projectilePool.release(projectile);
             this.events.emit('projectileDestroyed', projectile);
@@ -189,25 +188,13 @@ export class ProjectileManager {
         }
     }
 
-    /**
-     * Starts the automatic cleanup interval
-     * @private
-     */
-    private startCleanupInterval(): void {
-        setInterval(() => {
-            const now = Date.now();
-            for (const projectile of this.activeProjectiles) {
-                if (now - projectile.spawnTime >= projectile.lifespan) {
-                    this.destroyProjectile(projectile);
-                }
-            }
-        }, CLEANUP_INTERVAL);
-    }
-
     /**
      * Cleans up all projectiles and resources
      */
     public dispose(): void {
+        for (const projectile of this.activeProjectiles) {
+            this.timers.cancel(projectile.lifetimeTimer);
+        }
         this.activeProjectiles.clear();
         this.events.removeAllListeners();
     }
@@ -8,6 +8,7 @@ import { Vector2 } from '../types/Vector2';
 import { Enemy } from '../entities/Enemy';
 import { EventEmitter } from '../utils/EventEmitter';
 import { Logger } from '../utils/Logger';
+import { TimerManager } from '../engine/TimerManager';
 
 /**
  * Represents a formation pattern for enemy spawning
@@ -38,18 +39,21 @@ export class WaveManager {
   private eventEmitter: EventEmitter;
   private spawnPoint: Vector2;
   private waveConfigs: WaveConfig[];
+  private timers: TimerManager;
 
   /**
    * Creates a new WaveManager instance
    * @param spawnPoint - The point where enemies will spawn
    * @param eventEmitter - Event system for game-wide communication
+   * @param timers - Loop-driven timers used to pace enemy spawns
    */
-  constructor(spawnPoint: Vector2, eventEmitter: EventEmitter) {
+  constructor(spawnPoint: Vector2, eventEmitter: EventEmitter, timers: TimerManager) {
     this.currentWave = 0;
     this.isSpawning = false;
     this.enemies = [];
     this.eventEmitter = eventEmitter;
     this.spawnPoint = spawnPoint;
+    this.timers = timers;
     this.waveConfigs = this.initializeWaveConfigs();
 
     this.bindEvents();
@@ -175,11 +179,11 @@ export class WaveManager {
   }
 
   /**
-   * Creates a delay using a promise
+   * Creates a delay measured in simulation time
    * @param ms - Milliseconds to delay
    */
   private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return this.timers.delay(ms);
   }
 
   /**
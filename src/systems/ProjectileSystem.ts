@@ -9,23 +9,34 @@ import { GameObject } from '../core/GameObject';
 import { System } from '../core/System';
 import { Pool } from '../utils/Pool';
 import { EventEmitter } from '../core/EventEmitter';
+import { TimerManager, TimerHandle } from '../engine/TimerManager';
+import { Unsubscribe } from '../engine/GameLoop';
+import { BoundingBox, CollisionContact, CollisionLayer, CollisionSystem } from '../engine/collision/CollisionSystem';
+import { ProjectilePath, ShieldImpact, ShieldSystem } from './ShieldSystem';
 
 // Configuration constants
 const CONFIG = {
     MAX_PROJECTILES: 100,
     DEFAULT_SPEED: 500,
-    CLEANUP_INTERVAL: 1000,
-    MAX_LIFETIME: 5000, // milliseconds
+    MAX_LIFETIME: 5000, // milliseconds of simulation time
+    HITBOX_WIDTH: 4,
+    HITBOX_HEIGHT: 12,
 } as const;
 
 /**
  * Represents a projectile entity in the game
  */
 interface Projectile extends GameObject {
+    /** Collider id, reissued on every spawn */
+    id: string;
+    /** Position at the start of the last update, for shields to trace the path */
+    previousPosition: Vector2;
     velocity: Vector2;
     damage: number;
-    createdAt: number;
+    lifetimeTimer?: TimerHandle;
     isActive: boolean;
+    layer: CollisionLayer;
+    hitbox: BoundingBox;
 }
 
 /**
@@ -36,6 +47,18 @@ interface ProjectileOptions {
     direction: Vector2;
     speed?: number;
     damage?: number;
+    /** Collision layer (defaults to ENEMY_BULLET when moving down, PLAYER_BULLET otherwise) */
+    layer?: CollisionLayer;
+}
+
+/**
+ * Payload of the `collision` event
+ */
+export interface ProjectileCollisionEvent {
+    projectileId: string;
+    targetId: string;
+    targetLayer: CollisionLayer;
+    damage: number;
 }
 
 /**
@@ -45,21 +68,25 @@ export class ProjectileSystem implements System {
     private projectilePool: Pool<Projectile>;
     private activeProjectiles: Set<Projectile>;
     private events: EventEmitter;
+    private timers: TimerManager;
+    private collisions: CollisionSystem | null = null;
+    private shields: ShieldSystem | null = null;
 
     /**
      * Creates a new ProjectileSystem instance
      * @param events - Event emitter for system communication
+     * @param timers - Loop-driven timers used to expire projectiles in simulation time
      */
-    constructor(events: EventEmitter) {
+    constructor(events: EventEmitter, timers: TimerManager) {
         this.projectilePool = new Pool<Projectile>(
             () => this.createProjectile(),
             CONFIG.MAX_PROJECTILES
         );
         this.activeProjectiles = new Set();
         this.events = events;
+        this.timers = timers;
 
         this.setupEventListeners();
-        this.startCleanupInterval();
     }
 
     /**
@@ -71,14 +98,13 @@ export class ProjectileSystem implements System {
             this.activeProjectiles.forEach(projectile => {
                 if (!projectile.isActive) return;
 
+                projectile.previousPosition.x = projectile.position.x;
+                projectile.previousPosition.y = projectile.position.y;
+
                 // Update position based on velocity
                 projectile.position.x += projectile.velocity.x * deltaTime;
                 projectile.position.y += projectile.velocity.y * deltaTime;
-
-                // Check if projectile should be destroyed
-                if (this.shouldDestroyProjectile(projectile)) {
-                    this.destroyProjectile(projectile);
-                }
+                this.syncHitbox(projectile);
 
                 // Emit position update event
                 this.events.emit('projectileMove', projectile);
@@ -101,15 +127,27 @@ export class ProjectileSystem implements System {
                 return null;
             }
 
+            // A pooled projectile's old contacts stay open until the next collision step,
+            // so a fresh id keeps a re-fire from continuing them instead of entering anew
+            projectile.id = crypto.randomUUID();
+
             // Initialize projectile properties
             projectile.position = { ...options.position };
+            projectile.previousPosition = { ...options.position };
             projectile.velocity = {
                 x: options.direction.x * (options.speed || CONFIG.DEFAULT_SPEED),
                 y: options.direction.y * (options.speed || CONFIG.DEFAULT_SPEED)
             };
             projectile.damage = options.damage || 1;
-            projectile.createdAt = Date.now();
+            projectile.layer = options.layer ??
+                (options.direction.y > 0 ? CollisionLayer.ENEMY_BULLET : CollisionLayer.PLAYER_BULLET);
             projectile.isActive = true;
+            this.syncHitbox(projectile);
+            this.collisions?.addCollider(projectile.id, { layer: projectile.layer, bounds: projectile.hitbox });
+            projectile.lifetimeTimer = this.timers.after(
+                CONFIG.MAX_LIFETIME,
+                () => this.destroyProjectile(projectile)
+            );
 
             this.activeProjectiles.add(projectile);
             this.events.emit('projectileSpawned', projectile);
@@ -128,7 +166,10 @@ export class ProjectileSystem implements System {
     private destroyProjectile(projectile: Projectile): void {
         try {
             projectile.isActive = false;
+            this.timers.cancel(projectile.lifetimeTimer);
+            projectile.lifetimeTimer = undefined;
             this.activeProjectiles.delete(projectile);
+            this.collisions?.removeCollider(projectile.id);
             this.projectilePool.release(projectile);
             this.events.emit('projectileDestroyed', projectile);
         } catch (error) {
@@ -143,54 +184,151 @@ export class ProjectileSystem implements System {
     private createProjectile(): Projectile {
         return {
             position: { x: 0, y: 0 },
+            previousPosition: { x: 0, y: 0 },
             velocity: { x: 0, y: 0 },
             damage: 1,
-            createdAt: 0,
             isActive: false,
+            layer: CollisionLayer.PLAYER_BULLET,
+            hitbox: { x: 0, y: 0, width: CONFIG.HITBOX_WIDTH, height: CONFIG.HITBOX_HEIGHT },
             id: crypto.randomUUID()
         };
     }
 
     /**
-     * Determines if a projectile should be destroyed
-     * @param projectile - The projectile to check
-     * @returns Boolean indicating if the projectile should be destroyed
+     * Centers a projectile's hitbox on its position
+     * @param projectile - The projectile that moved
      */
-    private shouldDestroyProjectile(projectile: Projectile): boolean {
-        const age = Date.now() - projectile.createdAt;
-        return age > CONFIG.MAX_LIFETIME;
+    private syncHitbox(projectile: Projectile): void {
+        projectile.hitbox.x = projectile.position.x - CONFIG.HITBOX_WIDTH / 2;
+        projectile.hitbox.y = projectile.position.y - CONFIG.HITBOX_HEIGHT / 2;
     }
 
     /**
-     * Sets up event listeners for the system
+     * Registers active projectiles with a collision system and emits `collision`
+     * events from its enter contacts, which in turn destroy the projectile
+     * @param collisions - Collision system stepped by the game loop
+     * @returns Function that disconnects the system and removes the colliders
      */
-    private setupEventListeners(): void {
-        this.events.on('collision', (data: { projectileId: string }) => {
-            const projectile = Array.from(this.activeProjectiles)
-                .find(p => p.id === data.projectileId);
+    public connectCollisions(collisions: CollisionSystem): Unsubscribe {
+        this.collisions = collisions;
+        this.activeProjectiles.forEach(projectile =>
+            collisions.addCollider(projectile.id, { layer: projectile.layer, bounds: projectile.hitbox })
+        );
+
+        const removeListener = collisions.onCollisionEnter(contact => this.handleContact(contact));
+
+        return () => {
+            removeListener();
+            this.activeProjectiles.forEach(projectile => collisions.removeCollider(projectile.id));
+            if (this.collisions === collisions) {
+                this.collisions = null;
+            }
+        };
+    }
+
+    /**
+     * Lets shields resolve projectile hits per pixel: a projectile touching a shield
+     * is only stopped, through a `collision` event, where it meets a solid pixel
+     * @param shields - Shield system connected to the same collision system
+     * @returns Function that disconnects the shields
+     */
+    public connectShields(shields: ShieldSystem): Unsubscribe {
+        this.shields = shields;
+        shields.setProjectilePaths(id => this.getProjectilePath(id));
+        const removeListener = shields.onImpact(impact => this.handleShieldImpact(impact));
+
+        return () => {
+            removeListener();
+            shields.setProjectilePaths(null);
+            if (this.shields === shields) {
+                this.shields = null;
+            }
+        };
+    }
+
+    /**
+     * Gets the path an active projectile moved along in the last update
+     * @param id - Projectile id
+     */
+    private getProjectilePath(id: string): ProjectilePath | null {
+        const projectile = this.findActiveProjectile(id);
+        return projectile ? { from: projectile.previousPosition, to: projectile.position } : null;
+    }
+
+    /**
+     * Turns a shield impact into a `collision` event, which destroys the projectile
+     * @param impact - Impact reported by the shield system
+     */
+    private handleShieldImpact(impact: ShieldImpact): void {
+        const projectile = this.findActiveProjectile(impact.projectileId);
+        if (projectile) {
+            const event: ProjectileCollisionEvent = {
+                projectileId: impact.projectileId,
+                targetId: impact.shieldId,
+                targetLayer: CollisionLayer.SHIELD,
+                damage: projectile.damage
+            };
+            this.events.emit('collision', event);
+        }
+    }
+
+    /**
+     * Turns a contact involving an active projectile into a `collision` event.
+     * Shield contacts are left to the connected shield system, since the bounds
+     * may overlap where the shield has already been eroded.
+     * @param contact - Contact reported by the collision system
+     */
+    private handleContact(contact: CollisionContact): void {
+        const sides: Array<[string, string, CollisionLayer]> = [
+            [contact.entityA, contact.entityB, contact.layerB],
+            [contact.entityB, contact.entityA, contact.layerA]
+        ];
+
+        for (const [projectileId, targetId, targetLayer] of sides) {
+            if (targetLayer === CollisionLayer.SHIELD && this.shields) continue;
+
+            const projectile = this.findActiveProjectile(projectileId);
             if (projectile) {
-                this.destroyProjectile(projectile);
+                const event: ProjectileCollisionEvent = {
+                    projectileId,
+                    targetId,
+                    targetLayer,
+                    damage: projectile.damage
+                };
+                this.events.emit('collision', event);
             }
-        });
+        }
     }
 
     /**
-     * Starts the interval for cleaning up inactive projectiles
+     * Finds an active projectile by id
+     * @param id - Projectile id
      */
-    private startCleanupInterval(): void {
-        setInterval(() => {
-            this.activeProjectiles.forEach(projectile => {
-                if (this.shouldDestroyProjectile(projectile)) {
-                    this.destroyProjectile(projectile);
-                }
-            });
-        }, CONFIG.CLEANUP_INTERVAL);
+    private findActiveProjectile(id: string): Projectile | undefined {
+        return Array.from(this.activeProjectiles).find(p => p.id === id && p.isActive);
+    }
+
+    /**
+     * Sets up event listeners for the system
+     */
+    private setupEventListeners(): void {
+        this.events.on('collision', (data: ProjectileCollisionEvent) => {
+            const projectile = this.findActiveProjectile(data.projectileId);
+            if (projectile) {
+                this.destroyProjectile(projectile);
+            }
+        });
     }
 
     /**
      * Cleans up the system resources
      */
     public dispose(): void {
+        this.activeProjectiles.forEach(projectile => {
+            this.timers.cancel(projectile.lifetimeTimer);
+            this.collisions?.removeCollider(projectile.id);
+        });
+        this.collisions = null;
         this.activeProjectiles.clear();
         this.events.removeAllListeners();
     }
@@ -0,0 +1,182 @@
+/**
+ * @file ShieldSystem.ts
+ * @description Tracks the shield bunkers and resolves what touches them.
+ * Bullets that reach a solid pixel erode a crater and are reported as impacts,
+ * bullets passing through eroded holes carry on, and enemies carve away every
+ * pixel they walk through.
+ */
+
+import { Unsubscribe } from '../engine/GameLoop';
+import { CollisionContact, CollisionLayer, CollisionSystem } from '../engine/collision/CollisionSystem';
+import { Shield } from '../entities/Shield';
+
+// Types and interfaces
+interface Vector2D {
+  x: number;
+  y: number;
+}
+
+/**
+ * Where a projectile was at the start and end of the last fixed update
+ */
+export interface ProjectilePath {
+  from: Vector2D;
+  to: Vector2D;
+}
+
+/**
+ * Looks up a projectile's path by collider id; null if it is not a live projectile
+ */
+export type ProjectilePathSource = (projectileId: string) => ProjectilePath | null;
+
+/**
+ * A projectile stopped by a shield
+ */
+export interface ShieldImpact {
+  shieldId: string;
+  projectileId: string;
+  /** World-space centre of the pixel hit */
+  point: Vector2D;
+}
+
+export type ShieldImpactListener = (impact: ShieldImpact) => void;
+
+const BULLET_LAYERS = CollisionLayer.PLAYER_BULLET | CollisionLayer.ENEMY_BULLET;
+
+/**
+ * Owns the shields and applies bullet and enemy contacts to them
+ */
+export class ShieldSystem {
+  private shields: Map<string, Shield>;
+  private collisions: CollisionSystem | null;
+  private projectilePaths: ProjectilePathSource | null;
+  private impactListeners: ShieldImpactListener[];
+
+  constructor() {
+    this.shields = new Map();
+    this.collisions = null;
+    this.projectilePaths = null;
+    this.impactListeners = [];
+  }
+
+  /**
+   * Adds a shield, registering its collider if a collision system is connected
+   * @param shield - Shield to add
+   */
+  public addShield(shield: Shield): void {
+    this.shields.set(shield.id, shield);
+    this.collisions?.addCollider(shield.id, shield.getColliderOptions());
+  }
+
+  /**
+   * Removes a shield and its collider
+   * @param shieldId - Shield id
+   * @returns True if the shield was registered
+   */
+  public removeShield(shieldId: string): boolean {
+    this.collisions?.removeCollider(shieldId);
+    return this.shields.delete(shieldId);
+  }
+
+  /**
+   * Gets a shield by id
+   * @param shieldId - Shield id
+   */
+  public getShield(shieldId: string): Shield | undefined {
+    return this.shields.get(shieldId);
+  }
+
+  /**
+   * Gets every shield
+   */
+  public getShields(): Shield[] {
+    return Array.from(this.shields.values());
+  }
+
+  /**
+   * Restores every shield, e.g. at the start of a new wave
+   */
+  public reset(): void {
+    this.shields.forEach(shield => shield.reset());
+  }
+
+  /**
+   * Sets where bullet paths are read from when a bullet touches a shield
+   * @param source - Path lookup, usually the projectile system's
+   */
+  public setProjectilePaths(source: ProjectilePathSource | null): void {
+    this.projectilePaths = source;
+  }
+
+  /**
+   * Registers a listener for bullets stopped by a shield
+   * @param listener - Function called with the impact
+   * @returns Function that removes the listener
+   */
+  public onImpact(listener: ShieldImpactListener): Unsubscribe {
+    this.impactListeners.push(listener);
+    return () => {
+      this.impactListeners = this.impactListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Registers the shields with a collision system and resolves their contacts
+   * every step they last, so bullets in holes and walking enemies are rechecked
+   * @param collisions - Collision system stepped by the game loop
+   * @returns Function that disconnects the system and removes the colliders
+   */
+  public connectCollisions(collisions: CollisionSystem): Unsubscribe {
+    this.collisions = collisions;
+    this.shields.forEach(shield => collisions.addCollider(shield.id, shield.getColliderOptions()));
+
+    const handleContact = (contact: CollisionContact) => this.handleContact(contact);
+    const removeEnter = collisions.onCollisionEnter(handleContact);
+    const removeStay = collisions.onCollisionStay(handleContact);
+
+    return () => {
+      removeEnter();
+      removeStay();
+      this.shields.forEach(shield => collisions.removeCollider(shield.id));
+      if (this.collisions === collisions) {
+        this.collisions = null;
+      }
+    };
+  }
+
+  /**
+   * Applies a contact between a shield and a bullet or enemy
+   * @param contact - Contact reported by the collision system
+   */
+  private handleContact(contact: CollisionContact): void {
+    const [shieldId, otherId, otherLayer] = contact.layerA === CollisionLayer.SHIELD
+      ? [contact.entityA, contact.entityB, contact.layerB]
+      : [contact.entityB, contact.entityA, contact.layerA];
+
+    const shield = this.shields.get(shieldId);
+    if (!shield) return;
+
+    if (otherLayer === CollisionLayer.ENEMY) {
+      const enemy = this.collisions?.getCollider(otherId);
+      if (enemy) {
+        shield.carve(enemy.bounds);
+      }
+    } else if ((otherLayer & BULLET_LAYERS) !== 0) {
+      const path = this.projectilePaths?.(otherId);
+      const point = path ? shield.hitByProjectile(path.from, path.to) : null;
+      if (point) {
+        this.notifyImpact({ shieldId, projectileId: otherId, point });
+      }
+    }
+  }
+
+  private notifyImpact(impact: ShieldImpact): void {
+    for (const listener of this.impactListeners) {
+      try {
+        listener(impact);
+      } catch (error) {
+        console.error('Error in shield impact listener:', error);
+      }
+    }
+  }
+}
@@ -4,6 +4,8 @@
  * Handles wave configuration, enemy spawning, and wave state management.
  */
 
+import { TimerManager } from '../engine/TimerManager';
+
 // Types and interfaces
 interface WaveConfig {
   enemyCount: number;
@@ -39,14 +41,17 @@ export class WaveManager {
   private waveConfigs: Map<number, WaveConfig>;
   private state: WaveState;
   private onWaveComplete?: WaveCompletionCallback;
-  private spawnTimer?: NodeJS.Timeout;
+  private cancelSpawn?: () => void;
+  private timers: TimerManager;
 
   /**
    * Creates a new WaveManager instance
-   * @param initialWaveConfigs Optional initial wave configurations
+   * @param initialWaveConfigs Initial wave configurations, possibly empty
+   * @param timers Loop-driven timers used to pace enemy spawns
    */
-  constructor(initialWaveConfigs?: Map<number, WaveConfig>) {
-    this.waveConfigs = initialWaveConfigs || new Map();
+  constructor(initialWaveConfigs: Map<number, WaveConfig>, timers: TimerManager) {
+    this.timers = timers;
+    this.waveConfigs = initialWaveConfigs;
     this.state = {
       currentWave: 0,
       enemiesSpawned: 0,
@@ -138,7 +143,7 @@ export class WaveManager {
       enemiesSpawned: 0,
       enemiesRemaining: config.enemyCount,
       isActive: true,
-      startTime: Date.now()
+      startTime: this.timers.getElapsed()
     };
 
     this.startSpawning(config);
@@ -157,9 +162,9 @@ export class WaveManager {
         this.spawnEnemy(config);
         this.state.enemiesSpawned++;
         
-        this.spawnTimer = setTimeout(
-          spawnEnemy, 
-          config.spawnInterval * WaveManager.BASE_SPAWN_INTERVAL
+        this.cancelSpawn = this.schedule(
+          config.spawnInterval * WaveManager.BASE_SPAWN_INTERVAL,
+          spawnEnemy
         );
       }
     };
@@ -202,13 +207,22 @@ export class WaveManager {
     }
   }
 
+  /**
+   * Calls a function after a delay of simulation time
+   * @returns Function that cancels the call
+   */
+  private schedule(delay: number, callback: () => void): () => void {
+    const handle = this.timers.after(delay, callback);
+    return () => this.timers.cancel(handle);
+  }
+
   /**
    * Clears the spawn timer
    */
   private clearSpawnTimer(): void {
-    if (this.spawnTimer) {
-      clearTimeout(this.spawnTimer);
-      this.spawnTimer = undefined;
+    if (this.cancelSpawn) {
+      this.cancelSpawn();
+      this.cancelSpawn = undefined;
     }
   }
 }
\ No newline at end of file
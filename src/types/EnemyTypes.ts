@@ -0,0 +1,15 @@
+/**
+ * @file EnemyTypes.ts
+ * @description Enemy type identifiers shared by entities, sprites and palettes
+ * @module types/EnemyTypes
+ */
+
+/**
+ * Supported enemy types
+ */
+export enum EnemyType {
+  BASIC = 'basic',
+  FAST = 'fast',
+  TANK = 'tank',
+  BOSS = 'boss'
+}
@@ -12,6 +12,8 @@
 // Imports
 // =========================================================================
 import { EventEmitter } from 'events';
+import { getPalette, onPaletteChange, Palette } from '../engine/Palette';
+import { Unsubscribe } from '../engine/GameLoop';
 
 // =========================================================================
 // Types & Interfaces
@@ -49,14 +51,11 @@ interface Position {
 const DEFAULT_CONFIG: GameUIConfig = {
   containerId: 'game-ui',
   width: 800,
-  height: 600,
-  theme: {
-    backgroundColor: '#000000',
-    textColor: '#ffffff',
-    fontFamily: 'Arial, sans-serif'
-  }
+  height: 600
 };
 
+const DEFAULT_FONT_FAMILY = 'Arial, sans-serif';
+
 // =========================================================================
 // Main Class
 // =========================================================================
@@ -68,6 +67,7 @@ export class GameUI extends EventEmitter {
   private config: GameUIConfig;
   private elements: Map<string, HTMLElement>;
   private isInitialized: boolean;
+  private unsubscribePalette: Unsubscribe | null;
 
   /**
    * Creates a new GameUI instance
@@ -79,6 +79,16 @@ export class GameUI extends EventEmitter {
     this.elements = new Map();
     this.isInitialized = false;
     this.container = null;
+    this.unsubscribePalette = null;
+
+    // Without an explicit theme the UI follows the active palette
+    if (!this.config.theme) {
+      this.config.theme = this.createPaletteTheme(getPalette());
+      this.unsubscribePalette = onPaletteChange((palette) => {
+        this.config.theme = this.createPaletteTheme(palette);
+        this.setupBaseStyles();
+      });
+    }
   }
 
   /**
@@ -199,10 +209,24 @@ export class GameUI extends EventEmitter {
     });
   }
 
+  /**
+   * Builds a theme from palette colors
+   * @private
+   */
+  private createPaletteTheme(palette: Palette): UITheme {
+    return {
+      backgroundColor: palette.background,
+      textColor: palette.foreground,
+      fontFamily: DEFAULT_FONT_FAMILY
+    };
+  }
+
   /**
    * Cleans up resources and removes event listeners
    */
   public dispose(): void {
+    this.unsubscribePalette?.();
+    this.unsubscribePalette = null;
     this.elements.clear();
     this.removeAllListeners();
     if (this.container && this.container.parentNode) {
@@ -0,0 +1,233 @@
+/**
+ * @file AssetLoader.test.ts
+ * @description Test suite for the manifest-driven asset preloader
+ *
+ * Tests cover:
+ * - Limiting the number of assets loading at once
+ * - Progress events, including failures
+ * - Skipping keys that are already loaded
+ * - Timeouts cancelling images and keeping them out of the image cache
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { AssetLoader, AssetLoadError, LoadProgress, ManifestLoadError } from '../src/engine/AssetLoader';
+import { clearImageCache, hasImage } from '../src/engine/ImageCache';
+import { AUDIO_ERROR_CODES } from '../src/audio/AudioTypes';
+
+/**
+ * Stand-in for an image element whose download completes when the test says so
+ */
+class FakeImage {
+    public static requested: FakeImage[] = [];
+
+    public onload: (() => void) | null = null;
+    public onerror: (() => void) | null = null;
+    public settled = false;
+    private source = '';
+
+    public get src(): string {
+        return this.source;
+    }
+
+    public set src(src: string) {
+        this.source = src;
+        if (src) {
+            FakeImage.requested.push(this);
+        }
+    }
+
+    public static pending(): FakeImage[] {
+        return FakeImage.requested.filter(image => image.src && !image.settled);
+    }
+
+    public static find(src: string): FakeImage {
+        const image = FakeImage.requested.find(candidate => candidate.src === src);
+        if (!image) {
+            throw new Error(`No image requested for ${src}`);
+        }
+        return image;
+    }
+
+    public finish(): void {
+        this.settled = true;
+        this.onload?.();
+    }
+
+    public fail(): void {
+        this.settled = true;
+        this.onerror?.();
+    }
+}
+
+// Lets queued workers pick up their next task
+const flush = async (): Promise<void> => {
+    for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+    }
+};
+
+describe('AssetLoader', () => {
+    let progress: LoadProgress[];
+
+    beforeEach(() => {
+        FakeImage.requested = [];
+        progress = [];
+        clearImageCache();
+        Object.assign(globalThis, { Image: FakeImage });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        delete (globalThis as { Image?: unknown }).Image;
+        delete (globalThis as { fetch?: unknown }).fetch;
+    });
+
+    const createLoader = (options: { concurrency?: number; timeout?: number } = {}): AssetLoader => {
+        const loader = new AssetLoader(options);
+        loader.onProgress(event => progress.push(event));
+        return loader;
+    };
+
+    describe('Construction', () => {
+        test('should reject invalid concurrency and timeouts', () => {
+            expect(() => new AssetLoader({ concurrency: 0 })).toThrow('Concurrency must be a positive integer');
+            expect(() => new AssetLoader({ timeout: -1 })).toThrow('Timeout must be a positive number');
+        });
+    });
+
+    describe('Concurrency', () => {
+        test('should keep at most the configured number of assets loading', async () => {
+            const loader = createLoader({ concurrency: 2 });
+            const images = { a: 'a.png', b: 'b.png', c: 'c.png', d: 'd.png', e: 'e.png' };
+
+            const loading = loader.load({ images });
+            await flush();
+            expect(FakeImage.pending().map(image => image.src)).toEqual(['a.png', 'b.png']);
+
+            FakeImage.find('a.png').finish();
+            await flush();
+            expect(FakeImage.pending().map(image => image.src)).toEqual(['b.png', 'c.png']);
+
+            for (const src of ['b.png', 'c.png', 'd.png', 'e.png']) {
+                FakeImage.find(src).finish();
+                await flush();
+                expect(FakeImage.pending().length).toBeLessThanOrEqual(2);
+            }
+
+            await loading;
+            expect(FakeImage.requested).toHaveLength(5);
+            expect(loader.getImage('e')).toBe(FakeImage.find('e.png'));
+            expect(hasImage('e.png')).toBe(true);
+        });
+    });
+
+    describe('Progress', () => {
+        test('should report each settled asset, counting failures', async () => {
+            const loader = createLoader({ concurrency: 1 });
+
+            const loading = loader.load({ images: { ok: 'ok.png', broken: 'broken.png' } }).catch(error => error);
+            await flush();
+            FakeImage.find('ok.png').finish();
+            await flush();
+            FakeImage.find('broken.png').fail();
+
+            const error = await loading;
+
+            expect(progress).toEqual([
+                { loaded: 1, total: 2, failed: 0, ratio: 0.5, key: 'ok', type: 'image' },
+                { loaded: 2, total: 2, failed: 1, ratio: 1, key: 'broken', type: 'image' }
+            ]);
+            expect(error).toBeInstanceOf(ManifestLoadError);
+            expect((error as ManifestLoadError).failures.map(failure => failure.key)).toEqual(['broken']);
+            expect(loader.has('ok')).toBe(true);
+            expect(loader.has('broken')).toBe(false);
+        });
+
+        test('should load JSON through fetch and fail on bad responses', async () => {
+            const fetch = jest.fn(async (url: string) => ({
+                ok: url === 'level.json',
+                status: url === 'level.json' ? 200 : 404,
+                json: async () => ({ rows: 5 })
+            }));
+            Object.assign(globalThis, { fetch });
+            const loader = createLoader();
+
+            const error = await loader.load({ json: { level: 'level.json', missing: 'missing.json' } })
+                .catch(failure => failure);
+
+            expect(loader.getJSON('level')).toEqual({ rows: 5 });
+            expect((error as ManifestLoadError).failures[0].message).toContain('HTTP 404 for missing.json');
+            expect(fetch).toHaveBeenCalledWith('level.json', { signal: expect.any(AbortSignal) });
+            expect(progress).toHaveLength(2);
+        });
+    });
+
+    describe('Already loaded keys', () => {
+        test('should skip keys that are already loaded', async () => {
+            const loader = createLoader();
+
+            const first = loader.load({ images: { ship: 'ship.png' } });
+            await flush();
+            FakeImage.find('ship.png').finish();
+            await first;
+
+            progress = [];
+            const second = loader.load({ images: { ship: 'ship.png', alien: 'alien.png' } });
+            await flush();
+            FakeImage.find('alien.png').finish();
+            await second;
+
+            expect(FakeImage.requested.map(image => image.src)).toEqual(['ship.png', 'alien.png']);
+            expect(progress).toEqual([{ loaded: 1, total: 1, failed: 0, ratio: 1, key: 'alien', type: 'image' }]);
+        });
+
+        test('should resolve without progress for an empty manifest', async () => {
+            const loader = createLoader();
+
+            await loader.load({});
+
+            expect(progress).toEqual([]);
+        });
+    });
+
+    describe('Timeouts', () => {
+        test('should cancel timed-out images and keep them out of the image cache', async () => {
+            jest.useFakeTimers();
+            const loader = createLoader({ timeout: 1000 });
+
+            const loading = loader.load({ images: { slow: 'slow.png' } }).catch(error => error);
+            await flush();
+            const image = FakeImage.find('slow.png');
+
+            await jest.advanceTimersByTimeAsync(1000);
+            const error = await loading;
+
+            const failure = (error as ManifestLoadError).failures[0];
+            expect(failure).toBeInstanceOf(AssetLoadError);
+            expect(failure.code).toBe(AUDIO_ERROR_CODES.LOAD_TIMEOUT);
+            expect(image.src).toBe('');
+            expect(image.onload).toBeNull();
+            expect(hasImage('slow.png')).toBe(false);
+            expect(loader.has('slow')).toBe(false);
+        });
+
+        test('should retry a timed-out image on the next load', async () => {
+            jest.useFakeTimers();
+            const loader = createLoader({ timeout: 1000 });
+
+            const first = loader.load({ images: { slow: 'slow.png' } }).catch(error => error);
+            await flush();
+            await jest.advanceTimersByTimeAsync(1000);
+            await first;
+
+            const second = loader.load({ images: { slow: 'slow.png' } });
+            await flush();
+            FakeImage.pending()[0].finish();
+            await second;
+
+            expect(FakeImage.requested).toHaveLength(2);
+            expect(loader.getImage('slow')).toBe(FakeImage.requested[1]);
+            expect(hasImage('slow.png')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * @file BitmapFont.test.ts
+ * @description Test suite for bitmap-font measurement, alignment and number formatting
+ *
+ * Tests cover:
+ * - Measuring lines to the last glyph's right edge
+ * - Horizontal alignment and vertical baselines
+ * - Case folding and fallback glyphs
+ * - Formatting numbers with Intl.NumberFormat, including no-break space separators
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { BitmapFont, BitmapFontData, GlyphMetrics } from '../src/engine/BitmapFont';
+import { SpriteImage } from '../src/engine/ImageCache';
+
+const CHARACTERS = '0123456789AB ?,';
+
+// 5x7 glyphs that advance 6 pixels, plus a narrow offset period
+const createFontData = (): BitmapFontData => {
+    const glyphs: Record<string, GlyphMetrics> = {};
+    Array.from(CHARACTERS).forEach((char, index) => {
+        glyphs[char] = { x: index * 5, y: 0, width: 5, height: 7, xOffset: 0, yOffset: 0, advance: 6 };
+    });
+    glyphs['.'] = { x: 80, y: 0, width: 2, height: 7, xOffset: 1, yOffset: 0, advance: 4 };
+    return { lineHeight: 8, glyphs };
+};
+
+/**
+ * Records where each glyph is drawn
+ */
+class RecordingContext {
+    public imageSmoothingEnabled = true;
+    public drawImage = jest.fn();
+    public save = jest.fn();
+    public restore = jest.fn();
+
+    /** Source x and destination x/y of every drawn glyph */
+    public get glyphs(): Array<{ sourceX: number; x: number; y: number }> {
+        return this.drawImage.mock.calls.map(call => ({
+            sourceX: call[1] as number,
+            x: call[5] as number,
+            y: call[6] as number
+        }));
+    }
+}
+
+describe('BitmapFont', () => {
+    let font: BitmapFont;
+    let context: RecordingContext;
+
+    const draw = (text: string, x: number, y: number, style = {}): void => {
+        font.draw(context as unknown as CanvasRenderingContext2D, text, x, y, style);
+    };
+
+    beforeEach(() => {
+        font = new BitmapFont({ width: 82, height: 7 } as SpriteImage, createFontData());
+        context = new RecordingContext();
+    });
+
+    describe('Construction', () => {
+        test('should reject fonts without glyphs', () => {
+            expect(() => new BitmapFont({} as SpriteImage, { lineHeight: 8, glyphs: {} }))
+                .toThrow('must define at least one glyph');
+        });
+    });
+
+    describe('Measurement', () => {
+        test('should measure to the last glyph\'s right edge', () => {
+            expect(font.measure('A')).toEqual({ width: 5, height: 8 });
+            expect(font.measure('AB')).toEqual({ width: 11, height: 8 });
+            expect(font.measure('')).toEqual({ width: 0, height: 8 });
+        });
+
+        test('should use the last glyph\'s offset and width', () => {
+            // The period starts 1 pixel after the pen and is 2 pixels wide
+            expect(font.measure('A.')).toEqual({ width: 9, height: 8 });
+            expect(font.measure('.A')).toEqual({ width: 9, height: 8 });
+        });
+
+        test('should add letter spacing only between glyphs', () => {
+            expect(font.measure('AB', { letterSpacing: 2 }).width).toBe(13);
+            expect(font.measure('A', { letterSpacing: 2 }).width).toBe(5);
+        });
+
+        test('should measure the widest line and add line spacing between lines', () => {
+            expect(font.measure('A\nAB\nB', { lineSpacing: 2 })).toEqual({ width: 11, height: 28 });
+            expect(font.measure('AB\nA', { scale: 2 })).toEqual({ width: 22, height: 32 });
+        });
+    });
+
+    describe('Alignment', () => {
+        test('should draw left-aligned text from the pen position', () => {
+            draw('AB', 100, 50);
+
+            expect(context.glyphs).toEqual([
+                { sourceX: 50, x: 100, y: 50 },
+                { sourceX: 55, x: 106, y: 50 }
+            ]);
+            expect(context.save).toHaveBeenCalledTimes(1);
+            expect(context.restore).toHaveBeenCalledTimes(1);
+        });
+
+        test('should end right-aligned text at x', () => {
+            draw('AB', 100, 50, { align: 'right' });
+
+            expect(context.glyphs.map(glyph => glyph.x)).toEqual([89, 95]);
+        });
+
+        test('should centre text on its visible width', () => {
+            draw('AB', 100, 50, { align: 'center' });
+
+            // 11 pixels wide, so the text starts at 94.5
+            expect(context.glyphs.map(glyph => glyph.x)).toEqual([95, 101]);
+        });
+
+        test('should align each line on its own', () => {
+            draw('A\nAB', 100, 0, { align: 'right' });
+
+            expect(context.glyphs).toEqual([
+                { sourceX: 50, x: 95, y: 0 },
+                { sourceX: 50, x: 89, y: 8 },
+                { sourceX: 55, x: 95, y: 8 }
+            ]);
+        });
+
+        test('should offset text for middle and bottom baselines', () => {
+            draw('A\nA', 0, 100, { baseline: 'middle' });
+            draw('A', 0, 100, { baseline: 'bottom', scale: 2 });
+
+            expect(context.glyphs.map(glyph => glyph.y)).toEqual([92, 100, 84]);
+        });
+    });
+
+    describe('Glyph lookup', () => {
+        test('should fold case and fall back for missing characters', () => {
+            draw('ab%', 0, 0);
+
+            expect(context.glyphs.map(glyph => glyph.sourceX)).toEqual([50, 55, 65]);
+            expect(font.hasGlyph('a')).toBe(true);
+            expect(font.hasGlyph('%')).toBe(false);
+        });
+
+        test('should not draw zero-sized glyphs but still advance past them', () => {
+            const data = createFontData();
+            data.glyphs[' '] = { x: 0, y: 0, width: 0, height: 0, xOffset: 0, yOffset: 0, advance: 3 };
+            font = new BitmapFont({ width: 82, height: 7 } as SpriteImage, data);
+
+            draw('A B', 0, 0);
+
+            expect(context.glyphs.map(glyph => glyph.x)).toEqual([0, 9]);
+        });
+    });
+
+    describe('Numbers', () => {
+        test('should format with the given locale and options', () => {
+            expect(BitmapFont.formatNumber(1234567, { locale: 'en-US' })).toBe('1,234,567');
+            expect(BitmapFont.formatNumber(0.5, { locale: 'en-US', formatOptions: { minimumFractionDigits: 2 } }))
+                .toBe('0.50');
+        });
+
+        test('should prefer an existing formatter', () => {
+            const formatter = new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 });
+
+            expect(BitmapFont.formatNumber(1234.6, { formatter, locale: 'de-DE' })).toBe('1,235');
+        });
+
+        test('should draw no-break space grouping separators as spaces', () => {
+            const formatted = BitmapFont.formatNumber(1234567, { locale: 'fr-FR' });
+            expect(formatted).toMatch(/^1[\u00a0\u202f]234[\u00a0\u202f]567$/);
+
+            context.drawImage.mockClear();
+            font.drawNumber(context as unknown as CanvasRenderingContext2D, 1234567, 0, 0, { locale: 'fr-FR' });
+
+            const space = 12 * 5;
+            const fallback = 13 * 5;
+            const sources = context.glyphs.map(glyph => glyph.sourceX);
+            expect(sources.filter(sourceX => sourceX === space)).toHaveLength(2);
+            expect(sources).not.toContain(fallback);
+            expect(font.measure(formatted)).toEqual(font.measure('1 234 567'));
+        });
+
+        test('should measure currency with a no-break space before the symbol', () => {
+            const formatted = BitmapFont.formatNumber(1234.5, {
+                locale: 'de-DE',
+                formatOptions: { minimumFractionDigits: 2 }
+            });
+
+            expect(formatted).toBe('1.234,50');
+            expect(font.measure(formatted).width).toBe(6 * 6 + 4 + 5);
+
+            const euros = BitmapFont.formatNumber(12, {
+                locale: 'de-DE',
+                formatOptions: { style: 'currency', currency: 'EUR' }
+            });
+            expect(euros).toBe('12,00\u00a0€');
+            expect(font.measure(euros)).toEqual(font.measure('12,00 €'));
+        });
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * @file Broadphase.test.ts
+ * @description Test suite for the broadphase structures and benchmark harness
+ *
+ * Tests cover:
+ * - Spatial hash insert, retrieve and remove
+ * - Quadtree and spatial hash agreeing with brute force on overlapping pairs
+ * - Benchmark result shape
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { BroadphaseObject, boxesOverlap, findOverlappingPairs } from '../src/engine/collision/Broadphase';
+import { formatBenchmarkResults, runBroadphaseBenchmark } from '../src/engine/collision/BroadphaseBenchmark';
+import { Quadtree } from '../src/engine/collision/Quadtree';
+import { SpatialHash } from '../src/engine/collision/SpatialHash';
+
+const WORLD = { x: 0, y: 0, width: 800, height: 600 };
+
+function createGrid(): BroadphaseObject[] {
+    const objects: BroadphaseObject[] = [];
+    for (let row = 0; row < 12; row++) {
+        for (let column = 0; column < 30; column++) {
+            // Spacing below the object size makes neighbours overlap, some across cell and node edges
+            objects.push({ id: objects.length, x: column * 26 + (row % 3), y: row * 47, width: 28, height: 50 });
+        }
+    }
+    return objects;
+}
+
+function bruteForcePairs(objects: BroadphaseObject[]): string[] {
+    const pairs: string[] = [];
+    for (let i = 0; i < objects.length; i++) {
+        for (let j = i + 1; j < objects.length; j++) {
+            if (boxesOverlap(objects[i], objects[j])) {
+                pairs.push(`${objects[i].id}-${objects[j].id}`);
+            }
+        }
+    }
+    return pairs.sort();
+}
+
+function pairIds(pairs: Array<[BroadphaseObject, BroadphaseObject]>): string[] {
+    return pairs.map(([a, b]) => `${a.id}-${b.id}`).sort();
+}
+
+describe('SpatialHash', () => {
+    test('should return objects sharing cells once each', () => {
+        const hash = new SpatialHash(32);
+        const wide = { id: 'wide', x: 0, y: 0, width: 100, height: 10 };
+        const far = { id: 'far', x: 500, y: 500, width: 10, height: 10 };
+        hash.insert(wide);
+        hash.insert(far);
+
+        expect(hash.retrieve({ x: 10, y: 0, width: 80, height: 5 })).toEqual([wide]);
+        expect(hash.retrieve({ x: -40, y: -40, width: 10, height: 10 })).toEqual([]);
+    });
+
+    test('should remove objects from every cell', () => {
+        const hash = new SpatialHash(32);
+        const object = { x: 20, y: 20, width: 40, height: 40 };
+        hash.insert(object);
+
+        expect(hash.remove(object)).toBe(true);
+        expect(hash.getCellCount()).toBe(0);
+        expect(hash.remove(object)).toBe(false);
+    });
+
+    test('should reject invalid cell sizes', () => {
+        expect(() => new SpatialHash(0)).toThrow('cell size');
+    });
+});
+
+describe('Broadphase', () => {
+    test.each([
+        ['Quadtree', () => new Quadtree(WORLD)],
+        ['SpatialHash', () => new SpatialHash(32)]
+    ])('%s should find the same pairs as brute force', (_name, create) => {
+        const objects = createGrid();
+        expect(pairIds(findOverlappingPairs(create(), objects))).toEqual(bruteForcePairs(objects));
+    });
+
+    test('should report one result per structure and count', () => {
+        const results = runBroadphaseBenchmark({ counts: [50, 200], frames: 2 });
+
+        expect(results.map(result => `${result.name}:${result.count}`)).toEqual([
+            'Quadtree:50', 'SpatialHash:50', 'Quadtree:200', 'SpatialHash:200'
+        ]);
+        expect(results[2].pairs).toBe(results[3].pairs);
+        expect(formatBenchmarkResults(results).split('\n')).toHaveLength(5);
+    });
+});
@@ -0,0 +1,252 @@
+/**
+ * @file Camera.test.ts
+ * @description Test suite for the camera's view bounds, shake and coordinate conversion
+ *
+ * Tests cover:
+ * - View and culling bounds under zoom
+ * - Screen/world round trips while shaking
+ * - Trauma decay through update
+ * - Clamping to bounds smaller than the view
+ * - EntityManager culling against the camera's bounds
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { Camera } from '../src/engine/Camera';
+import { EntityManager } from '../src/entities/EntityManager';
+
+jest.mock('../src/utils/ObjectPool', () => ({
+    ObjectPool: class {
+        public release(): void {}
+    }
+}), { virtual: true });
+
+jest.mock('../src/utils/Performance', () => ({
+    Performance: class {
+        public startMeasure(): void {}
+        public endMeasure(): void {}
+        public getMeasure(): number {
+            return 0;
+        }
+    }
+}), { virtual: true });
+
+const VIEWPORT = { width: 800, height: 600 };
+
+type Entity = Parameters<EntityManager['addEntity']>[0];
+
+describe('Camera', () => {
+    let camera: Camera;
+
+    beforeEach(() => {
+        camera = new Camera(VIEWPORT);
+    });
+
+    describe('Bounds', () => {
+        test('should shrink the view bounds as the zoom increases', () => {
+            expect(camera.getViewBounds()).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+
+            camera.setZoom(2);
+
+            expect(camera.getViewBounds()).toEqual({ x: 200, y: 150, width: 400, height: 300 });
+            expect(camera.getViewBounds(10)).toEqual({ x: 190, y: 140, width: 420, height: 320 });
+        });
+
+        test('should widen the culling bounds by the largest shake in world units', () => {
+            camera = new Camera(VIEWPORT, { zoom: 2, maxShakeAngle: 0 });
+
+            // 8 screen pixels of shake are 4 world units at zoom 2
+            expect(camera.getCullingBounds()).toEqual({ x: 196, y: 146, width: 408, height: 308 });
+        });
+
+        test('should keep the rotated, shaken view inside the culling bounds', () => {
+            camera = new Camera(VIEWPORT, { zoom: 2, maxShakeAngle: 0.1, maxShakeOffset: 20, traumaDecay: 0 });
+            camera.addTrauma(1);
+            const culling = camera.getCullingBounds();
+            const corners = [
+                { x: 0, y: 0 },
+                { x: VIEWPORT.width, y: 0 },
+                { x: 0, y: VIEWPORT.height },
+                { x: VIEWPORT.width, y: VIEWPORT.height }
+            ];
+
+            for (let step = 0; step < 50; step++) {
+                camera.update(16);
+                for (const corner of corners) {
+                    const world = camera.screenToWorld(corner);
+                    expect(world.x).toBeGreaterThanOrEqual(culling.x);
+                    expect(world.x).toBeLessThanOrEqual(culling.x + culling.width);
+                    expect(world.y).toBeGreaterThanOrEqual(culling.y);
+                    expect(world.y).toBeLessThanOrEqual(culling.y + culling.height);
+                }
+            }
+        });
+
+        test('should report rectangles overlapping the culling bounds as visible', () => {
+            camera = new Camera(VIEWPORT, { zoom: 2, maxShakeAngle: 0 });
+
+            expect(camera.isVisible({ x: 190, y: 300, width: 8, height: 8 })).toBe(true);
+            expect(camera.isVisible({ x: 180, y: 300, width: 8, height: 8 })).toBe(false);
+        });
+    });
+
+    describe('Coordinate conversion', () => {
+        test('should round-trip screen and world points while shaking', () => {
+            camera = new Camera(VIEWPORT, { zoom: 1.5, traumaDecay: 0 });
+            camera.lookAt(1000, -250);
+            camera.addTrauma(1);
+            camera.update(37);
+
+            // The shake must actually move the view for the round trip to mean anything
+            const center = camera.worldToScreen(camera.getPosition());
+            expect(Math.hypot(center.x - 400, center.y - 300)).toBeGreaterThan(0.1);
+
+            for (const point of [{ x: 0, y: 0 }, { x: 400, y: 300 }, { x: 799, y: 12 }, { x: -50, y: 650 }]) {
+                const roundTrip = camera.worldToScreen(camera.screenToWorld(point));
+                expect(roundTrip.x).toBeCloseTo(point.x, 9);
+                expect(roundTrip.y).toBeCloseTo(point.y, 9);
+            }
+        });
+
+        test('should map the view center to the camera position without shake', () => {
+            camera.setZoom(4);
+            camera.lookAt(50, 60);
+
+            expect(camera.screenToWorld({ x: 400, y: 300 })).toEqual({ x: 50, y: 60 });
+            expect(camera.worldToScreen({ x: 60, y: 60 })).toEqual({ x: 440, y: 300 });
+        });
+    });
+
+    describe('Trauma', () => {
+        test('should clamp added trauma to 0-1', () => {
+            camera.addTrauma(2);
+            expect(camera.getTrauma()).toBe(1);
+
+            camera.addTrauma(-5);
+            expect(camera.getTrauma()).toBe(0);
+        });
+
+        test('should decay trauma with simulation time', () => {
+            camera.addTrauma(0.9);
+
+            camera.update(0);
+            expect(camera.getTrauma()).toBe(0.9);
+
+            camera.update(200);
+            expect(camera.getTrauma()).toBeCloseTo(0.6);
+
+            camera.update(1000);
+            expect(camera.getTrauma()).toBe(0);
+        });
+
+        test('should stop shaking once trauma has decayed', () => {
+            camera.addTrauma(1);
+            camera.update(100);
+            camera.update(1000);
+
+            expect(camera.worldToScreen(camera.getPosition())).toEqual({ x: 400, y: 300 });
+        });
+    });
+
+    describe('clampToBounds', () => {
+        test('should center on bounds smaller than the view', () => {
+            camera.setBounds({ x: 0, y: 0, width: 400, height: 300 });
+            camera.lookAt(1000, -1000);
+
+            expect(camera.getPosition()).toEqual({ x: 200, y: 150 });
+        });
+
+        test('should clamp each axis on its own', () => {
+            camera.setBounds({ x: 0, y: 0, width: 2000, height: 300 });
+
+            camera.lookAt(0, 500);
+            expect(camera.getPosition()).toEqual({ x: 400, y: 150 });
+
+            camera.lookAt(1900, 0);
+            expect(camera.getPosition()).toEqual({ x: 1600, y: 150 });
+        });
+
+        test('should clamp instead of centering once zooming in shrinks the view inside the bounds', () => {
+            camera.setBounds({ x: 0, y: 0, width: 400, height: 300 });
+            camera.setZoom(4);
+            camera.lookAt(0, 1000);
+
+            expect(camera.getPosition()).toEqual({ x: 100, y: 225 });
+        });
+    });
+});
+
+describe('EntityManager with a camera', () => {
+    const createEntity = (id: string, x: number, y: number): Entity => ({
+        id,
+        position: { x, y },
+        bounds: { width: 8, height: 8 },
+        isActive: true,
+        isVisible: true,
+        zIndex: 0,
+        update: jest.fn(),
+        render: jest.fn()
+    }) as unknown as Entity;
+
+    const createContext = () => ({
+        canvas: { width: 800, height: 600 },
+        save: jest.fn(),
+        restore: jest.fn(),
+        translate: jest.fn(),
+        rotate: jest.fn(),
+        scale: jest.fn()
+    });
+
+    test('should render only entities inside the camera\'s culling bounds', () => {
+        const manager = new EntityManager(2000, 2000);
+        const camera = new Camera(VIEWPORT, { position: { x: 1000, y: 1000 }, zoom: 2, maxShakeAngle: 0 });
+        const cullingSpy = jest.spyOn(camera, 'getCullingBounds');
+        manager.setCamera(camera);
+
+        // Culling bounds are 796-1204 x 846-1154; the view starts at x = 800
+        const entities = {
+            center: createEntity('center', 1000, 1000),
+            inMargin: createEntity('inMargin', 790, 1000),
+            outside: createEntity('outside', 780, 1000),
+            far: createEntity('far', 100, 100)
+        };
+        Object.values(entities).forEach(entity => manager.addEntity(entity));
+
+        const context = createContext();
+        manager.render(context as unknown as CanvasRenderingContext2D);
+
+        expect(cullingSpy).toHaveBeenCalled();
+        expect(entities.center.render).toHaveBeenCalledTimes(1);
+        expect(entities.inMargin.render).toHaveBeenCalledTimes(1);
+        expect(entities.outside.render).not.toHaveBeenCalled();
+        expect(entities.far.render).not.toHaveBeenCalled();
+        expect(context.scale).toHaveBeenCalledWith(2, 2);
+        expect(context.restore).toHaveBeenCalledTimes(1);
+    });
+
+    test('should follow the camera when it moves', () => {
+        const manager = new EntityManager(2000, 2000);
+        const camera = new Camera(VIEWPORT, { position: { x: 1000, y: 1000 }, zoom: 2, maxShakeAngle: 0 });
+        manager.setCamera(camera);
+
+        const far = createEntity('far', 100, 100);
+        manager.addEntity(far);
+
+        camera.lookAt(100, 100);
+        manager.render(createContext() as unknown as CanvasRenderingContext2D);
+
+        expect(far.render).toHaveBeenCalledTimes(1);
+    });
+
+    test('should cull against the canvas without a camera', () => {
+        const manager = new EntityManager(2000, 2000);
+        const visible = createEntity('visible', 700, 500);
+        const hidden = createEntity('hidden', 1000, 1000);
+        manager.addEntity(visible);
+        manager.addEntity(hidden);
+
+        manager.render(createContext() as unknown as CanvasRenderingContext2D);
+
+        expect(visible.render).toHaveBeenCalledTimes(1);
+        expect(hidden.render).not.toHaveBeenCalled();
+    });
+});
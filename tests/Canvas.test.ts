@@ -0,0 +1,205 @@
+/**
+ * @file Canvas.test.ts
+ * @description Test suite for the canvas transform stack
+ *
+ * Tests cover:
+ * - Tracking push/pop transforms alongside the context state
+ * - Popping on errors inside withTransform
+ * - Deferring backing store resizes while states are saved
+ * - Clearing the whole canvas under any transform
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { Canvas } from '../src/engine/Canvas';
+import { identity, multiply, scaling, translation } from '../src/engine/Transform';
+import { Transform2D } from '../src/engine/types';
+
+/**
+ * Stand-in for a 2D context; like a real one, it loses its saved states
+ * whenever the canvas is resized
+ */
+class FakeContext {
+    public matrix: Transform2D = identity();
+    public imageSmoothingEnabled = true;
+    public fillStyle = '';
+    /** Transform each fillRect or clearRect was drawn under */
+    public clears: Array<{ fill: boolean; matrix: Transform2D; rect: number[] }> = [];
+    private saved: Transform2D[] = [];
+
+    public get savedStates(): number {
+        return this.saved.length;
+    }
+
+    public save(): void {
+        this.saved.push(this.matrix);
+    }
+
+    public restore(): void {
+        this.matrix = this.saved.pop() ?? this.matrix;
+    }
+
+    public setTransform(...matrix: Transform2D): void {
+        this.matrix = matrix;
+    }
+
+    public transform(...matrix: Transform2D): void {
+        this.matrix = multiply(this.matrix, matrix);
+    }
+
+    public fillRect(...rect: number[]): void {
+        this.clears.push({ fill: true, matrix: this.matrix, rect });
+    }
+
+    public clearRect(...rect: number[]): void {
+        this.clears.push({ fill: false, matrix: this.matrix, rect });
+    }
+
+    public reset(): void {
+        this.matrix = identity();
+        this.saved = [];
+    }
+}
+
+class FakeCanvasElement {
+    public readonly context = new FakeContext();
+    public style: Record<string, string> = {};
+    public id = '';
+    private size = { width: 300, height: 150 };
+
+    public get width(): number {
+        return this.size.width;
+    }
+
+    public set width(width: number) {
+        this.size.width = width;
+        this.context.reset();
+    }
+
+    public get height(): number {
+        return this.size.height;
+    }
+
+    public set height(height: number) {
+        this.size.height = height;
+        this.context.reset();
+    }
+
+    public getContext(): FakeContext {
+        return this.context;
+    }
+}
+
+describe('Canvas', () => {
+    let canvas: Canvas;
+    let context: FakeContext;
+
+    beforeEach(() => {
+        Object.assign(globalThis, {
+            document: { createElement: () => new FakeCanvasElement() }
+        });
+        canvas = new Canvas({ width: 800, height: 600, pixelRatio: 1 });
+        context = (canvas.getElement() as unknown as FakeCanvasElement).context;
+    });
+
+    afterEach(() => {
+        delete (globalThis as { document?: unknown }).document;
+    });
+
+    describe('Transform stack', () => {
+        test('should track pushed transforms and restore them on pop', () => {
+            canvas.push(translation(10, 20));
+            canvas.push(scaling(2));
+
+            expect(canvas.getStackDepth()).toBe(2);
+            expect(canvas.getTransform()).toEqual([2, 0, 0, 2, 10, 20]);
+            expect(context.matrix).toEqual([2, 0, 0, 2, 10, 20]);
+
+            canvas.pop();
+            canvas.pop();
+
+            expect(canvas.getStackDepth()).toBe(0);
+            expect(canvas.getTransform()).toEqual(identity());
+            expect(context.savedStates).toBe(0);
+        });
+
+        test('should throw when popping an empty stack', () => {
+            expect(() => canvas.pop()).toThrow('transform stack is empty');
+            expect(context.savedStates).toBe(0);
+        });
+
+        test('should pop when drawing throws inside withTransform', () => {
+            expect(() => canvas.withTransform(translation(5, 5), () => {
+                throw new Error('Draw failed');
+            })).toThrow('Draw failed');
+
+            expect(canvas.getStackDepth()).toBe(0);
+            expect(canvas.getTransform()).toEqual(identity());
+            expect(context.savedStates).toBe(0);
+        });
+    });
+
+    describe('Resizing', () => {
+        test('should reapply the current transform after resizing', () => {
+            canvas.translate(10, 20);
+            canvas.resize(400, 300);
+
+            expect(canvas.getElement().width).toBe(400);
+            expect(context.matrix).toEqual([1, 0, 0, 1, 10, 20]);
+        });
+
+        test('should defer resizing until the last pop', () => {
+            canvas.push(translation(10, 0));
+            canvas.push(scaling(2));
+            canvas.resize(400, 300);
+
+            // The saved states survive, so the pops restore them
+            expect(canvas.getElement().width).toBe(800);
+            expect(context.savedStates).toBe(2);
+
+            canvas.pop();
+            expect(canvas.getElement().width).toBe(800);
+            expect(context.matrix).toEqual([1, 0, 0, 1, 10, 0]);
+
+            canvas.pop();
+            expect(canvas.getElement().width).toBe(400);
+            expect(canvas.getElement().height).toBe(300);
+            expect(context.matrix).toEqual(identity());
+            expect(context.savedStates).toBe(0);
+        });
+
+        test('should defer resolution changes while states are saved', () => {
+            canvas.withTransform(undefined, () => {
+                canvas.setResolutionScale(0.5);
+                expect(canvas.getElement().width).toBe(800);
+            });
+
+            expect(canvas.getElement().width).toBe(400);
+            expect(context.matrix).toEqual([0.5, 0, 0, 0.5, 0, 0]);
+        });
+    });
+
+    describe('Clearing', () => {
+        test('should clear the whole canvas under a non-push transform', () => {
+            canvas.translate(10, 20);
+            canvas.scale(2);
+            canvas.clear();
+
+            expect(context.clears).toEqual([{ fill: false, matrix: identity(), rect: [0, 0, 800, 600] }]);
+            expect(context.matrix).toEqual([2, 0, 0, 2, 10, 20]);
+            expect(context.savedStates).toBe(0);
+        });
+
+        test('should fill with the base resolution transform inside pushed states', () => {
+            canvas.setResolutionScale(0.5);
+            canvas.push(translation(50, 0));
+            canvas.clear('#000000');
+
+            expect(context.clears).toEqual([{ fill: true, matrix: [0.5, 0, 0, 0.5, 0, 0], rect: [0, 0, 800, 600] }]);
+            expect(context.fillStyle).toBe('#000000');
+            expect(context.matrix).toEqual([0.5, 0, 0, 0.5, 25, 0]);
+            expect(context.savedStates).toBe(1);
+
+            canvas.pop();
+        });
+    });
+});
@@ -0,0 +1,317 @@
+/**
+ * @file CollisionSystem.test.ts
+ * @description Test suite for the collision system
+ *
+ * Tests cover:
+ * - Layer and mask filtering
+ * - Enter, stay and exit contact events
+ * - Swept tests and continuous collision for bullets
+ * - Pixel mask and point narrowphases
+ * - Circle, capsule and polygon shapes
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+    CollisionContact,
+    CollisionLayer,
+    CollisionSystem
+} from '../src/engine/collision/CollisionSystem';
+import { segmentVsBox, sweepAABB } from '../src/engine/collision/Sweep';
+import { CollisionMask, masksOverlap } from '../src/engine/collision/CollisionMask';
+import { CollisionShape } from '../src/engine/collision/Shapes';
+import { Unsubscribe } from '../src/engine/GameLoop';
+
+describe('CollisionSystem', () => {
+    let collisions: CollisionSystem;
+    let events: string[];
+    let unsubscribers: Unsubscribe[];
+
+    const record = (type: string) => (contact: CollisionContact) => {
+        events.push(`${type} ${contact.entityA}-${contact.entityB}`);
+    };
+
+    beforeEach(() => {
+        collisions = CollisionSystem.getInstance();
+        collisions.clearColliders();
+        events = [];
+        unsubscribers = [
+            collisions.onCollisionEnter(record('enter')),
+            collisions.onCollisionStay(record('stay')),
+            collisions.onCollisionExit(record('exit'))
+        ];
+    });
+
+    afterEach(() => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+    });
+
+    describe('Layers', () => {
+        test('should only report pairs whose masks accept each other', () => {
+            const box = () => ({ x: 0, y: 0, width: 10, height: 10 });
+            collisions.addCollider('bullet', { layer: CollisionLayer.PLAYER_BULLET, bounds: box() });
+            collisions.addCollider('enemy', { layer: CollisionLayer.ENEMY, bounds: box() });
+            collisions.addCollider('player', { layer: CollisionLayer.PLAYER, bounds: box() });
+
+            const contacts = collisions.step();
+
+            // Player bullets ignore the player; enemies hit both
+            expect(contacts.map(contact => `${contact.entityA}-${contact.entityB}`).sort())
+                .toEqual(['bullet-enemy', 'enemy-player']);
+        });
+
+        test('should skip disabled colliders and honour custom masks', () => {
+            const box = () => ({ x: 0, y: 0, width: 10, height: 10 });
+            collisions.addCollider('a', { layer: CollisionLayer.ENEMY, bounds: box(), mask: 0 });
+            collisions.addCollider('b', { layer: CollisionLayer.PLAYER, bounds: box() });
+            collisions.addCollider('c', { layer: CollisionLayer.PLAYER_BULLET, bounds: box(), enabled: false });
+
+            expect(collisions.step()).toEqual([]);
+        });
+    });
+
+    describe('Contact events', () => {
+        test('should report enter, stay and exit with overlap', () => {
+            const player = { x: 0, y: 0, width: 4, height: 12 };
+            collisions.addCollider('enemy', {
+                layer: CollisionLayer.ENEMY,
+                bounds: { x: 0, y: 20, width: 16, height: 8 }
+            });
+            collisions.addCollider('player', { layer: CollisionLayer.PLAYER, bounds: player });
+
+            collisions.step();
+            player.y = 10;
+            const [contact] = collisions.step();
+            player.y = 14;
+            collisions.step();
+            player.y = 40;
+            collisions.step();
+
+            expect(contact).toEqual({
+                entityA: 'enemy',
+                entityB: 'player',
+                layerA: CollisionLayer.ENEMY,
+                layerB: CollisionLayer.PLAYER,
+                overlap: { x: 4, y: 2 },
+                penetration: { x: 0, y: 2 }
+            });
+            expect(events).toEqual(['enter enemy-player', 'stay enemy-player', 'exit enemy-player']);
+        });
+
+        test('should report exit when a collider is removed during a listener', () => {
+            const box = () => ({ x: 0, y: 0, width: 10, height: 10 });
+            collisions.addCollider('bullet', { layer: CollisionLayer.ENEMY_BULLET, bounds: box() });
+            collisions.addCollider('shield', { layer: CollisionLayer.SHIELD, bounds: box() });
+            unsubscribers.push(collisions.onCollisionEnter(contact => collisions.removeCollider(contact.entityA)));
+
+            collisions.step();
+            collisions.step();
+
+            expect(events).toEqual(['enter bullet-shield', 'exit bullet-shield']);
+            expect(collisions.getContacts()).toEqual([]);
+        });
+    });
+
+    describe('Continuous collision', () => {
+        test('should report a bullet crossing a 2px-high enemy in one step', () => {
+            const bullet = { x: 8, y: 100, width: 4, height: 12 };
+            collisions.addCollider('bullet', { layer: CollisionLayer.PLAYER_BULLET, bounds: bullet });
+            collisions.addCollider('enemy', {
+                layer: CollisionLayer.ENEMY,
+                bounds: { x: 0, y: 50, width: 16, height: 2 }
+            });
+            collisions.step();
+
+            // A 160ms hitch at 500px/s moves the bullet 80px, clean past the enemy
+            bullet.y -= 80;
+            const [contact] = collisions.step();
+
+            expect(events).toEqual(['enter bullet-enemy']);
+            expect(contact.overlap).toEqual({ x: 0, y: 0 });
+            expect(contact.time).toBeCloseTo(48 / 80);
+            expect(contact.normal).toEqual({ x: 0, y: 1 });
+        });
+
+        test('should not sweep colliders that are not bullets', () => {
+            const enemy = { x: 0, y: 0, width: 16, height: 8 };
+            collisions.addCollider('enemy', { layer: CollisionLayer.ENEMY, bounds: enemy });
+            collisions.addCollider('shield', {
+                layer: CollisionLayer.SHIELD,
+                bounds: { x: 0, y: 40, width: 16, height: 2 }
+            });
+            collisions.step();
+
+            enemy.y = 80;
+
+            expect(collisions.step()).toEqual([]);
+        });
+
+        test('should sweep a box against a target', () => {
+            const target = { x: 0, y: 50, width: 16, height: 2 };
+
+            expect(sweepAABB({ x: 8, y: 100, width: 4, height: 12 }, { x: 0, y: -80 }, target)).toEqual({
+                time: 48 / 80,
+                normal: { x: 0, y: 1 },
+                position: { x: 8, y: 52 }
+            });
+            expect(sweepAABB({ x: 20, y: 100, width: 4, height: 12 }, { x: 0, y: -80 }, target)).toBeNull();
+            expect(sweepAABB({ x: 16, y: 100, width: 4, height: 12 }, { x: 0, y: -80 }, target)).toBeNull();
+            expect(sweepAABB({ x: 8, y: 45, width: 4, height: 12 }, { x: 0, y: -80 }, target)?.time).toBe(0);
+        });
+
+        test('should intersect a segment with a box', () => {
+            const target = { x: 10, y: 10, width: 10, height: 10 };
+
+            expect(segmentVsBox({ x: 0, y: 15 }, { x: 40, y: 15 }, target)?.time).toBeCloseTo(0.25);
+            expect(segmentVsBox({ x: 0, y: 15 }, { x: 5, y: 15 }, target)).toBeNull();
+            expect(segmentVsBox({ x: 0, y: 0 }, { x: 40, y: 0 }, target)).toBeNull();
+        });
+    });
+
+    describe('Pixel masks', () => {
+        // 4x4 diamond with empty corners, and a hole down column 1
+        const DIAMOND = { width: 4, frames: [[0b0110, 0b1111, 0b1111, 0b0110]] };
+        const COMB = { width: 4, frames: [[0b1011, 0b1011, 0b1011, 0b1011]] };
+
+        test('should build masks from bitmaps and RGBA data', () => {
+            const mask = CollisionMask.fromBitmap(DIAMOND, 0, 2);
+            const rgba = [0, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 128, 0, 0, 0, 127];
+
+            expect([mask.width, mask.height, mask.count()]).toEqual([8, 8, 48]);
+            expect(mask.test(0, 0)).toBe(false);
+            expect(mask.test(2, 0)).toBe(true);
+            expect(mask.test(8, 2)).toBe(false);
+            expect(() => CollisionMask.fromBitmap(DIAMOND, 1)).toThrow('no frame 1');
+            expect(Array.from({ length: 4 }, (_, x) => CollisionMask.fromRGBA(rgba, 4, 1).test(x, 0)))
+                .toEqual([true, false, true, false]);
+        });
+
+        test('should stretch masks over scaled bounds', () => {
+            const mask = CollisionMask.fromBitmap(DIAMOND);
+            const bounds = { x: 0, y: 0, width: 16, height: 16 };
+
+            expect(masksOverlap(mask, bounds, null, { x: 0, y: 0, width: 3, height: 3 })).toBe(false);
+            expect(masksOverlap(mask, bounds, null, { x: 0, y: 0, width: 5, height: 5 })).toBe(true);
+        });
+
+        test('should ignore box hits on empty mask corners', () => {
+            collisions.addCollider('enemy', {
+                layer: CollisionLayer.ENEMY,
+                bounds: { x: 0, y: 0, width: 16, height: 16 },
+                pixelMask: CollisionMask.fromBitmap(DIAMOND)
+            });
+            collisions.addCollider('player', {
+                layer: CollisionLayer.PLAYER,
+                bounds: { x: 13, y: 13, width: 10, height: 10 }
+            });
+
+            expect(collisions.step()).toEqual([]);
+
+            collisions.setColliderMask('enemy', null);
+
+            expect(collisions.step()).toHaveLength(1);
+        });
+
+        test('should sweep point bullets through gaps in a mask', () => {
+            const bullet = { x: 4, y: 40, width: 4, height: 12 };
+            collisions.addCollider('enemy', {
+                layer: CollisionLayer.ENEMY,
+                bounds: { x: 0, y: 0, width: 16, height: 16 },
+                pixelMask: CollisionMask.fromBitmap(COMB)
+            });
+            collisions.addCollider('bullet', {
+                layer: CollisionLayer.PLAYER_BULLET,
+                bounds: bullet,
+                narrowphase: 'point'
+            });
+            collisions.step();
+
+            // The bullet's centre line (x = 6) runs down the hole in column 1
+            bullet.y = -40;
+            expect(collisions.step()).toEqual([]);
+
+            collisions.setColliderBounds('bullet', { ...bullet, x: 8, y: 40 }, true);
+            collisions.step();
+            const moved = collisions.getCollider('bullet')!.bounds;
+            moved.y = -40;
+            const [contact] = collisions.step();
+
+            // Centre starts at y = 46 and reaches the bottom row at y = 16 after 30 of 80 pixels
+            expect(contact.time).toBeCloseTo(30 / 80, 1);
+            expect(events).toEqual(['enter bullet-enemy']);
+        });
+    });
+
+    describe('Shapes', () => {
+        const circle = (x: number, y: number, radius: number): CollisionShape => ({ type: 'circle', x, y, radius });
+        const diamond: CollisionShape = {
+            type: 'polygon',
+            points: [{ x: 10, y: 0 }, { x: 20, y: 10 }, { x: 10, y: 20 }, { x: 0, y: 10 }]
+        };
+
+        test('should report circle penetration as a vector', () => {
+            const result = collisions.checkShapeCollision(circle(0, 0, 5), circle(8, 0, 5));
+
+            expect(result.hasCollision).toBe(true);
+            expect(result.penetration?.x).toBeCloseTo(-2);
+            expect(result.penetration?.y).toBe(0);
+            expect(result.overlap?.x).toBeCloseTo(2);
+            expect(collisions.checkShapeCollision(circle(0, 0, 5), circle(10, 0, 5)).hasCollision).toBe(false);
+        });
+
+        test('should match the box test for box shapes', () => {
+            const boxA = { x: 0, y: 0, width: 10, height: 10 };
+            const boxB = { x: 8, y: 3, width: 10, height: 10 };
+
+            expect(collisions.checkShapeCollision({ type: 'box', ...boxA }, { type: 'box', ...boxB }))
+                .toEqual(collisions.checkCollision(boxA, boxB));
+            expect(collisions.checkCollision(boxA, boxB).penetration).toEqual({ x: -2, y: 0 });
+        });
+
+        test('should separate shapes whose boxes overlap only at the corners', () => {
+            // Bounds overlap, but the circle sits off the diamond's edge
+            expect(collisions.checkShapeCollision(circle(18, 18, 4), diamond).hasCollision).toBe(false);
+            expect(collisions.checkShapeCollision(circle(14, 14, 4), diamond).hasCollision).toBe(true);
+        });
+
+        test('should test capsules along their whole length', () => {
+            const laser: CollisionShape = { type: 'capsule', start: { x: 10, y: -100 }, end: { x: 10, y: -2 }, radius: 1 };
+            const longer: CollisionShape = { ...laser, end: { x: 10, y: 5 } };
+
+            expect(collisions.checkShapeCollision(laser, diamond).hasCollision).toBe(false);
+            const penetration = collisions.checkShapeCollision(longer, diamond).penetration!;
+
+            // The tip is shallowest to push out through the diamond's upper-left edge
+            expect(Math.hypot(penetration.x, penetration.y)).toBeCloseTo(5 / Math.SQRT2 + 1);
+            expect(penetration.x).toBeCloseTo(penetration.y);
+            expect(collisions.checkShapeCollision(longer, circle(12, -50, 2)).hasCollision).toBe(true);
+        });
+
+        test('should reject invalid shapes', () => {
+            const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const concave: CollisionShape = {
+                type: 'polygon',
+                points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 10 }]
+            };
+
+            expect(() => collisions.checkShapeCollision(concave, diamond)).toThrow('convex');
+            expect(() => collisions.checkShapeCollision(circle(0, 0, -1), diamond)).toThrow('radius');
+            expect(() => collisions.addCollider('empty', { layer: CollisionLayer.ENEMY })).toThrow('bounds or a shape');
+            consoleSpy.mockRestore();
+        });
+
+        test('should use shapes for colliders and follow them as they move', () => {
+            const shape = { type: 'circle' as const, x: 30, y: 10, radius: 4 };
+            collisions.addCollider('enemy', { layer: CollisionLayer.ENEMY, shape: diamond });
+            collisions.addCollider('player', { layer: CollisionLayer.PLAYER, shape });
+
+            expect(collisions.step()).toEqual([]);
+
+            shape.x = 21;
+            const [contact] = collisions.step();
+
+            // The circle reaches 3px past the diamond's right vertex
+            expect(contact.penetration).toEqual({ x: -3, y: 0 });
+            expect(events).toEqual(['enter enemy-player']);
+        });
+    });
+});
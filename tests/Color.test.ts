@@ -0,0 +1,127 @@
+/**
+ * @file Color.test.ts
+ * @description Test suite for color parsing, formatting and interpolation
+ *
+ * Tests cover:
+ * - Short, long and 8-digit hex
+ * - rgb(a) and hsl(a) in comma and space syntax
+ * - Round-trips through each string format
+ * - RGB and HSL interpolation, including the shorter hue arc
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+    fromHsl,
+    lerpColor,
+    lerpColorHsl,
+    parseColor,
+    rgbToHsl,
+    toColor,
+    toCssColor,
+    toHex,
+    toHslString,
+    toRgbString,
+    withAlpha
+} from '../src/engine/Color';
+
+describe('Color', () => {
+    describe('Hex', () => {
+        test('should expand short hex with and without alpha', () => {
+            expect(parseColor('#f80')).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+
+            const color = parseColor('#f808');
+            expect(color).toMatchObject({ r: 255, g: 136, b: 0 });
+            expect(color.a).toBeCloseTo(0x88 / 255);
+        });
+
+        test('should round-trip 6 and 8-digit hex', () => {
+            expect(toHex(parseColor('#1a2B3c'))).toBe('#1a2b3c');
+            expect(toHex(parseColor('#ff000080'), true)).toBe('#ff000080');
+            expect(parseColor('#ff000080').a).toBeCloseTo(0.502, 3);
+        });
+
+        test('should clamp channels when formatting', () => {
+            expect(toHex({ r: 300, g: -20, b: 127.6, a: 1 })).toBe('#ff0080');
+        });
+
+        test('should reject malformed hex', () => {
+            expect(() => parseColor('#12345')).toThrow('Unsupported color');
+            expect(() => parseColor('#ggg')).toThrow('Unsupported color');
+        });
+    });
+
+    describe('Functional notation', () => {
+        test('should parse rgb and rgba in comma and space syntax', () => {
+            expect(parseColor('rgb(10, 20, 30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+            expect(parseColor('rgba(10, 20, 30, 0.5)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+            expect(parseColor('rgb(10 20 30 / 50%)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+            expect(parseColor('rgb(100%, 0%, 50%)')).toEqual({ r: 255, g: 0, b: 128, a: 1 });
+        });
+
+        test('should parse hsl and hsla', () => {
+            expect(parseColor('hsl(210, 50%, 40%)')).toEqual({ r: 51, g: 102, b: 153, a: 1 });
+            expect(parseColor('hsla(0 100% 50% / 0.25)')).toEqual({ r: 255, g: 0, b: 0, a: 0.25 });
+        });
+
+        test('should round-trip rgb and hsl strings', () => {
+            expect(toRgbString(parseColor('rgb(10, 20, 30)'))).toBe('rgb(10, 20, 30)');
+            expect(toRgbString(parseColor('rgba(10, 20, 30, 0.5)'))).toBe('rgba(10, 20, 30, 0.5)');
+            expect(toHslString(parseColor('hsl(210, 50%, 40%)'))).toBe('hsl(210, 50%, 40%)');
+            expect(toHslString(parseColor('hsla(120, 100%, 25%, 0.5)'))).toBe('hsla(120, 100%, 25.1%, 0.5)');
+        });
+
+        test('should parse transparent and reject unknown strings', () => {
+            expect(parseColor(' transparent ')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+            expect(() => parseColor('rgb(1, 2)')).toThrow('Unsupported color');
+            expect(() => parseColor('hsl(red, 10%, 10%)')).toThrow('Unsupported color');
+            expect(() => parseColor('chartreuse')).toThrow('Unsupported color');
+        });
+    });
+
+    describe('Conversions', () => {
+        test('should convert between RGB and HSL', () => {
+            expect(rgbToHsl({ r: 255, g: 0, b: 0, a: 1 })).toEqual({ h: 0, s: 1, l: 0.5, a: 1 });
+            expect(rgbToHsl({ r: 128, g: 128, b: 128, a: 1 })).toMatchObject({ h: 0, s: 0 });
+            expect(fromHsl(-120, 1, 0.5)).toEqual({ r: 0, g: 0, b: 255, a: 1 });
+        });
+
+        test('should copy color objects and validate them', () => {
+            const color = { r: 1, g: 2, b: 3, a: 1 };
+
+            expect(toColor(color)).not.toBe(color);
+            expect(toColor(color)).toEqual(color);
+            expect(() => toColor({ r: 1 } as never)).toThrow('Invalid color object');
+        });
+
+        test('should pass strings through as CSS colors', () => {
+            expect(toCssColor('#abc')).toBe('#abc');
+            expect(toCssColor({ r: 1, g: 2, b: 3, a: 0.5 })).toBe('rgba(1, 2, 3, 0.5)');
+            expect(withAlpha('#ffffff', 2)).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+        });
+    });
+
+    describe('Interpolation', () => {
+        test('should interpolate channel by channel in RGB', () => {
+            expect(lerpColor('#000000', '#ffffff', 0.5)).toEqual({ r: 128, g: 128, b: 128, a: 1 });
+            expect(lerpColor('#000000', '#ffffff', 2)).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+        });
+
+        test('should interpolate hue along the shorter arc', () => {
+            // 350 to 10 degrees passes through red, not cyan at 180
+            const from = 'hsl(350, 100%, 50%)';
+            const to = 'hsl(10, 100%, 50%)';
+
+            expect(rgbToHsl(lerpColorHsl(from, to, 0.5)).h).toBeCloseTo(0, 0);
+            expect(rgbToHsl(lerpColorHsl(to, from, 0.5)).h).toBeCloseTo(0, 0);
+            expect(lerpColorHsl(from, to, 0.5)).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+        });
+
+        test('should keep saturation where RGB blending turns grey', () => {
+            const hsl = lerpColorHsl('#ff0000', '#00ffff', 0.5);
+            const rgb = lerpColor('#ff0000', '#00ffff', 0.5);
+
+            expect(rgbToHsl(hsl).s).toBeCloseTo(1);
+            expect(rgbToHsl(rgb).s).toBeCloseTo(0);
+        });
+    });
+});
@@ -0,0 +1,326 @@
+/**
+ * @file GameLoop.test.ts
+ * @description Test suite for the game loop scheduler
+ *
+ * Tests cover:
+ * - Subscriber ordering and runtime removal
+ * - Deterministic stepping without a browser
+ * - Manual clock and frame source driving
+ * - Time scaling, loop-driven timers and tweens
+ * - Error handling
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { GameLoop } from '../src/engine/GameLoop';
+import { ManualClock, ManualFrameSource } from '../src/engine/Clock';
+
+const FIXED_STEP = 1000 / 60;
+
+describe('GameLoop', () => {
+    let clock: ManualClock;
+    let frames: ManualFrameSource;
+    let loop: GameLoop;
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        clock = new ManualClock();
+        frames = new ManualFrameSource(clock);
+        loop = new GameLoop({}, { clock, frameSource: frames });
+    });
+
+    describe('Subscribers', () => {
+        test('should run subscribers in priority then registration order', () => {
+            const calls: string[] = [];
+
+            loop.onFixedUpdate(() => calls.push('default-a'));
+            loop.onFixedUpdate(() => calls.push('late'), { priority: 10 });
+            loop.onFixedUpdate(() => calls.push('early'), { priority: -10 });
+            loop.onFixedUpdate(() => calls.push('default-b'));
+
+            loop.step();
+
+            expect(calls).toEqual(['early', 'default-a', 'default-b', 'late']);
+        });
+
+        test('should dispatch phases in update, fixed update, render order', () => {
+            const calls: string[] = [];
+
+            loop.onRender(() => calls.push('render'));
+            loop.onFixedUpdate(() => calls.push('fixedUpdate'));
+            loop.onUpdate(() => calls.push('update'));
+
+            loop.step();
+
+            expect(calls).toEqual(['update', 'fixedUpdate', 'render']);
+        });
+
+        test('should stop calling a subscriber once removed', () => {
+            const callback = jest.fn();
+            const unsubscribe = loop.onFixedUpdate(callback);
+
+            loop.step(2);
+            unsubscribe();
+            loop.step(2);
+
+            expect(callback).toHaveBeenCalledTimes(2);
+        });
+
+        test('should allow a subscriber to remove itself during dispatch', () => {
+            const other = jest.fn();
+            const unsubscribe = loop.onFixedUpdate(() => unsubscribe());
+            loop.onFixedUpdate(other);
+
+            loop.step(3);
+
+            expect(other).toHaveBeenCalledTimes(3);
+        });
+
+        test('should register constructor callbacks as subscribers', () => {
+            const update = jest.fn();
+            const render = jest.fn();
+            const callbackLoop = new GameLoop({ update, render }, { clock, frameSource: frames });
+
+            callbackLoop.step();
+
+            expect(update).toHaveBeenCalledWith(FIXED_STEP);
+            expect(render).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Manual Stepping', () => {
+        test('should run exactly the requested number of fixed updates', () => {
+            const fixedUpdate = jest.fn();
+            loop.onFixedUpdate(fixedUpdate);
+
+            expect(loop.step(120)).toBe(120);
+            expect(fixedUpdate).toHaveBeenCalledTimes(120);
+        });
+
+        test('should accumulate advanced time into fixed updates', () => {
+            const fixedUpdate = jest.fn();
+            const render = jest.fn();
+            loop.onFixedUpdate(fixedUpdate);
+            loop.onRender(render);
+
+            loop.advance(FIXED_STEP * 2.5);
+
+            expect(fixedUpdate).toHaveBeenCalledTimes(2);
+            expect(render).toHaveBeenLastCalledWith(expect.closeTo(0.5, 5));
+        });
+
+        test('should not panic when advancing long spans', () => {
+            const onPanic = jest.fn();
+            const fixedUpdate = jest.fn();
+            const panicLoop = new GameLoop({ onPanic, update: fixedUpdate }, { clock, frameSource: frames });
+
+            panicLoop.advance(1000);
+
+            expect(onPanic).not.toHaveBeenCalled();
+            expect(fixedUpdate.mock.calls.length).toBeGreaterThanOrEqual(59);
+        });
+
+        test('should reject invalid step counts', () => {
+            expect(() => loop.step(-1)).toThrow();
+            expect(() => loop.step(1.5)).toThrow();
+        });
+    });
+
+    describe('Frame Source', () => {
+        test('should be driven by the injected frame source and clock', () => {
+            // 50 FPS keeps the timestep exactly representable
+            const fixedUpdate = jest.fn();
+            const exactLoop = new GameLoop({ update: fixedUpdate }, { fps: 50, clock, frameSource: frames });
+
+            exactLoop.start();
+            frames.runFrames(10, 20);
+
+            expect(fixedUpdate).toHaveBeenCalledTimes(10);
+            expect(frames.pendingCount).toBe(1);
+        });
+
+        test('should cancel the pending frame when stopped', () => {
+            loop.start();
+            loop.stop();
+
+            expect(frames.pendingCount).toBe(0);
+        });
+
+        test('should not advance the simulation while paused', () => {
+            const fixedUpdate = jest.fn();
+            const render = jest.fn();
+            loop.onFixedUpdate(fixedUpdate);
+            loop.onRender(render);
+
+            loop.start();
+            loop.pause();
+            frames.runFrames(5, FIXED_STEP);
+
+            expect(fixedUpdate).not.toHaveBeenCalled();
+            expect(render).toHaveBeenCalledTimes(5);
+        });
+    });
+
+    describe('Time Scaling', () => {
+        test('should run fewer fixed updates under a reduced global time scale', () => {
+            const fixedUpdate = jest.fn();
+            const slowLoop = new GameLoop({ update: fixedUpdate }, { fps: 50, clock, frameSource: frames });
+
+            slowLoop.setTimeScale(0.25);
+            slowLoop.advance(400);
+
+            expect(fixedUpdate).toHaveBeenCalledTimes(5);
+        });
+
+        test('should freeze the simulation at a time scale of zero', () => {
+            const fixedUpdate = jest.fn();
+            const render = jest.fn();
+            loop.onFixedUpdate(fixedUpdate);
+            loop.onRender(render);
+
+            loop.setTimeScale(0);
+            loop.advance(1000);
+
+            expect(fixedUpdate).not.toHaveBeenCalled();
+            expect(render).toHaveBeenCalled();
+        });
+
+        test('should scale the delta time received by a time layer', () => {
+            const gameplay = jest.fn();
+            const hud = jest.fn();
+            loop.onFixedUpdate(gameplay, { timeLayer: 'gameplay' });
+            loop.onFixedUpdate(hud, { timeLayer: 'hud' });
+
+            loop.setLayerTimeScale('gameplay', 0.5);
+            loop.step();
+
+            expect(gameplay).toHaveBeenCalledWith(FIXED_STEP * 0.5);
+            expect(hud).toHaveBeenCalledWith(FIXED_STEP);
+        });
+
+        test('should reject negative time scales', () => {
+            expect(() => loop.setTimeScale(-1)).toThrow();
+            expect(() => loop.setLayerTimeScale('gameplay', Number.NaN)).toThrow();
+        });
+    });
+
+    describe('Timers', () => {
+        test('should fire timers in simulation time', () => {
+            const callback = jest.fn();
+            loop.getTimers().after(FIXED_STEP * 3, callback);
+
+            loop.step(2);
+            expect(callback).not.toHaveBeenCalled();
+
+            loop.step(1);
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+
+        test('should not fire timers while paused', () => {
+            const callback = jest.fn();
+            loop.getTimers().after(10, callback);
+
+            loop.pause();
+            loop.advance(1000);
+
+            expect(callback).not.toHaveBeenCalled();
+        });
+
+        test('should repeat interval timers until cancelled', () => {
+            const timers = loop.getTimers('gameplay');
+            const callback = jest.fn();
+            const handle = timers.every(FIXED_STEP * 2, callback);
+
+            loop.step(6);
+            timers.cancel(handle);
+            loop.step(6);
+
+            expect(callback).toHaveBeenCalledTimes(3);
+        });
+
+        test('should follow the time scale of their layer', () => {
+            const callback = jest.fn();
+            loop.setLayerTimeScale('gameplay', 0.5);
+            loop.getTimers('gameplay').after(FIXED_STEP * 2, callback);
+
+            loop.step(3);
+            expect(callback).not.toHaveBeenCalled();
+
+            loop.step(1);
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Tweens', () => {
+        test('should ease a value over simulation time and land on the target', () => {
+            const values: number[] = [];
+            const onComplete = jest.fn();
+            loop.getTimers().tween({
+                from: 0,
+                to: 100,
+                duration: FIXED_STEP * 4,
+                easing: 'easeInOutQuad',
+                onUpdate: (value) => values.push(value),
+                onComplete
+            });
+
+            loop.step(6);
+
+            expect(values).toHaveLength(4);
+            expect(values[1]).toBeCloseTo(50, 5);
+            expect(values[3]).toBe(100);
+            expect(onComplete).toHaveBeenCalledTimes(1);
+        });
+
+        test('should hold tweens in place while the time scale is zero', () => {
+            const onUpdate = jest.fn();
+            loop.getTimers().tween({ from: 0, to: 1, duration: 100, onUpdate });
+
+            loop.setTimeScale(0);
+            loop.advance(500);
+
+            expect(onUpdate).not.toHaveBeenCalled();
+        });
+
+        test('should reject unknown easing names', () => {
+            expect(() => loop.getTimers().tween({
+                from: 0,
+                to: 1,
+                duration: 100,
+                easing: 'wobble' as never,
+                onUpdate: () => undefined
+            })).toThrow('Unknown easing');
+        });
+    });
+
+    describe('Error Handling', () => {
+        test('should halt the loop when a subscriber throws', () => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const after = jest.fn();
+            loop.onFixedUpdate(() => {
+                throw new Error('boom');
+            });
+            loop.onFixedUpdate(after);
+
+            loop.start();
+            frames.runFrame(FIXED_STEP);
+
+            expect(after).not.toHaveBeenCalled();
+            expect(loop.isRunning()).toBe(false);
+            expect(frames.pendingCount).toBe(0);
+        });
+
+        test('should keep running when configured not to halt', () => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const tolerant = new GameLoop({}, { clock, frameSource: frames, haltOnError: false });
+            const after = jest.fn();
+            tolerant.onFixedUpdate(() => {
+                throw new Error('boom');
+            });
+            tolerant.onFixedUpdate(after);
+
+            tolerant.step(3);
+
+            expect(after).toHaveBeenCalledTimes(3);
+        });
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * @file InputManager.test.ts
+ * @description Test suite for pointer coordinate mapping in the input manager
+ *
+ * Tests cover:
+ * - Mapping mouse and touch positions through a letterboxed coordinate mapper
+ * - Following canvas resizes and mapper changes between events
+ * - Clearing pointer state
+ */
+
+import { describe, test, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import { CoordinateMapper, InputManager } from '../src/input/InputManager';
+
+type Listener = (event: unknown) => void;
+
+const listeners = new Map<string, Listener[]>();
+
+const dispatch = (type: string, event: unknown): void => {
+    listeners.get(type)?.forEach(listener => listener(event));
+};
+
+const touchEvent = (...touches: Array<{ identifier: number; clientX: number; clientY: number }>) => ({
+    changedTouches: touches
+});
+
+// Logical 800x600 canvas; where it sits in the viewport changes as the window resizes
+const LOGICAL = { width: 800, height: 600 };
+
+describe('InputManager', () => {
+    let input: InputManager;
+    let rect: { left: number; top: number; width: number; height: number };
+
+    // Same mapping as Canvas.toLogical, reading the current on-screen rect
+    const letterboxed: CoordinateMapper = (clientX, clientY) => ({
+        x: (clientX - rect.left) * (LOGICAL.width / rect.width),
+        y: (clientY - rect.top) * (LOGICAL.height / rect.height)
+    });
+
+    beforeAll(() => {
+        Object.assign(globalThis, {
+            window: {
+                addEventListener: (type: string, listener: Listener) => {
+                    listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+                }
+            }
+        });
+        input = InputManager.getInstance();
+    });
+
+    afterAll(() => {
+        delete (globalThis as { window?: unknown }).window;
+    });
+
+    beforeEach(() => {
+        input.clear();
+        input.setCoordinateMapper(letterboxed);
+        // 1000x600 window with the canvas pillarboxed in the middle
+        rect = { left: 100, top: 0, width: 800, height: 600 };
+    });
+
+    describe('setCoordinateMapper', () => {
+        test('should map the mouse through a letterboxed mapping', () => {
+            dispatch('mousemove', { clientX: 500, clientY: 300 });
+
+            expect(input.getMousePosition()).toEqual({ x: 400, y: 300 });
+        });
+
+        test('should remap the last mouse position after the canvas resizes', () => {
+            dispatch('mousemove', { clientX: 500, clientY: 300 });
+
+            // Window shrinks to 800x300; the canvas is now 400x300 at x = 200
+            rect = { left: 200, top: 0, width: 400, height: 300 };
+
+            expect(input.getMousePosition()).toEqual({ x: 600, y: 600 });
+        });
+
+        test('should remap touches after the canvas resizes', () => {
+            dispatch('touchstart', touchEvent(
+                { identifier: 1, clientX: 100, clientY: 0 },
+                { identifier: 2, clientX: 900, clientY: 600 }
+            ));
+            expect(input.getTouches()).toEqual([{ x: 0, y: 0 }, { x: 800, y: 600 }]);
+
+            // Window grows to 1000x900; the canvas is letterboxed at y = 75
+            rect = { left: 0, top: 75, width: 1000, height: 750 };
+
+            expect(input.getTouches()).toEqual([{ x: 80, y: -60 }, { x: 720, y: 420 }]);
+        });
+
+        test('should apply a new mapper to positions recorded before it was set', () => {
+            dispatch('mousemove', { clientX: 500, clientY: 300 });
+
+            input.setCoordinateMapper((x, y) => ({ x: x / 2, y: y / 2 }));
+
+            expect(input.getMousePosition()).toEqual({ x: 250, y: 150 });
+        });
+    });
+
+    describe('Pointer state', () => {
+        test('should report the origin before the mouse moves', () => {
+            expect(input.getMousePosition()).toEqual({ x: 0, y: 0 });
+        });
+
+        test('should stop tracking lifted touches', () => {
+            dispatch('touchstart', touchEvent({ identifier: 1, clientX: 500, clientY: 300 }));
+            dispatch('touchmove', touchEvent({ identifier: 1, clientX: 300, clientY: 150 }));
+
+            expect(input.getTouches()).toEqual([{ x: 200, y: 150 }]);
+
+            dispatch('touchend', touchEvent({ identifier: 1, clientX: 300, clientY: 150 }));
+
+            expect(input.isTouching()).toBe(false);
+        });
+
+        test('should forget pointer positions when cleared', () => {
+            dispatch('mousemove', { clientX: 500, clientY: 300 });
+            dispatch('touchstart', touchEvent({ identifier: 1, clientX: 500, clientY: 300 }));
+
+            input.clear();
+
+            expect(input.getMousePosition()).toEqual({ x: 0, y: 0 });
+            expect(input.getTouches()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * @file Interpolation.test.ts
+ * @description Test suite for render interpolation between fixed updates
+ *
+ * Tests cover:
+ * - Blending positions and rotations with the loop's alpha
+ * - Teleports that must not be smeared across a frame
+ * - Disabling interpolation per entity
+ * - Render positions of the player and enemies
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { lerp, lerpAngle, TransformHistory } from '../src/engine/Interpolation';
+import { Enemy, EnemyType } from '../src/entities/Enemy';
+import { Player } from '../src/game/entities/Player';
+
+// Generated sprites need a DOM canvas; stand in sized images so entities work headless
+jest.mock('../src/engine/SpriteGenerator', () => {
+    const { Sprite } = jest.requireActual<typeof import('../src/engine/Sprite')>('../src/engine/Sprite');
+    const createSprite = (width: number, height: number) =>
+        new Sprite({ image: { width, height } as HTMLCanvasElement, width, height });
+
+    return {
+        ...jest.requireActual<object>('../src/engine/SpriteGenerator'),
+        createEnemySprite: () => createSprite(24, 16),
+        createPlayerSprite: () => createSprite(26, 16)
+    };
+});
+
+const GAME_CONTEXT = { getBounds: () => ({ width: 800, height: 600 }) } as ConstructorParameters<typeof Player>[0];
+
+describe('Interpolation', () => {
+    describe('lerp', () => {
+        test('should blend numbers and angles along the shorter arc', () => {
+            expect(lerp(10, 20, 0.25)).toBe(12.5);
+            expect(lerpAngle(0, Math.PI / 2, 0.5)).toBeCloseTo(Math.PI / 4);
+
+            // 350 to 10 degrees passes through 0, not 180
+            const from = (350 * Math.PI) / 180;
+            const to = (10 * Math.PI) / 180;
+            expect(Math.cos(lerpAngle(from, to, 0.5))).toBeCloseTo(1);
+        });
+    });
+
+    describe('TransformHistory', () => {
+        let history: TransformHistory;
+        let current: { x: number; y: number };
+
+        beforeEach(() => {
+            current = { x: 0, y: 0 };
+            history = new TransformHistory(current);
+
+            // One fixed step moving from the origin to (10, 20)
+            history.snapshot(current);
+            current.x = 10;
+            current.y = 20;
+        });
+
+        test('should blend from the previous to the current position', () => {
+            expect(history.getPosition(current, 0)).toEqual({ x: 0, y: 0 });
+            expect(history.getPosition(current, 0.5)).toEqual({ x: 5, y: 10 });
+            expect(history.getPosition(current, 1)).toEqual({ x: 10, y: 20 });
+        });
+
+        test('should copy the snapshot rather than keep the moving position', () => {
+            current.x = 30;
+
+            expect(history.getPosition(current, 0)).toEqual({ x: 0, y: 0 });
+        });
+
+        test('should blend rotations', () => {
+            history.snapshot(current, 0);
+
+            expect(history.getRotation(1, 0)).toBe(0);
+            expect(history.getRotation(1, 0.5)).toBeCloseTo(0.5);
+            expect(history.getRotation(1, 1)).toBeCloseTo(1);
+        });
+
+        test('should not blend across a teleport', () => {
+            current = { x: 500, y: 400 };
+            history.teleport(current);
+
+            expect(history.getPosition(current, 0)).toEqual({ x: 500, y: 400 });
+            expect(history.getPosition(current, 0.5)).toEqual({ x: 500, y: 400 });
+        });
+
+        test('should return the current transform when disabled', () => {
+            history.setEnabled(false);
+
+            expect(history.isEnabled()).toBe(false);
+            expect(history.getPosition(current, 0)).toEqual({ x: 10, y: 20 });
+            expect(history.getPosition(current, 0)).not.toBe(current);
+            expect(history.getRotation(2, 0)).toBe(2);
+
+            history.setEnabled(true);
+            expect(history.getPosition(current, 0.5)).toEqual({ x: 5, y: 10 });
+        });
+    });
+
+    describe('Player', () => {
+        let player: Player;
+
+        // The stand-in sprite is 26x16, so render positions are the centre minus (13, 8)
+        beforeEach(() => {
+            player = new Player(GAME_CONTEXT, { x: 100, y: 100 });
+            player.setVelocity({ x: 1, y: 0 });
+            player.update(2);
+        });
+
+        test('should report the top-left corner blended by alpha', () => {
+            expect(player.getRenderPosition(0)).toEqual({ x: 87, y: 92 });
+            expect(player.getRenderPosition(0.5)).toEqual({ x: 92, y: 92 });
+            expect(player.getRenderPosition(1)).toEqual({ x: 97, y: 92 });
+        });
+
+        test('should blend rotation between fixed updates', () => {
+            // Steering applied during a fixed step, after its snapshot
+            player.update(0);
+            player.rotate(10);
+
+            expect(player.getRenderRotation(0)).toBe(0);
+            expect(player.getRenderRotation(0.5)).toBeCloseTo(0.5);
+        });
+
+        test('should jump straight to a teleport target', () => {
+            player.teleportTo({ x: 400, y: 300 });
+
+            expect(player.getRenderPosition(0)).toEqual({ x: 387, y: 292 });
+            expect(player.getRenderPosition(0.5)).toEqual({ x: 387, y: 292 });
+
+            // The next step blends from the teleport target, not the old position
+            player.update(2);
+            expect(player.getRenderPosition(0.5)).toEqual({ x: 392, y: 292 });
+        });
+
+        test('should render the current position with interpolation disabled', () => {
+            player.setInterpolationEnabled(false);
+
+            expect(player.getRenderPosition(0)).toEqual({ x: 97, y: 92 });
+            expect(player.getRenderPosition(0.5)).toEqual({ x: 97, y: 92 });
+        });
+    });
+
+    describe('Enemy', () => {
+        let enemy: Enemy;
+
+        // The stand-in sprite is 24x16, so render positions are the centre minus (12, 8)
+        beforeEach(() => {
+            enemy = new Enemy(EnemyType.BASIC, { x: 100, y: 100 });
+            enemy.update(10, { x: 200, y: 100 });
+        });
+
+        test('should report the top-left corner blended by alpha', () => {
+            expect(enemy.getPosition()).toEqual({ x: 110, y: 100 });
+            expect(enemy.getRenderPosition(0)).toEqual({ x: 88, y: 92 });
+            expect(enemy.getRenderPosition(0.5)).toEqual({ x: 93, y: 92 });
+            expect(enemy.getRenderPosition(1)).toEqual({ x: 98, y: 92 });
+        });
+
+        test('should jump straight to a teleport target', () => {
+            enemy.teleportTo({ x: 20, y: 40 });
+
+            expect(enemy.getRenderPosition(0)).toEqual({ x: 8, y: 32 });
+            expect(enemy.getRenderPosition(1)).toEqual({ x: 8, y: 32 });
+        });
+
+        test('should render the current position with interpolation disabled', () => {
+            enemy.setInterpolationEnabled(false);
+
+            expect(enemy.getRenderPosition(0)).toEqual({ x: 98, y: 92 });
+        });
+    });
+});
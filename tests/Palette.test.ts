@@ -0,0 +1,134 @@
+/**
+ * @file Palette.test.ts
+ * @description Test suite for the palette registry
+ *
+ * Tests cover:
+ * - Registering and switching palettes
+ * - Listener notification and removal
+ * - Picking colors past the end of a list
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+    BUILT_IN_PALETTES,
+    Palette,
+    getPalette,
+    getPaletteName,
+    getPaletteNames,
+    onPaletteChange,
+    pickColor,
+    registerPalette,
+    setPalette
+} from '../src/engine/Palette';
+
+const MONO: Palette = {
+    ...BUILT_IN_PALETTES.arcade,
+    player: '#cccccc',
+    explosion: ['#ffffff'],
+    particles: ['#888888', '#ffffff']
+};
+
+describe('Palette', () => {
+    let unsubscribers: Array<() => void>;
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        unsubscribers = [];
+        registerPalette('mono', MONO);
+    });
+
+    afterEach(() => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        setPalette('arcade');
+    });
+
+    describe('Registry', () => {
+        test('should start on the arcade palette', () => {
+            expect(getPaletteName()).toBe('arcade');
+            expect(getPalette()).toBe(BUILT_IN_PALETTES.arcade);
+            expect(getPaletteNames()).toEqual(expect.arrayContaining(['arcade', 'mono']));
+        });
+
+        test('should reject palettes without explosion or particle colors', () => {
+            expect(() => registerPalette('empty', { ...MONO, explosion: [] })).toThrow('must define explosion');
+            expect(getPaletteNames()).not.toContain('empty');
+        });
+
+        test('should reject unknown palettes', () => {
+            expect(() => setPalette('sepia')).toThrow('Unknown palette: sepia');
+            expect(getPaletteName()).toBe('arcade');
+        });
+    });
+
+    describe('Listeners', () => {
+        test('should notify listeners with the new palette and name', () => {
+            const listener = jest.fn();
+            unsubscribers.push(onPaletteChange(listener));
+
+            setPalette('mono');
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(MONO, 'mono');
+            expect(getPalette().player).toBe('#cccccc');
+        });
+
+        test('should not notify when the palette is already active', () => {
+            const listener = jest.fn();
+            unsubscribers.push(onPaletteChange(listener));
+
+            setPalette('arcade');
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        test('should notify when the active palette is replaced', () => {
+            const listener = jest.fn();
+            setPalette('mono');
+            unsubscribers.push(onPaletteChange(listener));
+
+            const replacement = { ...MONO, player: '#ffffff' };
+            registerPalette('mono', replacement);
+
+            expect(listener).toHaveBeenCalledWith(replacement, 'mono');
+        });
+
+        test('should stop notifying removed listeners', () => {
+            const listener = jest.fn();
+            const unsubscribe = onPaletteChange(listener);
+
+            unsubscribe();
+            setPalette('mono');
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        test('should keep notifying after a listener throws', () => {
+            const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const listener = jest.fn();
+            unsubscribers.push(onPaletteChange(() => {
+                throw new Error('Listener failed');
+            }));
+            unsubscribers.push(onPaletteChange(listener));
+
+            setPalette('mono');
+
+            expect(consoleSpy).toHaveBeenCalled();
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('pickColor', () => {
+        const colors = ['#ff0000', '#00ff00', '#0000ff'];
+
+        test('should wrap indices past the end of the list', () => {
+            expect(pickColor(colors, 0)).toBe('#ff0000');
+            expect(pickColor(colors, 3)).toBe('#ff0000');
+            expect(pickColor(colors, 7)).toBe('#00ff00');
+        });
+
+        test('should floor fractional indices and mirror negative ones', () => {
+            expect(pickColor(colors, 2.9)).toBe('#0000ff');
+            expect(pickColor(colors, -1)).toBe('#00ff00');
+        });
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * @file PostProcessor.test.ts
+ * @description Test suite for the post-processing stage
+ *
+ * Tests cover:
+ * - Effect settings, overrides and toggles
+ * - Switching off on sustained slow frames
+ * - Drawing effects in backing-store space without leaking context state
+ * - Full redraws in dirty-rect mode while effects are applied
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { PostProcessor, DEFAULT_POST_PROCESS_SETTINGS } from '../src/engine/PostProcessor';
+import { RecordingRenderer } from '../src/engine/RecordingRenderer';
+import { Canvas } from '../src/engine/Canvas';
+import { GameLoopStats } from '../src/engine/GameLoop';
+import { IRenderingContext, ISceneObject } from '../src/engine/types';
+
+const TARGET = 1000 / 60;
+
+const sample = (frameTime: number): GameLoopStats => ({
+    fps: 1000 / frameTime,
+    frameTime,
+    updates: 0,
+    renders: 0
+});
+
+class Block implements ISceneObject {
+    public position = { x: 100, y: 100 };
+    public dimensions = { width: 16, height: 8 };
+    public visible = true;
+    public opacity = 1;
+    public zIndex = 0;
+
+    public draw(renderer: IRenderingContext): void {
+        renderer.context.fillStyle = '#ffffff';
+        renderer.context.fillRect(0, 0, this.dimensions.width, this.dimensions.height);
+    }
+}
+
+// Only the vignette is enabled; the other effects need DOM canvases for their buffers
+const VIGNETTE_ONLY = {
+    scanlines: { enabled: false },
+    glow: { enabled: false },
+    chromatic: { enabled: false },
+    persistence: { enabled: false },
+    vignette: { enabled: true }
+};
+
+describe('PostProcessor', () => {
+    let renderer: RecordingRenderer;
+    let canvas: Canvas;
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        renderer = new RecordingRenderer({ backgroundColor: '#000000', dirtyRects: true });
+        renderer.addObject('default', new Block());
+
+        // The recorder stands in for the canvas context the scene was drawn to
+        canvas = {
+            getContext: () => renderer.recorder,
+            getElement: () => ({ width: 800, height: 600 })
+        } as unknown as Canvas;
+    });
+
+    describe('Settings', () => {
+        test('should merge effect overrides with the defaults', () => {
+            const post = new PostProcessor(canvas, { effects: { vignette: { intensity: 0.8 } } });
+            const settings = post.getSettings();
+
+            expect(settings.vignette).toEqual({ ...DEFAULT_POST_PROCESS_SETTINGS.vignette, intensity: 0.8 });
+            expect(settings.glow).toEqual(DEFAULT_POST_PROCESS_SETTINGS.glow);
+        });
+
+        test('should return copies of the settings', () => {
+            const post = new PostProcessor(canvas);
+            post.getSettings().scanlines.enabled = false;
+
+            expect(post.getSettings().scanlines.enabled).toBe(true);
+        });
+
+        test('should toggle single effects and reject unknown ones', () => {
+            const post = new PostProcessor(canvas);
+            post.setEffectEnabled('glow', false);
+
+            expect(post.getSettings().glow.enabled).toBe(false);
+            expect(() => post.configure('bloom' as 'glow', { enabled: true })).toThrow('Unknown post-process effect');
+        });
+    });
+
+    describe('Auto-disable', () => {
+        test('should switch off after consecutive slow samples', () => {
+            const post = new PostProcessor(canvas, { targetFrameTime: TARGET, disableSamples: 3 });
+            const listener = jest.fn();
+            post.onAutoDisable(listener);
+
+            post.handleStats(sample(TARGET * 2));
+            post.handleStats(sample(TARGET * 2));
+            post.handleStats(sample(TARGET));
+            post.handleStats(sample(TARGET * 2));
+            post.handleStats(sample(TARGET * 2));
+            expect(post.isActive()).toBe(true);
+
+            post.handleStats(sample(TARGET * 2));
+            expect(post.isAutoDisabled()).toBe(true);
+            expect(post.isActive()).toBe(false);
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            post.setEnabled(true);
+            expect(post.isActive()).toBe(true);
+        });
+
+        test('should stop notifying removed listeners', () => {
+            const post = new PostProcessor(canvas, { disableSamples: 1 });
+            const listener = jest.fn();
+            const unsubscribe = post.onAutoDisable(listener);
+
+            unsubscribe();
+            post.handleStats(sample(TARGET * 2));
+
+            expect(post.isAutoDisabled()).toBe(true);
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Applying effects', () => {
+        test('should draw over the whole backing store and restore the context', () => {
+            const post = new PostProcessor(canvas, { effects: VIGNETTE_ONLY });
+            renderer.recorder.scale(2, 2);
+            renderer.recorder.globalAlpha = 0.5;
+
+            post.apply();
+
+            const [vignette] = renderer.recorder.takeCommands();
+            expect(vignette).toMatchObject({
+                shape: 'rect',
+                mode: 'fill',
+                bounds: { x: 0, y: 0, width: 800, height: 600 }
+            });
+            expect(renderer.recorder.globalAlpha).toBe(0.5);
+            expect(renderer.recorder.getStackDepth()).toBe(0);
+        });
+
+        test('should draw nothing while disabled', () => {
+            const post = new PostProcessor(canvas, { effects: VIGNETTE_ONLY });
+            post.setEnabled(false);
+
+            post.apply();
+
+            expect(renderer.recorder.takeCommands()).toHaveLength(0);
+        });
+    });
+
+    describe('Dirty rects', () => {
+        test('should force a full redraw after effects are applied', () => {
+            const post = new PostProcessor(canvas, { effects: VIGNETTE_ONLY, renderer });
+
+            renderer.render();
+            post.apply();
+            renderer.render();
+
+            expect(renderer.getStats().fullRedraw).toBe(true);
+            expect(renderer.countObjects('Block')).toBe(1);
+        });
+
+        test('should leave dirty rects alone when no effect is applied', () => {
+            const post = new PostProcessor(canvas, { effects: VIGNETTE_ONLY, renderer });
+            post.setEffectEnabled('vignette', false);
+
+            renderer.render();
+            post.apply();
+            renderer.render();
+
+            expect(renderer.getStats().fullRedraw).toBe(false);
+            expect(renderer.countObjects('Block')).toBe(0);
+        });
+    });
+});
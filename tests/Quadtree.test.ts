@@ -0,0 +1,144 @@
+/**
+ * @file Quadtree.test.ts
+ * @description Test suite for Quadtree spatial queries
+ *
+ * Tests cover:
+ * - Rectangle, radius and nearest-k queries against brute force
+ * - Segment raycasts with ordering and filtering
+ * - Removal and in-place updates of moving objects
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { Quadtree } from '../src/engine/collision/Quadtree';
+import { boxesOverlap } from '../src/engine/collision/Broadphase';
+
+interface Box {
+    id: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const WORLD = { x: 0, y: 0, width: 800, height: 600 };
+
+function createBoxes(count: number): Box[] {
+    // Deterministic scatter, including boxes that straddle node midpoints and leave the world
+    const boxes: Box[] = [];
+    for (let id = 0; id < count; id++) {
+        boxes.push({
+            id,
+            x: ((id * 137) % 840) - 20,
+            y: ((id * 89) % 620) - 10,
+            width: 8 + (id % 5) * 6,
+            height: 8 + (id % 3) * 6
+        });
+    }
+    return boxes;
+}
+
+function ids(boxes: Box[]): number[] {
+    return boxes.map(box => box.id).sort((a, b) => a - b);
+}
+
+function distanceTo(point: { x: number; y: number }, box: Box): number {
+    const dx = Math.max(box.x - point.x, 0, point.x - (box.x + box.width));
+    const dy = Math.max(box.y - point.y, 0, point.y - (box.y + box.height));
+    return Math.hypot(dx, dy);
+}
+
+describe('Quadtree', () => {
+    let tree: Quadtree<Box>;
+    let boxes: Box[];
+
+    beforeEach(() => {
+        tree = new Quadtree<Box>(WORLD);
+        boxes = createBoxes(300);
+        boxes.forEach(box => tree.insert(box));
+    });
+
+    describe('Queries', () => {
+        test('should find every box overlapping a rectangle', () => {
+            const area = { x: 350, y: 250, width: 120, height: 90 };
+
+            expect(ids(tree.query(area))).toEqual(ids(boxes.filter(box => boxesOverlap(area, box))));
+        });
+
+        test('should find every box within a radius', () => {
+            const center = { x: 400, y: 300 };
+
+            expect(ids(tree.queryRadius(center, 75)))
+                .toEqual(ids(boxes.filter(box => distanceTo(center, box) <= 75)));
+        });
+
+        test('should return the nearest boxes in order', () => {
+            const point = { x: 123, y: 456 };
+            const expected = [...boxes]
+                .sort((a, b) => distanceTo(point, a) - distanceTo(point, b))
+                .slice(0, 5)
+                .map(box => distanceTo(point, box));
+
+            expect(tree.nearest(point, 5).map(box => distanceTo(point, box))).toEqual(expected);
+            expect(tree.nearest(point, 5, 0.001).every(box => distanceTo(point, box) === 0)).toBe(true);
+        });
+    });
+
+    describe('Raycast', () => {
+        test('should return hits ordered by distance with entry points', () => {
+            tree.clear();
+            const near = { id: 1, x: 100, y: 90, width: 20, height: 20 };
+            const far = { id: 2, x: 500, y: 95, width: 10, height: 10 };
+            const off = { id: 3, x: 300, y: 200, width: 10, height: 10 };
+            [far, off, near].forEach(box => tree.insert(box));
+
+            const hits = tree.raycast({ x: 0, y: 100 }, { x: 800, y: 100 });
+
+            expect(hits.map(hit => hit.object.id)).toEqual([1, 2]);
+            expect(hits[0].distance).toBeCloseTo(100);
+            expect(hits[0].point).toEqual({ x: 100, y: 100 });
+        });
+
+        test('should skip filtered objects and stop at the segment end', () => {
+            const from = { x: 0, y: 0 };
+            const to = { x: 400, y: 300 };
+            const hits = tree.raycast(from, to, box => box.id % 2 === 0);
+
+            expect(hits.every(hit => hit.object.id % 2 === 0)).toBe(true);
+            expect(hits.every(hit => hit.distance <= 500)).toBe(true);
+            for (let i = 1; i < hits.length; i++) {
+                expect(hits[i].distance).toBeGreaterThanOrEqual(hits[i - 1].distance);
+            }
+        });
+    });
+
+    describe('Removal and updates', () => {
+        test('should remove objects wherever they have moved', () => {
+            const box = boxes[42];
+            box.x = 700;
+            box.y = 20;
+
+            expect(tree.remove(box)).toBe(true);
+            expect(tree.has(box)).toBe(false);
+            expect(tree.size()).toBe(299);
+            expect(tree.remove(box)).toBe(false);
+        });
+
+        test('should keep queries correct after moving objects in place', () => {
+            boxes.forEach((box, index) => {
+                box.x = (box.x + index * 31) % 780;
+                box.y = (box.y + index * 17) % 580;
+                tree.update(box);
+            });
+            const area = { x: 0, y: 0, width: 400, height: 300 };
+
+            expect(tree.size()).toBe(300);
+            expect(ids(tree.query(area))).toEqual(ids(boxes.filter(candidate => boxesOverlap(area, candidate))));
+        });
+
+        test('should collapse subnodes after removals', () => {
+            boxes.slice(5).forEach(box => tree.remove(box));
+
+            expect(ids(tree.query({ x: -100, y: -100, width: 1000, height: 800 }))).toEqual([0, 1, 2, 3, 4]);
+        });
+    });
+});
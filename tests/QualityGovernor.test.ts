@@ -0,0 +1,129 @@
+/**
+ * @file QualityGovernor.test.ts
+ * @description Test suite for adaptive quality control
+ *
+ * Tests cover:
+ * - Stepping down on sustained slow frames and repeated panics
+ * - Hysteresis before stepping back up
+ * - Driving subsystems on tier changes
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { QualityGovernor } from '../src/engine/QualityGovernor';
+import { GameLoopStats } from '../src/engine/GameLoop';
+
+const TARGET = 1000 / 60;
+
+const sample = (frameTime: number): GameLoopStats => ({
+    fps: 1000 / frameTime,
+    frameTime,
+    updates: 0,
+    renders: 0
+});
+
+const feed = (governor: QualityGovernor, frameTime: number, count: number): void => {
+    for (let i = 0; i < count; i++) {
+        governor.handleStats(sample(frameTime));
+    }
+};
+
+describe('QualityGovernor', () => {
+    let governor: QualityGovernor;
+
+    beforeEach(() => {
+        governor = new QualityGovernor({
+            degradeSamples: 5,
+            upgradeSamples: 20,
+            cooldownSamples: 3
+        });
+    });
+
+    test('should start at the highest tier by default', () => {
+        expect(governor.getCurrentTier().name).toBe('high');
+    });
+
+    test('should step down after sustained slow frames', () => {
+        feed(governor, TARGET * 2, 4);
+        expect(governor.getCurrentTier().name).toBe('high');
+
+        feed(governor, TARGET * 2, 1);
+        expect(governor.getCurrentTier().name).toBe('medium');
+    });
+
+    test('should ignore samples inside the hysteresis band', () => {
+        feed(governor, TARGET * 2, 4);
+        feed(governor, TARGET, 1);
+        feed(governor, TARGET * 2, 4);
+
+        expect(governor.getCurrentTier().name).toBe('high');
+    });
+
+    test('should step down after repeated panics', () => {
+        governor.handlePanic();
+        governor.handlePanic();
+        expect(governor.getTierIndex()).toBe(2);
+
+        governor.handlePanic();
+        expect(governor.getTierIndex()).toBe(1);
+    });
+
+    test('should drop only one tier for back-to-back panics', () => {
+        for (let i = 0; i < 20; i++) {
+            governor.handlePanic();
+        }
+        expect(governor.getTierIndex()).toBe(1);
+
+        // Still settling: panics during the cooldown are ignored
+        feed(governor, TARGET, 2);
+        governor.handlePanic();
+        governor.handlePanic();
+        governor.handlePanic();
+        expect(governor.getTierIndex()).toBe(1);
+    });
+
+    test('should forget panics that fall outside the window', () => {
+        governor = new QualityGovernor({ panicCount: 2, panicWindow: 10, cooldownSamples: 3 });
+
+        // e.g. switching back to the tab every few seconds
+        for (let i = 0; i < 5; i++) {
+            governor.handlePanic();
+            feed(governor, TARGET, 10);
+        }
+        expect(governor.getTierIndex()).toBe(2);
+
+        governor.handlePanic();
+        feed(governor, TARGET, 9);
+        governor.handlePanic();
+        expect(governor.getTierIndex()).toBe(1);
+    });
+
+    test('should require a longer fast streak to step back up', () => {
+        governor.setTier(0);
+
+        feed(governor, TARGET / 2, 3 + 19);
+        expect(governor.getTierIndex()).toBe(0);
+
+        feed(governor, TARGET / 2, 1);
+        expect(governor.getTierIndex()).toBe(1);
+    });
+
+    test('should apply tiers to connected subsystems', () => {
+        const particles = { setParticleCap: jest.fn() };
+        const audio = { setMaxConcurrentSounds: jest.fn() };
+        const canvas = { setResolutionScale: jest.fn() };
+        const entities = { setSimplifiedUpdates: jest.fn() };
+
+        governor.connect({ particleSystems: [particles], audio, canvas, entities });
+        governor.setTier(0);
+
+        expect(particles.setParticleCap).toHaveBeenLastCalledWith(50);
+        expect(audio.setMaxConcurrentSounds).toHaveBeenLastCalledWith(4);
+        expect(canvas.setResolutionScale).toHaveBeenLastCalledWith(0.5);
+        expect(entities.setSimplifiedUpdates).toHaveBeenLastCalledWith(true);
+        expect(canvas.setResolutionScale).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject overlapping thresholds', () => {
+        expect(() => new QualityGovernor({ degradeRatio: 1, upgradeRatio: 1.1 })).toThrow();
+    });
+});
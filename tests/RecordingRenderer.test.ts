@@ -0,0 +1,220 @@
+/**
+ * @file RecordingRenderer.test.ts
+ * @description Test suite for the headless recording renderer
+ *
+ * Tests cover:
+ * - Command capture with canvas-space bounds and colors
+ * - Drawing real game entities through the scene renderer
+ * - Layer and object tag attribution
+ * - Frame history and queries
+ * - Stable serialization for golden-file diffs
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { RecordingRenderer, serializeCommands } from '../src/engine/RecordingRenderer';
+import { IRenderingContext, ISceneObject } from '../src/engine/types';
+import { Enemy, EnemyType } from '../src/entities/Enemy';
+import { Player } from '../src/game/entities/Player';
+
+// Generated sprites need a DOM canvas; stand in sized images so entities draw headless
+jest.mock('../src/engine/SpriteGenerator', () => {
+    const { Sprite } = jest.requireActual<typeof import('../src/engine/Sprite')>('../src/engine/Sprite');
+    const createSprite = (width: number, height: number) =>
+        new Sprite({ image: { width, height } as HTMLCanvasElement, width, height });
+
+    return {
+        ...jest.requireActual<object>('../src/engine/SpriteGenerator'),
+        createEnemySprite: () => createSprite(24, 16),
+        createPlayerSprite: () => createSprite(26, 16)
+    };
+});
+
+const GAME_CONTEXT = { getBounds: () => ({ width: 800, height: 600 }) } as ConstructorParameters<typeof Player>[0];
+
+class Invader implements ISceneObject {
+    public position: { x: number; y: number };
+    public dimensions = { width: 16, height: 8 };
+    public visible = true;
+    public opacity = 1;
+    public zIndex = 0;
+
+    constructor(x: number, y: number) {
+        this.position = { x, y };
+    }
+
+    public draw(renderer: IRenderingContext): void {
+        renderer.context.fillStyle = '#ffffff';
+        renderer.context.fillRect(0, 0, this.dimensions.width, this.dimensions.height);
+    }
+}
+
+class Cannon implements ISceneObject {
+    public position = { x: 392, y: 560 };
+    public dimensions = { width: 16, height: 8 };
+    public visible = true;
+    public opacity = 1;
+    public zIndex = 0;
+
+    public draw(renderer: IRenderingContext): void {
+        renderer.context.beginPath();
+        renderer.context.arc(8, 4, 4, 0, Math.PI * 2);
+        renderer.context.fillStyle = '#33ff33';
+        renderer.context.fill();
+    }
+}
+
+describe('RecordingRenderer', () => {
+    let renderer: RecordingRenderer;
+
+    beforeEach(() => {
+        jest.restoreAllMocks();
+        renderer = new RecordingRenderer({
+            layers: [{ id: 'enemies' }, { id: 'player' }],
+            backgroundColor: '#000000'
+        });
+    });
+
+    describe('Recording', () => {
+        test('should count game entities drawn per tag in a frame', () => {
+            for (let row = 0; row < 5; row++) {
+                for (let column = 0; column < 11; column++) {
+                    renderer.addObject('enemies', new Enemy(EnemyType.BASIC, { x: 40 + column * 32, y: 40 + row * 24 }));
+                }
+            }
+            renderer.addObject('player', new Player(GAME_CONTEXT, { x: 400, y: 568 }));
+
+            for (let frame = 0; frame < 121; frame++) {
+                renderer.render();
+            }
+
+            const frame = renderer.getFrame(120);
+            expect(renderer.countObjects('Enemy', frame)).toBe(55);
+            expect(renderer.countObjects('Player', frame)).toBe(1);
+            expect(renderer.countCommands({ layer: 'enemies', shape: 'image' }, frame)).toBe(55);
+        });
+
+        test('should draw entity sprites centred on their positions', () => {
+            const enemy = new Enemy(EnemyType.BASIC, { x: 100, y: 50 });
+            const player = new Player(GAME_CONTEXT, { x: 400, y: 568 });
+            renderer.addObject('enemies', enemy);
+            renderer.addObject('player', player);
+            renderer.render();
+
+            const images = renderer.getLastFrame()!.commands.filter(command => command.shape === 'image');
+            expect(images.map(command => command.bounds)).toEqual([
+                { x: 88, y: 42, width: 24, height: 16 },
+                { x: 387, y: 560, width: 26, height: 16 }
+            ]);
+
+            enemy.takeDamage(1000);
+            renderer.render();
+
+            expect(renderer.countObjects('Enemy')).toBe(0);
+            expect(renderer.countObjects('Player')).toBe(1);
+        });
+
+        test('should record bounds in canvas space with layer and tag', () => {
+            renderer.addObject('enemies', new Invader(100, 50));
+            renderer.addObject('player', new Cannon());
+            renderer.render();
+
+            const [clear, invader, cannon] = renderer.getLastFrame()!.commands;
+
+            expect(clear).toMatchObject({ mode: 'fill', layer: null, color: '#000000' });
+            expect(invader).toMatchObject({
+                shape: 'rect',
+                mode: 'fill',
+                color: '#ffffff',
+                layer: 'enemies',
+                tag: 'Invader',
+                bounds: { x: 100, y: 50, width: 16, height: 8 }
+            });
+            expect(cannon).toMatchObject({
+                shape: 'circle',
+                layer: 'player',
+                tag: 'Cannon',
+                bounds: { x: 396, y: 560, width: 8, height: 8 }
+            });
+        });
+
+        test('should apply rotation about the object center', () => {
+            const invader = Object.assign(new Invader(0, 0), { rotation: Math.PI / 2 });
+            renderer.addObject('enemies', invader);
+            renderer.render();
+
+            const command = renderer.getLastFrame()!.commands[1];
+            expect(command.bounds.x).toBeCloseTo(4);
+            expect(command.bounds.y).toBeCloseTo(-4);
+            expect(command.bounds.width).toBeCloseTo(8);
+            expect(command.bounds.height).toBeCloseTo(16);
+        });
+
+        test('should skip hidden layers and objects', () => {
+            const hidden = new Invader(0, 0);
+            hidden.visible = false;
+            renderer.addObject('enemies', hidden);
+            renderer.addObject('player', new Cannon());
+            renderer.setLayerVisible('player', false);
+            renderer.render();
+
+            expect(renderer.getLastFrame()!.objects).toHaveLength(0);
+        });
+
+        test('should keep recording after a draw error', () => {
+            const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const broken = new Invader(0, 0);
+            broken.draw = () => {
+                throw new Error('Draw failed');
+            };
+            renderer.addObject('enemies', broken);
+            renderer.addObject('player', new Cannon());
+            renderer.render();
+
+            expect(consoleSpy).toHaveBeenCalled();
+            expect(renderer.countObjects('Cannon')).toBe(1);
+            expect(renderer.recorder.getStackDepth()).toBe(0);
+        });
+    });
+
+    describe('History', () => {
+        test('should drop frames beyond the history limit', () => {
+            renderer = new RecordingRenderer({ maxFrames: 2 });
+            renderer.render();
+            renderer.render();
+            renderer.render();
+
+            expect(renderer.getFrameCount()).toBe(3);
+            expect(renderer.getFrames().map(frame => frame.index)).toEqual([1, 2]);
+            expect(renderer.getFrame(0)).toBeUndefined();
+        });
+
+        test('should reject nested frames', () => {
+            renderer.beginFrame();
+            expect(() => renderer.beginFrame()).toThrow('before the previous frame ended');
+        });
+    });
+
+    describe('Serialization', () => {
+        test('should format commands as stable lines', () => {
+            renderer.addObject('enemies', new Invader(10.456, 20));
+            renderer.render();
+            renderer.beginFrame();
+            renderer.withTag('Score', () => {
+                renderer.context.font = '8px monospace';
+                renderer.context.textBaseline = 'top';
+                renderer.context.globalAlpha = 0.5;
+                renderer.context.fillText('SCORE', 4, 4);
+            });
+            renderer.endFrame();
+
+            expect(serializeCommands(renderer.getFrame(0)!.commands)).toBe([
+                '[-] - fill rect 0,0 800x600 #000000',
+                '[enemies] Invader fill rect 10.46,20 16x8 #ffffff'
+            ].join('\n'));
+            expect(serializeCommands(renderer.getFrame(1)!.commands)).toBe([
+                '[-] - fill rect 0,0 800x600 #000000',
+                '[-] Score text text 4,4 24x8 #000000 alpha=0.5 "SCORE"'
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file ScoreDisplay.test.ts
+ * @description Test suite for the animated score display
+ *
+ * Tests cover:
+ * - Animating score changes with simulation-time tweens
+ * - Replacing and cancelling running animations
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { ScoreDisplay } from '../src/game/ui/ScoreDisplay';
+import { TimerManager } from '../src/engine/TimerManager';
+
+class FakeElement {
+    public textContent = '';
+
+    public dispatchEvent(): boolean {
+        return true;
+    }
+}
+
+describe('ScoreDisplay', () => {
+    let element: FakeElement;
+    let timers: TimerManager;
+    let display: ScoreDisplay;
+
+    beforeEach(() => {
+        element = new FakeElement();
+        Object.defineProperty(globalThis, 'navigator', { value: { language: 'en-US' }, configurable: true });
+        Object.assign(globalThis, {
+            document: { getElementById: (id: string) => (id === 'score' ? element : null) }
+        });
+
+        timers = new TimerManager();
+        display = new ScoreDisplay('score', { animationDuration: 500 }, timers);
+    });
+
+    afterEach(() => {
+        delete (globalThis as { document?: unknown }).document;
+        delete (globalThis as { navigator?: unknown }).navigator;
+    });
+
+    test('should throw when the element is missing', () => {
+        expect(() => new ScoreDisplay('missing', {}, timers)).toThrow('"missing" not found');
+    });
+
+    test('should animate towards the new score as simulation time advances', () => {
+        display.updateScore(1000, { silent: true });
+        expect(element.textContent).toBe('0');
+
+        timers.update(250);
+        expect(display.getCurrentScore()).toBe(500);
+
+        timers.update(250);
+        expect(display.getCurrentScore()).toBe(1000);
+        expect(element.textContent).toBe('1,000');
+    });
+
+    test('should restart from the displayed score when a new change arrives', () => {
+        display.updateScore(1000, { silent: true });
+        timers.update(250);
+        display.updateScore(2000, { silent: true });
+
+        timers.update(250);
+        expect(display.getCurrentScore()).toBe(1250);
+
+        timers.update(250);
+        expect(display.getCurrentScore()).toBe(2000);
+    });
+
+    test('should stop animating once destroyed', () => {
+        display.updateScore(1000, { silent: true });
+        timers.update(100);
+        const score = display.getCurrentScore();
+
+        display.destroy();
+        timers.update(1000);
+
+        expect(display.getCurrentScore()).toBe(score);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file Shield.test.ts
+ * @description Test suite for destructible shield bunkers
+ *
+ * Tests cover:
+ * - Impacts and craters from projectiles on either side
+ * - Projectiles passing through eroded holes
+ * - Enemies carving through the shield
+ * - Per-pixel contacts through the collision system
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { Shield } from '../src/entities/Shield';
+import { CollisionLayer, CollisionSystem } from '../src/engine/collision/CollisionSystem';
+
+// Grid pixels are 2x2 world pixels, so the 22x16 bunker spans 100-144 x 100-132
+const ORIGIN = { x: 100, y: 100 };
+
+// Centre of grid column 10, which runs up through the arch in the bunker's base
+const ARCH_X = 121;
+
+describe('Shield', () => {
+    let shield: Shield;
+
+    beforeEach(() => {
+        shield = new Shield({ position: ORIGIN, pixelSize: 2 });
+    });
+
+    describe('Projectile hits', () => {
+        test('should stop shots from below at the first solid pixel above the arch', () => {
+            const impact = shield.hitByProjectile({ x: ARCH_X, y: 150 }, { x: ARCH_X, y: 90 });
+
+            // Row 11 is the last solid row over the arch
+            expect(impact).toEqual({ x: ARCH_X, y: 123 });
+            expect(shield.hitTest({ x: ARCH_X, y: 123 })).toBe(false);
+            expect(shield.getIntegrity()).toBeLessThan(1);
+        });
+
+        test('should stop shots from above on the sloped roof', () => {
+            const impact = shield.hitByProjectile({ x: 105, y: 80 }, { x: 105, y: 110 });
+
+            // Column 2 starts at row 2 under the rounded corner
+            expect(impact).toEqual({ x: 105, y: 105 });
+        });
+
+        test('should use a different crater for each direction', () => {
+            const other = new Shield({ position: ORIGIN, pixelSize: 2 });
+
+            shield.erode({ x: 122, y: 112 }, 'up');
+            other.erode({ x: 122, y: 112 }, 'down');
+
+            expect(shield.getCollisionMask().count()).not.toBe(other.getCollisionMask().count());
+        });
+
+        test('should let shots through once a hole is eroded', () => {
+            let hits = 0;
+            while (shield.hitByProjectile({ x: ARCH_X, y: 150 }, { x: ARCH_X, y: 90 }) && hits < 20) {
+                hits++;
+            }
+
+            expect(hits).toBeGreaterThan(1);
+            expect(hits).toBeLessThan(20);
+            expect(shield.findImpact({ x: ARCH_X, y: 150 }, { x: ARCH_X, y: 90 })).toBeNull();
+        });
+    });
+
+    describe('Carving', () => {
+        test('should remove every pixel under an enemy', () => {
+            const enemy = { x: 96, y: 96, width: 24, height: 12 };
+            const removed = shield.carve(enemy);
+
+            expect(removed).toBeGreaterThan(0);
+            expect(shield.carve(enemy)).toBe(0);
+            expect(shield.hitTest({ x: 110, y: 105 })).toBe(false);
+            expect(shield.hitTest({ x: 130, y: 110 })).toBe(true);
+        });
+
+        test('should be destroyed once fully carved and restored on reset', () => {
+            shield.carve(shield.getBounds());
+
+            expect(shield.isDestroyed()).toBe(true);
+            expect(shield.getIntegrity()).toBe(0);
+
+            shield.reset();
+
+            expect(shield.getIntegrity()).toBe(1);
+        });
+    });
+
+    describe('Collision', () => {
+        test('should only report bullets that reach solid pixels', () => {
+            const collisions = CollisionSystem.getInstance();
+            collisions.clearColliders();
+            collisions.addCollider(shield.id, shield.getColliderOptions());
+
+            const bullet = { x: ARCH_X - 1, y: 150, width: 2, height: 8 };
+            collisions.addCollider('bullet', {
+                layer: CollisionLayer.PLAYER_BULLET,
+                bounds: bullet,
+                narrowphase: 'point'
+            });
+            collisions.step();
+
+            // Inside the arch the bounds overlap but no pixel is hit
+            bullet.y = 122;
+            expect(collisions.step()).toEqual([]);
+
+            bullet.y = 114;
+            expect(collisions.step()).toHaveLength(1);
+
+            collisions.clearColliders();
+        });
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * @file ShieldSystem.test.ts
+ * @description Test suite for resolving shield contacts from collision steps
+ *
+ * Tests cover:
+ * - Bullets eroding shields and being reported as impacts
+ * - Bullets carrying on through eroded holes
+ * - Enemies carving shields as they walk through them
+ * - Disconnecting from the collision system
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { Shield } from '../src/entities/Shield';
+import { CollisionLayer, CollisionSystem } from '../src/engine/collision/CollisionSystem';
+import { ProjectilePath, ShieldImpact, ShieldSystem } from '../src/systems/ShieldSystem';
+
+// Grid pixels are 2x2 world pixels, so the 22x16 bunker spans 100-144 x 100-132
+const ORIGIN = { x: 100, y: 100 };
+
+// Centre of grid column 10, which runs up through the arch in the bunker's base
+const ARCH_X = 121;
+
+// Same hitbox as the projectile system's bullets
+const HITBOX = { width: 4, height: 12 };
+
+describe('ShieldSystem', () => {
+    let collisions: CollisionSystem;
+    let shields: ShieldSystem;
+    let shield: Shield;
+    let disconnect: () => void;
+    let paths: Map<string, ProjectilePath>;
+    let impacts: ShieldImpact[];
+
+    // Moves a bullet like the projectile system does and steps the collision system
+    const moveBullet = (id: string, to: { x: number; y: number }): void => {
+        const path = paths.get(id)!;
+        paths.set(id, { from: path.to, to });
+        collisions.setColliderBounds(id, {
+            x: to.x - HITBOX.width / 2,
+            y: to.y - HITBOX.height / 2,
+            ...HITBOX
+        });
+        collisions.step();
+    };
+
+    const fireBullet = (id: string, at: { x: number; y: number }): void => {
+        paths.set(id, { from: at, to: at });
+        collisions.addCollider(id, {
+            layer: CollisionLayer.PLAYER_BULLET,
+            bounds: { x: at.x - HITBOX.width / 2, y: at.y - HITBOX.height / 2, ...HITBOX }
+        });
+        collisions.step();
+    };
+
+    beforeEach(() => {
+        collisions = CollisionSystem.getInstance();
+        collisions.clearColliders();
+
+        shields = new ShieldSystem();
+        shield = new Shield({ position: ORIGIN, pixelSize: 2 });
+        shields.addShield(shield);
+        disconnect = shields.connectCollisions(collisions);
+
+        paths = new Map();
+        impacts = [];
+        shields.setProjectilePaths(id => paths.get(id) ?? null);
+        shields.onImpact(impact => impacts.push(impact));
+    });
+
+    afterEach(() => {
+        disconnect();
+        collisions.clearColliders();
+    });
+
+    describe('Bullets', () => {
+        test('should report an impact and erode the shield where a bullet hits', () => {
+            fireBullet('bullet', { x: ARCH_X, y: 150 });
+            moveBullet('bullet', { x: ARCH_X, y: 118 });
+
+            expect(impacts).toEqual([{ shieldId: shield.id, projectileId: 'bullet', point: { x: ARCH_X, y: 123 } }]);
+            expect(shield.hitTest({ x: ARCH_X, y: 123 })).toBe(false);
+            expect(shield.getIntegrity()).toBeLessThan(1);
+        });
+
+        test('should let bullets through holes their bounds overlap the edges of', () => {
+            // Clear grid column 10 only; the hitbox still overlaps columns 9 and 11
+            shield.carve({ x: 120, y: 100, width: 2, height: 32 });
+            const integrity = shield.getIntegrity();
+
+            fireBullet('bullet', { x: ARCH_X, y: 150 });
+            moveBullet('bullet', { x: ARCH_X, y: 118 });
+            expect(collisions.getContacts()).toHaveLength(1);
+
+            moveBullet('bullet', { x: ARCH_X, y: 104 });
+            moveBullet('bullet', { x: ARCH_X, y: 90 });
+
+            expect(impacts).toEqual([]);
+            expect(shield.getIntegrity()).toBe(integrity);
+        });
+
+        test('should ignore bullets without a known path', () => {
+            fireBullet('bullet', { x: ARCH_X, y: 150 });
+            paths.delete('bullet');
+            collisions.setColliderBounds('bullet', { x: ARCH_X - 2, y: 112, ...HITBOX });
+            collisions.step();
+
+            expect(impacts).toEqual([]);
+            expect(shield.getIntegrity()).toBe(1);
+        });
+    });
+
+    describe('Enemies', () => {
+        test('should carve the shield on every step an enemy overlaps it', () => {
+            const enemy = { x: 96, y: 90, width: 24, height: 12 };
+            collisions.addCollider('enemy', { layer: CollisionLayer.ENEMY, bounds: enemy });
+            collisions.step();
+            const afterFirstStep = shield.getIntegrity();
+
+            expect(afterFirstStep).toBeLessThan(1);
+            expect(shield.hitTest({ x: 105, y: 101 })).toBe(false);
+
+            enemy.y = 100;
+            collisions.setColliderBounds('enemy', enemy);
+            collisions.step();
+
+            expect(shield.getIntegrity()).toBeLessThan(afterFirstStep);
+            expect(shield.hitTest({ x: 110, y: 109 })).toBe(false);
+            expect(shield.hitTest({ x: 130, y: 110 })).toBe(true);
+        });
+    });
+
+    describe('Connection', () => {
+        test('should remove shield colliders and stop resolving contacts when disconnected', () => {
+            disconnect();
+
+            expect(collisions.getCollider(shield.id)).toBeUndefined();
+
+            collisions.addCollider('enemy', { layer: CollisionLayer.ENEMY, bounds: { x: 96, y: 96, width: 24, height: 12 } });
+            collisions.step();
+
+            expect(shield.getIntegrity()).toBe(1);
+        });
+
+        test('should register shields added after connecting', () => {
+            const other = new Shield({ position: { x: 300, y: 100 }, pixelSize: 2 });
+            shields.addShield(other);
+
+            expect(collisions.getCollider(other.id)).toBeDefined();
+            expect(shields.removeShield(other.id)).toBe(true);
+            expect(collisions.getCollider(other.id)).toBeUndefined();
+        });
+    });
+});
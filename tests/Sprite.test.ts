@@ -0,0 +1,225 @@
+/**
+ * @file Sprite.test.ts
+ * @description Test suite for sprite clip playback and rendering
+ *
+ * Tests cover:
+ * - Loop, pingpong and once playback with completion callbacks
+ * - Waiting for a fresh timestamp after starting, so pauses never skip frames
+ * - Local clips, frame jumps and the default clip of grid sheets
+ * - Drawing trimmed atlas frames
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { DEFAULT_CLIP, Sprite } from '../src/engine/Sprite';
+import { SpriteAtlas } from '../src/engine/SpriteAtlas';
+import { SpriteImage } from '../src/engine/ImageCache';
+import { DrawingContext } from '../src/engine/types';
+
+// Generated canvases are ready as soon as they have a size
+const IMAGE = { width: 64, height: 64 } as SpriteImage;
+
+// 10 frames per second
+const FRAME_INTERVAL = 100;
+
+describe('Sprite', () => {
+    let atlas: SpriteAtlas;
+    let sprite: Sprite;
+    let time: number;
+
+    // Advances one frame interval at a time, recording the frame shown after each
+    const playFor = (steps: number): string[] => {
+        const shown: string[] = [];
+        for (let step = 0; step < steps; step++) {
+            time += FRAME_INTERVAL;
+            sprite.update(time);
+            shown.push(sprite.getFrameName());
+        }
+        return shown;
+    };
+
+    // Plays a clip and hands the sprite its first timestamp
+    const start = (clip: string, onComplete?: () => void): void => {
+        sprite.play(clip, { onComplete });
+        sprite.update(time);
+    };
+
+    beforeEach(() => {
+        atlas = SpriteAtlas.fromGrid(IMAGE, { frameWidth: 16, frameHeight: 16, columns: 4 });
+        atlas.defineClip('loop', { frames: [0, 1, 2], frameRate: 10 });
+        atlas.defineClip('pingpong', { frames: [0, 1, 2], frameRate: 10, mode: 'pingpong' });
+        atlas.defineClip('once', { frames: [0, 1, 2], frameRate: 10, mode: 'once' });
+        sprite = new Sprite({ atlas, width: 16, height: 16 });
+        time = 1000;
+    });
+
+    describe('Clip modes', () => {
+        test('should restart loop clips and complete each cycle', () => {
+            const onComplete = jest.fn();
+            start('loop', onComplete);
+
+            expect(playFor(7)).toEqual(['1', '2', '0', '1', '2', '0', '1']);
+            expect(onComplete).toHaveBeenCalledTimes(2);
+        });
+
+        test('should play pingpong clips back and forth', () => {
+            const onComplete = jest.fn();
+            start('pingpong', onComplete);
+
+            expect(playFor(8)).toEqual(['1', '2', '1', '0', '1', '2', '1', '0']);
+            expect(onComplete).toHaveBeenCalledTimes(2);
+        });
+
+        test('should complete single-frame pingpong clips every frame', () => {
+            const onComplete = jest.fn();
+            atlas.defineClip('blink', { frames: [3], frameRate: 10, mode: 'pingpong' });
+            start('blink', onComplete);
+
+            expect(playFor(3)).toEqual(['3', '3', '3']);
+            expect(onComplete).toHaveBeenCalledTimes(3);
+        });
+
+        test('should hold the last frame of once clips and complete once', () => {
+            const onComplete = jest.fn();
+            start('once', onComplete);
+
+            expect(playFor(5)).toEqual(['1', '2', '2', '2', '2']);
+            expect(onComplete).toHaveBeenCalledTimes(1);
+            expect(sprite.getCurrentClip()).toBe('once');
+        });
+
+        test('should wait a full interval before advancing', () => {
+            start('loop');
+
+            sprite.update(time + FRAME_INTERVAL - 1);
+            expect(sprite.getFrameName()).toBe('0');
+
+            sprite.update(time + FRAME_INTERVAL);
+            expect(sprite.getFrameName()).toBe('1');
+        });
+
+        test('should keep going when the completion callback throws', () => {
+            const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            start('loop', () => {
+                throw new Error('Callback failed');
+            });
+
+            expect(playFor(4)).toEqual(['1', '2', '0', '1']);
+            expect(consoleSpy).toHaveBeenCalled();
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe('Starting and resuming', () => {
+        test('should take the first update after play as its start time', () => {
+            sprite.play('loop');
+
+            // A long gap since the sprite was created must not count as elapsed clip time
+            sprite.update(time + 60000);
+            expect(sprite.getFrameName()).toBe('0');
+
+            sprite.update(time + 60000 + FRAME_INTERVAL);
+            expect(sprite.getFrameName()).toBe('1');
+        });
+
+        test('should not jump ahead after being stopped and started again', () => {
+            start('loop');
+            playFor(1);
+
+            sprite.stopAnimation();
+            time += 5000;
+            sprite.update(time);
+            expect(sprite.getFrameName()).toBe('1');
+
+            sprite.startAnimation();
+            sprite.update(time);
+            expect(sprite.getFrameName()).toBe('1');
+            expect(playFor(1)).toEqual(['2']);
+        });
+
+        test('should only restart the playing clip when asked to', () => {
+            start('loop');
+            playFor(1);
+
+            sprite.play('loop');
+            expect(sprite.getFrameName()).toBe('1');
+
+            sprite.play('loop', { restart: true });
+            expect(sprite.getFrameName()).toBe('0');
+        });
+
+        test('should throw for unknown clips', () => {
+            expect(() => sprite.play('missing')).toThrow('Unknown animation clip: missing');
+        });
+    });
+
+    describe('Clips and frames', () => {
+        test('should prefer local clips over atlas clips', () => {
+            sprite.addClip('loop', { frames: [3, 2], frameRate: 10 });
+            start('loop');
+
+            expect(playFor(2)).toEqual(['2', '3']);
+            expect(atlas.getClip('loop')?.frames).toEqual([0, 1, 2]);
+        });
+
+        test('should jump within the clip or stop it to show another frame', () => {
+            start('loop');
+
+            sprite.setFrame(2);
+            expect(sprite.getCurrentClip()).toBe('loop');
+            expect(sprite.getFrameName()).toBe('2');
+
+            sprite.setFrame(3);
+            expect(sprite.getCurrentClip()).toBeNull();
+            expect(playFor(2)).toEqual(['3', '3']);
+
+            sprite.setFrame(9);
+            expect(sprite.getFrameName()).toBe('3');
+        });
+
+        test('should build a default clip for grid sheets', () => {
+            sprite = new Sprite({ image: IMAGE, width: 16, height: 16, frameCount: 4, columns: 2, frameRate: 10 });
+            sprite.startAnimation();
+            sprite.update(time);
+
+            expect(sprite.getCurrentClip()).toBe(DEFAULT_CLIP);
+            expect(playFor(4)).toEqual(['1', '2', '3', '0']);
+            expect(sprite.getAtlas().getFrame(3)).toMatchObject({ x: 16, y: 16 });
+        });
+
+        test('should require an image, image source or atlas', () => {
+            expect(() => new Sprite({ width: 16, height: 16 })).toThrow('requires an image, imageSource or atlas');
+        });
+    });
+
+    describe('Rendering', () => {
+        test('should draw the current frame with its trim offset and scale', () => {
+            const trimmed = new SpriteAtlas(IMAGE, {
+                frames: {
+                    alien: {
+                        frame: { x: 16, y: 0, w: 10, h: 6 },
+                        trimmed: true,
+                        spriteSourceSize: { x: 3, y: 1, w: 10, h: 6 },
+                        sourceSize: { w: 16, h: 8 }
+                    }
+                }
+            });
+            const context = { drawImage: jest.fn() };
+            sprite = new Sprite({ atlas: trimmed, width: 16, height: 8, scale: 2 });
+
+            sprite.render(context as unknown as DrawingContext, 100, 50);
+
+            expect(context.drawImage).toHaveBeenCalledWith(IMAGE, 16, 0, 10, 6, 106, 52, 20, 12);
+            expect(sprite.getDimensions()).toEqual({ width: 32, height: 16 });
+        });
+
+        test('should skip drawing until the image has a size', () => {
+            const context = { drawImage: jest.fn() };
+            sprite = new Sprite({ image: { width: 0, height: 0 } as SpriteImage, width: 16, height: 16 });
+
+            sprite.render(context as unknown as DrawingContext, 0, 0);
+
+            expect(sprite.isReady()).toBe(false);
+            expect(context.drawImage).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * @file SpriteAtlas.test.ts
+ * @description Test suite for parsing atlases and defining clips
+ *
+ * Tests cover:
+ * - TexturePacker hash and array manifests, including trimmed frames
+ * - Rejecting rotated and malformed frames
+ * - Slicing uniform grids
+ * - Clip validation
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { SpriteAtlas, TexturePackerArray, TexturePackerHash } from '../src/engine/SpriteAtlas';
+import { SpriteImage } from '../src/engine/ImageCache';
+
+// Generated canvases are ready as soon as they have a size
+const IMAGE = { width: 64, height: 64 } as SpriteImage;
+
+const HASH: TexturePackerHash = {
+    frames: {
+        'ship.png': {
+            frame: { x: 0, y: 0, w: 16, h: 8 },
+            rotated: false,
+            trimmed: false,
+            spriteSourceSize: { x: 0, y: 0, w: 16, h: 8 },
+            sourceSize: { w: 16, h: 8 }
+        },
+        'alien.png': {
+            frame: { x: 16, y: 0, w: 10, h: 6 },
+            rotated: false,
+            trimmed: true,
+            spriteSourceSize: { x: 3, y: 1, w: 10, h: 6 },
+            sourceSize: { w: 16, h: 8 }
+        }
+    },
+    meta: { image: 'sheet.png', size: { w: 64, h: 64 } }
+};
+
+const ARRAY: TexturePackerArray = {
+    frames: Object.entries(HASH.frames).map(([filename, frame]) => ({ filename, ...frame })),
+    meta: HASH.meta
+};
+
+describe('SpriteAtlas', () => {
+    describe('TexturePacker manifests', () => {
+        test('should parse the hash format', () => {
+            const atlas = new SpriteAtlas(IMAGE, HASH);
+
+            expect(atlas.image).toBe(IMAGE);
+            expect(atlas.getFrameNames()).toEqual(['ship.png', 'alien.png']);
+            expect(atlas.getFrame('ship.png')).toEqual({
+                x: 0, y: 0, width: 16, height: 8, offsetX: 0, offsetY: 0, sourceWidth: 16, sourceHeight: 8
+            });
+        });
+
+        test('should parse the array format into the same frames', () => {
+            const fromArray = new SpriteAtlas(IMAGE, ARRAY);
+            const fromHash = new SpriteAtlas(IMAGE, HASH);
+
+            expect(fromArray.getFrameNames()).toEqual(fromHash.getFrameNames());
+            fromHash.getFrameNames().forEach(name => {
+                expect(fromArray.getFrame(name)).toEqual(fromHash.getFrame(name));
+            });
+        });
+
+        test('should keep the trim offset and original size of trimmed frames', () => {
+            const atlas = new SpriteAtlas(IMAGE, ARRAY);
+
+            expect(atlas.getFrame('alien.png')).toEqual({
+                x: 16, y: 0, width: 10, height: 6, offsetX: 3, offsetY: 1, sourceWidth: 16, sourceHeight: 8
+            });
+        });
+
+        test('should ignore sprite source offsets on untrimmed frames', () => {
+            const atlas = new SpriteAtlas(IMAGE, {
+                frames: { bullet: { frame: { x: 0, y: 0, w: 2, h: 4 }, spriteSourceSize: { x: 5, y: 5, w: 2, h: 4 } } }
+            });
+
+            expect(atlas.getFrame('bullet')).toMatchObject({ offsetX: 0, offsetY: 0, sourceWidth: 2, sourceHeight: 4 });
+        });
+
+        test('should reject rotated frames', () => {
+            expect(() => new SpriteAtlas(IMAGE, {
+                frames: [{ filename: 'turned', frame: { x: 0, y: 0, w: 8, h: 8 }, rotated: true }]
+            })).toThrow('export the atlas without rotation');
+        });
+
+        test('should reject manifests without frames or frame rectangles', () => {
+            expect(() => new SpriteAtlas(IMAGE, {} as TexturePackerHash)).toThrow('must contain a frames collection');
+            expect(() => new SpriteAtlas(IMAGE, { frames: { empty: {} } } as unknown as TexturePackerHash))
+                .toThrow("Atlas frame 'empty' is missing its frame rectangle");
+        });
+    });
+
+    describe('Grids', () => {
+        test('should name frames by index, row by row', () => {
+            const atlas = SpriteAtlas.fromGrid(IMAGE, { frameWidth: 16, frameHeight: 8, columns: 3, rows: 2, frameCount: 5 });
+
+            expect(atlas.getFrameNames()).toEqual(['0', '1', '2', '3', '4']);
+            expect(atlas.getFrame(2)).toMatchObject({ x: 32, y: 0 });
+            expect(atlas.getFrame(4)).toMatchObject({ x: 16, y: 8, width: 16, height: 8 });
+            expect(atlas.hasFrame(5)).toBe(false);
+        });
+
+        test('should reject invalid layouts', () => {
+            expect(() => SpriteAtlas.fromGrid(IMAGE, { frameWidth: 0, frameHeight: 8, columns: 1 }))
+                .toThrow('dimensions must be positive');
+            expect(() => SpriteAtlas.fromGrid(IMAGE, { frameWidth: 8, frameHeight: 8, columns: 2, frameCount: 3 }))
+                .toThrow('Grid of 2x1 cannot hold 3 frames');
+        });
+    });
+
+    describe('Clips', () => {
+        test('should default clips to loop mode and copy their frames', () => {
+            const atlas = new SpriteAtlas(IMAGE, HASH);
+            const frames = ['ship.png', 'alien.png'];
+
+            atlas.defineClip('idle', { frames, frameRate: 4 });
+            frames.push('ship.png');
+
+            expect(atlas.getClip('idle')).toEqual({ frames: ['ship.png', 'alien.png'], frameRate: 4, mode: 'loop' });
+            expect(atlas.getClipNames()).toEqual(['idle']);
+        });
+
+        test('should reject empty clips, bad frame rates and unknown frames', () => {
+            const atlas = new SpriteAtlas(IMAGE, HASH);
+
+            expect(() => atlas.defineClip('empty', { frames: [], frameRate: 4 })).toThrow("Clip 'empty' has no frames");
+            expect(() => atlas.defineClip('still', { frames: ['ship.png'], frameRate: 0 }))
+                .toThrow("Clip 'still' frame rate must be positive");
+            expect(() => atlas.defineClip('lost', { frames: ['ship.png', 'boss.png'], frameRate: 4 }))
+                .toThrow("Clip 'lost' references unknown frame 'boss.png'");
+            expect(atlas.getClipNames()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * @file Transform.test.ts
+ * @description Test suite for affine transform math
+ *
+ * Tests cover:
+ * - Composition order of multiply
+ * - Inversion, including singular matrices
+ * - Mapping points through transforms
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+    IDENTITY_TRANSFORM,
+    identity,
+    invert,
+    multiply,
+    rotation,
+    scaling,
+    transformPoint,
+    translation
+} from '../src/engine/Transform';
+import { Transform2D } from '../src/engine/types';
+
+const expectTransformCloseTo = (actual: Transform2D | null, expected: Readonly<Transform2D>): void => {
+    expect(actual).not.toBeNull();
+    actual!.forEach((value, index) => expect(value).toBeCloseTo(expected[index]));
+};
+
+describe('Transform', () => {
+    describe('multiply', () => {
+        test('should apply the right transform first', () => {
+            // Scale then move: the offset is not scaled
+            const moveAfterScale = multiply(translation(10, 0), scaling(2));
+            // Move then scale: the offset is scaled too
+            const scaleAfterMove = multiply(scaling(2), translation(10, 0));
+
+            expect(transformPoint(moveAfterScale, { x: 1, y: 1 })).toEqual({ x: 12, y: 2 });
+            expect(transformPoint(scaleAfterMove, { x: 1, y: 1 })).toEqual({ x: 22, y: 2 });
+        });
+
+        test('should leave transforms unchanged when combined with identity', () => {
+            const transform: Transform2D = [2, 1, -1, 3, 5, 7];
+
+            expect(multiply(identity(), transform)).toEqual(transform);
+            expect(multiply(transform, IDENTITY_TRANSFORM)).toEqual(transform);
+        });
+
+        test('should compose rotations', () => {
+            expectTransformCloseTo(multiply(rotation(Math.PI / 4), rotation(Math.PI / 4)), rotation(Math.PI / 2));
+        });
+    });
+
+    describe('invert', () => {
+        test('should undo a combined transform', () => {
+            const transform = multiply(translation(30, -12), multiply(rotation(0.7), scaling(2, 0.5)));
+
+            expectTransformCloseTo(multiply(transform, invert(transform)!), IDENTITY_TRANSFORM);
+            expectTransformCloseTo(multiply(invert(transform)!, transform), IDENTITY_TRANSFORM);
+        });
+
+        test('should map transformed points back', () => {
+            const transform = multiply(translation(5, 5), rotation(Math.PI / 3));
+            const point = transformPoint(invert(transform)!, transformPoint(transform, { x: 3, y: -4 }));
+
+            expect(point.x).toBeCloseTo(3);
+            expect(point.y).toBeCloseTo(-4);
+        });
+
+        test('should return null for singular transforms', () => {
+            expect(invert(scaling(0, 1))).toBeNull();
+            expect(invert([1, 2, 2, 4, 0, 0])).toBeNull();
+            expect(invert([Infinity, 0, 0, 1, 0, 0])).toBeNull();
+        });
+    });
+
+    describe('transformPoint', () => {
+        test('should rotate clockwise on screen', () => {
+            const point = transformPoint(rotation(Math.PI / 2), { x: 1, y: 0 });
+
+            expect(point.x).toBeCloseTo(0);
+            expect(point.y).toBeCloseTo(1);
+        });
+
+        test('should apply the full matrix', () => {
+            expect(transformPoint([2, 1, -1, 3, 5, 7], { x: 1, y: 2 })).toEqual({ x: 5, y: 14 });
+        });
+    });
+});